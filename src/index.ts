@@ -2,7 +2,7 @@
 
 /**
  * Main MCP Server for usql
- * Exposes usql capabilities as MCP tools
+ * Exposes usql capabilities as MCP tools over stdio or Streamable HTTP
  */
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
@@ -10,10 +10,17 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
   McpError,
   ErrorCode,
 } from "@modelcontextprotocol/sdk/types.js";
 import { createLogger } from "./utils/logger.js";
+import { resolveTransportOptions, TransportOptions } from "./transport/options.js";
+import { startHttpTransport } from "./transport/http.js";
 import { formatMcpError } from "./utils/error-handler.js";
 
 // Import tool schemas and handlers
@@ -22,37 +29,78 @@ import { listDatabasesSchema, handleListDatabases } from "./tools/list-databases
 import { listTablesSchema, handleListTables } from "./tools/list-tables.js";
 import { describeTableSchema, handleDescribeTable } from "./tools/describe-table.js";
 import { executeScriptSchema, handleExecuteScript } from "./tools/execute-script.js";
+import { explainQuerySchema, handleExplainQuery } from "./tools/explain-query.js";
+import { testConnectionSchema, handleTestConnection } from "./tools/test-connection.js";
+import { getDatabaseInfoSchema, handleGetDatabaseInfo } from "./tools/get-database-info.js";
 import { getJobStatusSchema, handleGetJobStatus } from "./tools/get-job-status.js";
 import { getServerInfoSchema, handleGetServerInfo } from "./tools/get-server-info.js";
 import { cancelJobSchema, handleCancelJob } from "./tools/cancel-job.js";
+import { openSessionSchema, handleOpenSession } from "./tools/open-session.js";
+import { closeSessionSchema, handleCloseSession } from "./tools/close-session.js";
+import { listResources, readResource, resourceTemplates } from "./resources/schema-resources.js";
+import { getPrompt, prompts } from "./prompts/sql-prompts.js";
 
 // Import job manager
 import { initializeJobManager, shutdownJobManager, getJobManager } from "./usql/job-manager.js";
-import { getJobResultTtlMs } from "./usql/config.js";
+import { shutdownSessionManager } from "./usql/session-manager.js";
+import { createJobStore } from "./usql/job-store.js";
+import { getJobResultTtlMs, getJobStoreDir } from "./usql/config.js";
+import { checkConfig } from "./usql/config-check.js";
+import { watchConfigFile } from "./usql/config-watcher.js";
 
 const logger = createLogger("usql-mcp:server");
 
+const INVALID_PARAMS_ERRORS = new Set(["InvalidInput", "ResourceNotFound", "PromptNotFound"]);
+
+/**
+ * Resources and prompts report failures as JSON-RPC errors rather than tool results
+ */
+function toProtocolError(error: unknown): McpError {
+  const mcpError = formatMcpError(error);
+  return new McpError(
+    INVALID_PARAMS_ERRORS.has(mcpError.error) ? ErrorCode.InvalidParams : ErrorCode.InternalError,
+    `${mcpError.error}: ${mcpError.message}`,
+    mcpError.details
+  );
+}
+
 class UsqlMcpServer {
-  private server: Server;
   private tools = [
     executeQuerySchema,
     listDatabasesSchema,
     listTablesSchema,
     describeTableSchema,
     executeScriptSchema,
+    explainQuerySchema,
+    testConnectionSchema,
+    getDatabaseInfoSchema,
     getJobStatusSchema,
     getServerInfoSchema,
     cancelJobSchema,
+    openSessionSchema,
+    closeSessionSchema,
   ];
 
+  // Connected MCP servers (one per HTTP session), notified when the configuration changes
+  private servers = new Set<Server>();
+  private stopConfigWatch?: () => void;
+
   constructor() {
     logger.debug("[server] Initializing MCP server");
 
-    // Initialize job manager with configured TTL
+    // Initialize job manager with configured TTL and job store
     const jobResultTtl = getJobResultTtlMs();
-    initializeJobManager(jobResultTtl);
+    initializeJobManager(jobResultTtl, createJobStore(getJobStoreDir()));
 
-    this.server = new Server(
+    this.setupErrorHandling();
+  }
+
+  /**
+   * Create an MCP server with the tool handlers registered. stdio uses one; the HTTP
+   * transport creates one per session.
+   */
+  private createServer(): Server {
+    const server = new Server(
       {
         name: "usql-mcp",
         version: "0.1.0",
@@ -60,20 +108,31 @@ class UsqlMcpServer {
       {
         capabilities: {
           tools: {},
+          resources: { listChanged: true },
+          prompts: {},
         },
       }
     );
 
-    // Setup request handlers
-    this.setupToolHandlers();
-    this.setupErrorHandling();
+    server.onerror = (error): void => {
+      logger.error("[server] Server error", error);
+    };
+    server.onclose = (): void => {
+      this.servers.delete(server);
+    };
+    this.servers.add(server);
+
+    this.setupToolHandlers(server);
+    this.setupResourceHandlers(server);
+    this.setupPromptHandlers(server);
+    return server;
   }
 
-  private setupToolHandlers(): void {
+  private setupToolHandlers(server: Server): void {
     logger.debug("[server] Setting up tool handlers");
 
     // List tools handler
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       logger.debug("[server] Listing tools", {
         toolCount: this.tools.length,
         tools: this.tools.map((t) => t.name),
@@ -84,7 +143,7 @@ class UsqlMcpServer {
     });
 
     // Tool call handler
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       logger.debug("[server] Tool call", {
         tool: request.params.name,
       });
@@ -126,14 +185,67 @@ class UsqlMcpServer {
     });
   }
 
+  private setupResourceHandlers(server: Server): void {
+    logger.debug("[server] Setting up resource handlers");
+
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return { resources: listResources() };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+      logger.debug("[server] Resource read", { uri: request.params.uri });
+
+      try {
+        return { contents: [await readResource(request.params.uri, extra.signal)] };
+      } catch (error) {
+        logger.error("[server] Resource read error", error);
+        throw toProtocolError(error);
+      }
+    });
+  }
+
+  private setupPromptHandlers(server: Server): void {
+    logger.debug("[server] Setting up prompt handlers");
+
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+      logger.debug("[server] Prompt request", { prompt: request.params.name });
+
+      try {
+        return await getPrompt(request.params.name, request.params.arguments, extra.signal);
+      } catch (error) {
+        logger.error("[server] Prompt error", error);
+        throw toProtocolError(error);
+      }
+    });
+  }
+
+  /**
+   * Resources are listed per configured connection, so a reloaded configuration may change
+   * them. Tools and prompts do not depend on the configuration.
+   */
+  private notifyConfigChanged(): void {
+    logger.info("[server] Configuration changed, notifying clients", { servers: this.servers.size });
+    for (const server of this.servers) {
+      server.sendResourceListChanged().catch((error) => {
+        logger.debug("[server] Could not send resource list change", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }
+  }
+
   private setupErrorHandling(): void {
     logger.debug("[server] Setting up error handling");
 
-    this.server.onerror = (error): void => {
-      logger.error("[server] Server error", error);
-    };
-
-    const gracefulShutdown = () => {
+    const gracefulShutdown = async (): Promise<void> => {
       logger.info("[server] Shutting down, cleaning up job manager");
       const jobManager = getJobManager();
       const runningJobs = jobManager.getRunningJobs();
@@ -141,18 +253,20 @@ class UsqlMcpServer {
         logger.info("[server] Cancelling background jobs", { count: runningJobs.length });
       }
       shutdownJobManager();
+      this.stopConfigWatch?.();
+
+      // Session processes run in their own process group and would outlive the server
+      await shutdownSessionManager();
     };
 
     process.on("SIGTERM", () => {
       logger.info("[server] Received SIGTERM, shutting down");
-      gracefulShutdown();
-      process.exit(0);
+      gracefulShutdown().finally(() => process.exit(0));
     });
 
     process.on("SIGINT", () => {
       logger.info("[server] Received SIGINT, shutting down");
-      gracefulShutdown();
-      process.exit(0);
+      gracefulShutdown().finally(() => process.exit(0));
     });
   }
 
@@ -175,6 +289,15 @@ class UsqlMcpServer {
       case "execute_script":
         return await handleExecuteScript(input as Parameters<typeof handleExecuteScript>[0]);
 
+      case "explain_query":
+        return await handleExplainQuery(input as Parameters<typeof handleExplainQuery>[0]);
+
+      case "test_connection":
+        return await handleTestConnection(input as Parameters<typeof handleTestConnection>[0]);
+
+      case "get_database_info":
+        return await handleGetDatabaseInfo(input as Parameters<typeof handleGetDatabaseInfo>[0]);
+
       case "get_job_status":
         return await handleGetJobStatus(input as Parameters<typeof handleGetJobStatus>[0]);
 
@@ -184,20 +307,31 @@ class UsqlMcpServer {
       case "cancel_job":
         return await handleCancelJob(input as Parameters<typeof handleCancelJob>[0]);
 
+      case "open_session":
+        return await handleOpenSession(input as Parameters<typeof handleOpenSession>[0]);
+
+      case "close_session":
+        return await handleCloseSession(input as Parameters<typeof handleCloseSession>[0]);
+
       default:
         throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${toolName}`);
     }
   }
 
-  public async run(): Promise<void> {
-    logger.info("[server] Starting MCP server");
+  public async run(options: TransportOptions): Promise<void> {
+    logger.info("[server] Starting MCP server", { transport: options.transport });
+    this.stopConfigWatch = watchConfigFile(() => this.notifyConfigChanged());
 
-    const transport = new StdioServerTransport();
+    if (options.transport === "http") {
+      await startHttpTransport(() => this.createServer(), options.http);
+    } else {
+      const transport = new StdioServerTransport();
 
-    // Connect server to transport
-    await this.server.connect(transport);
+      // Connect server to transport
+      await this.createServer().connect(transport);
 
-    logger.info("[server] MCP server running on stdio transport");
+      logger.info("[server] MCP server running on stdio transport");
+    }
 
     // Keep the server running
     await new Promise(() => {
@@ -209,8 +343,14 @@ class UsqlMcpServer {
 // Main entry point
 async function main(): Promise<void> {
   try {
+    const options = resolveTransportOptions();
+    if (options.checkConfig) {
+      const report = await checkConfig();
+      process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+      process.exit(report.valid ? 0 : 1);
+    }
     const server = new UsqlMcpServer();
-    await server.run();
+    await server.run(options);
   } catch (error) {
     logger.error("[server] Fatal error", error);
     process.exit(1);
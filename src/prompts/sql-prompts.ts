@@ -0,0 +1,227 @@
+/**
+ * Prompt templates for common SQL workflows
+ * Each prompt pre-fills schema context from the same \dt / \d calls as list_tables and
+ * describe_table, so the conversation starts with the tables already in view.
+ */
+
+import { GetPromptResult, Prompt } from "@modelcontextprotocol/sdk/types.js";
+import { RawOutput } from "../types/index.js";
+import { createLogger } from "../utils/logger.js";
+import { createUsqlError, formatMcpError } from "../utils/error-handler.js";
+import { getDefaultConnectionName, loadConfig, resolveConnectionName } from "../usql/config.js";
+import { listTables } from "../tools/list-tables.js";
+import { describeTable, UNSAFE_TABLE_NAME } from "../tools/describe-table.js";
+
+const logger = createLogger("usql-mcp:prompts");
+
+// Keep pre-filled schema small enough to leave room for the actual conversation
+const SCHEMA_MAX_ROWS = 200;
+const MAX_DESCRIBED_TABLES = 10;
+
+const connectionArgument = {
+  name: "connection",
+  description: "Configured connection name (defaults to the default connection)",
+  required: false,
+};
+
+const tablesArgument = {
+  name: "tables",
+  description: `Comma-separated tables to include column definitions for (at most ${MAX_DESCRIBED_TABLES})`,
+  required: false,
+};
+
+export const prompts: Prompt[] = [
+  {
+    name: "explore_database",
+    description: "Get oriented in a database: what the tables are and how they relate",
+    arguments: [connectionArgument],
+  },
+  {
+    name: "write_query",
+    description: "Write a SQL query that answers a question against a connection",
+    arguments: [
+      connectionArgument,
+      { name: "question", description: "The question the query should answer", required: true },
+      tablesArgument,
+    ],
+  },
+  {
+    name: "explain_slow_query",
+    description: "Explain why a query is slow and how to speed it up",
+    arguments: [
+      connectionArgument,
+      { name: "query", description: "The slow SQL query", required: true },
+      tablesArgument,
+    ],
+  },
+];
+
+/**
+ * Prompts only take configured connection names, aliases and environment names; a raw URI
+ * would put credentials into the chat.
+ */
+function resolvePromptConnection(connection: string | undefined): string {
+  const name = connection && connection.trim().length > 0 ? connection.trim() : getDefaultConnectionName();
+  if (!name) {
+    throw createUsqlError(
+      "InvalidInput",
+      "connection is required when no default connection is configured"
+    );
+  }
+
+  let resolved: string | undefined;
+  if (!name.includes("://")) {
+    try {
+      resolved = resolveConnectionName(name);
+    } catch (error) {
+      throw createUsqlError("InvalidInput", error instanceof Error ? error.message : String(error));
+    }
+  }
+  if (!resolved) {
+    const connections = loadConfig().connections;
+    throw createUsqlError(
+      "InvalidInput",
+      `Unknown connection: ${name.includes("://") ? "(connection URI)" : name}. Use a configured connection name: ${Object.keys(connections).sort().join(", ")}`
+    );
+  }
+  return resolved;
+}
+
+function requireArgument(args: Record<string, string>, name: string): string {
+  const value = args[name];
+  if (!value || value.trim().length === 0) {
+    throw createUsqlError("InvalidInput", `${name} is required`);
+  }
+  return value.trim();
+}
+
+function parseTableList(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  const tables = value
+    .split(",")
+    .map((table) => table.trim())
+    .filter((table) => table.length > 0)
+    .slice(0, MAX_DESCRIBED_TABLES);
+
+  const unsafe = tables.find((table) => UNSAFE_TABLE_NAME.test(table));
+  if (unsafe !== undefined) {
+    throw createUsqlError("InvalidInput", `Invalid table name in tables: ${unsafe}`);
+  }
+  return tables;
+}
+
+/**
+ * Render a schema lookup for the prompt body. A failed lookup becomes a note instead of
+ * failing the prompt: the template is still useful when the database is unreachable.
+ */
+async function schemaSection(title: string, load: () => Promise<unknown>): Promise<string> {
+  try {
+    const output = (await load()) as RawOutput;
+    const note = output.truncated ? ` (first ${output.returned_rows} of ${output.total_rows} rows)` : "";
+    return `### ${title}${note}\n\`\`\`json\n${output.content.trim()}\n\`\`\``;
+  } catch (error) {
+    const mcpError = formatMcpError(error);
+    logger.warn("[prompts] Schema lookup failed", { title, error: mcpError.error });
+    return `### ${title}\n(Could not load: ${mcpError.error}: ${mcpError.message})`;
+  }
+}
+
+async function tablesSection(connection: string, signal?: AbortSignal): Promise<string> {
+  return schemaSection("Tables", () =>
+    listTables({ connection_string: connection, output_format: "json", max_rows: SCHEMA_MAX_ROWS }, signal)
+  );
+}
+
+async function describeSections(connection: string, tables: string[], signal?: AbortSignal): Promise<string[]> {
+  const sections: string[] = [];
+  for (const table of tables) {
+    sections.push(
+      await schemaSection(`Table ${table}`, () =>
+        describeTable(
+          { connection_string: connection, table, output_format: "json", max_rows: SCHEMA_MAX_ROWS },
+          signal
+        )
+      )
+    );
+  }
+  return sections;
+}
+
+function userMessage(text: string): GetPromptResult["messages"][number] {
+  return { role: "user", content: { type: "text", text } };
+}
+
+export async function getPrompt(
+  name: string,
+  args: Record<string, string> = {},
+  signal?: AbortSignal
+): Promise<GetPromptResult> {
+  logger.debug("[prompts] Rendering prompt", { name, arguments: Object.keys(args) });
+
+  switch (name) {
+    case "explore_database": {
+      const connection = resolvePromptConnection(args.connection);
+      const tables = await tablesSection(connection, signal);
+      return {
+        description: `Explore the ${connection} database`,
+        messages: [
+          userMessage(
+            `Help me understand the "${connection}" database.\n\n${tables}\n\n` +
+              `Summarise what the data is about, group related tables, and point out likely join keys. ` +
+              `Use describe_table with connection_string "${connection}" for the tables that matter most ` +
+              `before drawing conclusions, and suggest a few starter queries.`
+          ),
+        ],
+      };
+    }
+
+    case "write_query": {
+      const connection = resolvePromptConnection(args.connection);
+      const question = requireArgument(args, "question");
+      const tables = parseTableList(args.tables);
+      const sections = [
+        await tablesSection(connection, signal),
+        ...(await describeSections(connection, tables, signal)),
+      ];
+      return {
+        description: `Write a query against ${connection}`,
+        messages: [
+          userMessage(
+            `Write a SQL query against the "${connection}" connection that answers:\n\n${question}\n\n` +
+              `${sections.join("\n\n")}\n\n` +
+              `Check column names with describe_table before using a table that is not described above. ` +
+              `Use the SQL dialect of this database, pass user-supplied values through the execute_query ` +
+              `parameters array, and run the query with execute_query to verify the result before answering.`
+          ),
+        ],
+      };
+    }
+
+    case "explain_slow_query": {
+      const connection = resolvePromptConnection(args.connection);
+      const query = requireArgument(args, "query");
+      const sections = await describeSections(connection, parseTableList(args.tables), signal);
+      return {
+        description: `Explain a slow query on ${connection}`,
+        messages: [
+          userMessage(
+            `This query is slow on the "${connection}" connection:\n\n\`\`\`sql\n${query}\n\`\`\`\n\n` +
+              (sections.length > 0 ? `${sections.join("\n\n")}\n\n` : "") +
+              `Get the execution plan by calling the explain_query tool with connection_string ` +
+              `"${connection}" and this query (it does not run the query), describe the tables it touches, ` +
+              `and explain where the time goes. Suggest concrete ` +
+              `fixes such as indexes or rewrites, and say which ones change results or need a schema change.`
+          ),
+        ],
+      };
+    }
+
+    default:
+      throw createUsqlError(
+        "PromptNotFound",
+        `Unknown prompt: ${name}. Available prompts: ${prompts.map((p) => p.name).join(", ")}`
+      );
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Schema resources: tables and table definitions of configured connections
+ * usql://{connection}/tables       -> \dt output (same as list_tables)
+ * usql://{connection}/table/{name} -> \d output (same as describe_table)
+ * Only named connections from the config are addressable; raw URIs never appear in resource URIs.
+ */
+
+import { Resource, ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+import { RawOutput } from "../types/index.js";
+import { createLogger } from "../utils/logger.js";
+import { createUsqlError } from "../utils/error-handler.js";
+import { isProductionConnection, loadConfig, resolveConnectionName } from "../usql/config.js";
+import { listTables } from "../tools/list-tables.js";
+import { describeTable, UNSAFE_TABLE_NAME } from "../tools/describe-table.js";
+
+const logger = createLogger("usql-mcp:resources");
+
+const RESOURCE_MIME_TYPE = "application/json";
+const TABLES_URI = /^usql:\/\/([^/]+)\/tables$/;
+const TABLE_URI = /^usql:\/\/([^/]+)\/table\/([^/]+)$/;
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export const resourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: "usql://{connection}/tables",
+    name: "Tables",
+    description: "Tables in a configured connection (usql \\dt output as JSON)",
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+  {
+    uriTemplate: "usql://{connection}/table/{table}",
+    name: "Table definition",
+    description: "Columns, types and indexes of one table (usql \\d output as JSON)",
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+];
+
+export function tablesResourceUri(connectionName: string): string {
+  return `usql://${encodeURIComponent(connectionName)}/tables`;
+}
+
+export function tableResourceUri(connectionName: string, table: string): string {
+  return `usql://${encodeURIComponent(connectionName)}/table/${encodeURIComponent(table)}`;
+}
+
+/**
+ * One tables resource per configured connection; production connections are marked in the
+ * description so that they stand out in client pickers
+ */
+export function listResources(): Resource[] {
+  const config = loadConfig();
+
+  return Object.keys(config.connections)
+    .sort()
+    .map((name) => ({
+      uri: tablesResourceUri(name),
+      name: `${name} tables`,
+      description: `${isProductionConnection(name) ? "[production] " : ""}${
+        config.connections[name].description ?? `Tables in the ${name} connection`
+      }`,
+      mimeType: RESOURCE_MIME_TYPE,
+    }));
+}
+
+function decodeSegment(segment: string, uri: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw createUsqlError("ResourceNotFound", `Malformed resource URI: ${uri}`);
+  }
+}
+
+/**
+ * Configured connection behind a name, alias or environment name, as the tools resolve it
+ */
+function requireConfiguredConnection(name: string): string {
+  let resolved: string | undefined;
+  try {
+    resolved = resolveConnectionName(name);
+  } catch (error) {
+    throw createUsqlError("ResourceNotFound", error instanceof Error ? error.message : String(error));
+  }
+  if (!resolved) {
+    const connections = Object.keys(loadConfig().connections).sort();
+    throw createUsqlError(
+      "ResourceNotFound",
+      `Unknown connection: ${name}. Available connections: ${connections.join(", ")}`
+    );
+  }
+  return resolved;
+}
+
+export async function readResource(uri: string, signal?: AbortSignal): Promise<ResourceContents> {
+  logger.debug("[resources] Reading resource", { uri });
+
+  const tablesMatch = TABLES_URI.exec(uri);
+  if (tablesMatch) {
+    const connection = requireConfiguredConnection(decodeSegment(tablesMatch[1], uri));
+    const output = (await listTables({ connection_string: connection, output_format: "json" }, signal)) as RawOutput;
+    return { uri, mimeType: RESOURCE_MIME_TYPE, text: output.content };
+  }
+
+  const tableMatch = TABLE_URI.exec(uri);
+  if (tableMatch) {
+    const connection = requireConfiguredConnection(decodeSegment(tableMatch[1], uri));
+    const table = decodeSegment(tableMatch[2], uri);
+    if (!table || UNSAFE_TABLE_NAME.test(table)) {
+      throw createUsqlError("InvalidInput", `Invalid table name in resource URI: ${table}`);
+    }
+    const output = (await describeTable(
+      { connection_string: connection, table, output_format: "json" },
+      signal
+    )) as RawOutput;
+    return { uri, mimeType: RESOURCE_MIME_TYPE, text: output.content };
+  }
+
+  throw createUsqlError(
+    "ResourceNotFound",
+    `Unknown resource: ${uri}. Expected usql://{connection}/tables or usql://{connection}/table/{table}`
+  );
+}
@@ -6,7 +6,7 @@
 
 import { createLogger } from "../utils/logger.js";
 import { getJobManager } from "../usql/job-manager.js";
-import { getBackgroundThresholdMs } from "../usql/config.js";
+import { getBackgroundThresholdMs, getDefaultBackgroundThresholdMs } from "../usql/config.js";
 import { BackgroundJobResponse } from "../types/index.js";
 import { formatMcpError } from "../utils/error-handler.js";
 
@@ -18,33 +18,43 @@ const logger = createLogger("usql-mcp:background-wrapper");
  */
 export function withBackgroundSupport<T, R>(
   toolName: string,
-  handler: (input: T) => Promise<R>
+  handler: (input: T, signal?: AbortSignal) => Promise<R>
 ): (input: T) => Promise<R | BackgroundJobResponse> {
   return async (input: T): Promise<R | BackgroundJobResponse> => {
-    const threshold = getBackgroundThresholdMs();
     const jobManager = getJobManager();
 
     let result: R | undefined;
 
     // Hash connection string for job tracking (don't store full string)
     let connectionHash: string | undefined;
+    let connStr: string | undefined;
     if (
       typeof input === "object" &&
       input !== null &&
       "connection_string" in input &&
       typeof (input as Record<string, unknown>).connection_string === "string"
     ) {
-      const connStr = (input as Record<string, unknown>).connection_string as string;
+      connStr = (input as Record<string, unknown>).connection_string as string;
       connectionHash = Buffer.from(connStr).toString("base64").substring(0, 16);
     }
+    // A session call names no connection, so it gets the global threshold
+    const inSession =
+      typeof input === "object" && input !== null && "session_id" in input && !connStr;
+    const threshold = inSession
+      ? getDefaultBackgroundThresholdMs()
+      : getBackgroundThresholdMs(connStr);
 
     // Create a promise that resolves after the threshold
+    let thresholdHandle: NodeJS.Timeout | undefined;
     const thresholdPromise = new Promise<void>((resolve) => {
-      setTimeout(resolve, threshold);
+      thresholdHandle = setTimeout(resolve, threshold);
     });
 
+    // The handler gets the abort signal up front so cancel_job can kill its usql process
+    const abortController = new AbortController();
+
     // Race between handler and threshold
-    const handlerPromise = handler(input);
+    const handlerPromise = handler(input, abortController.signal);
     const raceResult = await Promise.race([
       handlerPromise.then((res) => {
         result = res;
@@ -53,7 +63,7 @@ export function withBackgroundSupport<T, R>(
       thresholdPromise.then(() => {
         return { completed: false };
       }),
-    ]);
+    ]).finally(() => clearTimeout(thresholdHandle));
 
     // If completed before threshold, return result immediately
     if (raceResult.completed) {
@@ -68,8 +78,7 @@ export function withBackgroundSupport<T, R>(
     const jobId = jobManager.createJob(toolName, connectionHash);
     const startedAt = new Date().toISOString();
 
-    // Create an AbortController for this job (for future cancellation support)
-    const abortController = new AbortController();
+    // Register the handler's AbortController so cancel_job can stop it
     jobManager.setJobCanceller(jobId, abortController);
 
     logger.debug("[background-wrapper] Tool exceeded threshold, returning job ID", {
@@ -0,0 +1,61 @@
+/**
+ * close_session tool - Roll back and end a session opened with open_session
+ */
+
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { createLogger } from "../utils/logger.js";
+import { createUsqlError, formatMcpError } from "../utils/error-handler.js";
+import { getSessionManager } from "../usql/session-manager.js";
+
+const logger = createLogger("usql-mcp:tools:close-session");
+
+interface CloseSessionInput {
+  session_id: string;
+}
+
+interface CloseSessionResponse {
+  status: "closed";
+  session_id: string;
+  message: string;
+}
+
+export const closeSessionSchema: Tool = {
+  name: "close_session",
+  description:
+    "Close a session opened with open_session. Any transaction that was not committed with COMMIT is rolled back.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      session_id: {
+        type: "string",
+        description: "Session ID returned by open_session",
+      },
+    },
+    required: ["session_id"],
+  },
+};
+
+export async function handleCloseSession(input: CloseSessionInput): Promise<CloseSessionResponse> {
+  logger.debug("[close-session] Handling request", { sessionId: input.session_id });
+
+  try {
+    if (!input.session_id || typeof input.session_id !== "string") {
+      throw createUsqlError("InvalidInput", "session_id is required and must be a string");
+    }
+
+    await getSessionManager().closeSession(input.session_id);
+
+    logger.info("[close-session] Session closed", { sessionId: input.session_id });
+
+    return {
+      status: "closed",
+      session_id: input.session_id,
+      message: `Session ${input.session_id} closed; uncommitted changes were rolled back`,
+    };
+  } catch (error) {
+    const mcpError = formatMcpError(error, input.session_id ? { sessionId: input.session_id } : undefined);
+
+    logger.error("[close-session] Error closing session", error);
+    throw mcpError;
+  }
+}
@@ -3,20 +3,41 @@
  */
 
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { DescribeTableInput, RawOutput } from "../types/index.js";
+import { DescribeTableInput, TableDescription, ToolOutput } from "../types/index.js";
 import { createLogger } from "../utils/logger.js";
-import { createUsqlError, formatMcpError } from "../utils/error-handler.js";
-import { validateConnectionString } from "../usql/connection.js";
-import { executeUsqlQuery } from "../usql/process-executor.js";
-import { parseUsqlError } from "../usql/parser.js";
-import { getQueryTimeout, resolveConnectionStringOrDefault } from "../usql/config.js";
+import { createUsqlError, formatMcpError, sanitizeConnectionString } from "../utils/error-handler.js";
+import {
+  applyDatabaseArgument,
+  parseConnectionString,
+  validateConnectionString,
+} from "../usql/connection.js";
+import { attemptMetadata, executeWithRetry } from "../usql/retry.js";
+import { parseUsqlError, parseUsqlErrorDetails } from "../usql/parser.js";
+import {
+  getMaxResultRows,
+  getQueryTimeout,
+  getRetryPolicy,
+  resolveConnectionStringOrDefault,
+} from "../usql/config.js";
+import { buildToolOutput, getUsqlFormat } from "../usql/results.js";
+import {
+  applyCheckClauses,
+  buildCatalogScript,
+  buildCheckClauseQuery,
+  parseTableDescription,
+  splitTableName,
+} from "../usql/table-metadata.js";
 import { withBackgroundSupport } from "./background-wrapper.js";
 
 const logger = createLogger("usql-mcp:tools:describe-table");
 
+// \d takes the rest of the line as arguments, so a table name with whitespace, a semicolon
+// or a backslash could smuggle in more meta-commands (\! or \i); such names are rejected
+export const UNSAFE_TABLE_NAME = /[\s;\\]/;
+
 export const describeTableSchema: Tool = {
   name: "describe_table",
-  description: "Get detailed schema information for a specific table (columns, types, constraints). Uses default connection if none specified.",
+  description: "Get detailed schema information for a specific table (columns, types, constraints). Uses default connection if none specified. Pass normalized: true for the same JSON shape on every driver, including indexes and foreign keys in both directions.",
   inputSchema: {
     type: "object",
     properties: {
@@ -30,24 +51,43 @@ export const describeTableSchema: Tool = {
       },
       database: {
         type: "string",
-        description: "Optional database name (if not specified in connection)",
+        description:
+          "Optional database to use instead of the one in the connection. Server databases (PostgreSQL, MySQL, ClickHouse, SQL Server, ...) are switched on the connection; for other drivers (Oracle, SQLite, DuckDB, ...) it is treated as a schema name",
       },
       output_format: {
         type: "string",
-        enum: ["json", "csv"],
-        description: "Output format for results (default: json)",
+        enum: ["json", "csv", "structured"],
+        description:
+          "Output format for results (default: json). json and csv return usql's raw output as a string; structured returns parsed { columns, rows, row_count }",
       },
       timeout_ms: {
         type: ["number", "null"],
         description: "Optional timeout in milliseconds for this call (overrides defaults). Use null for unlimited.",
         minimum: 1,
       },
+      max_rows: {
+        type: ["number", "null"],
+        description:
+          "Optional maximum number of rows to return for this call (overrides the connection or default maxResultRows). Use null for no limit. Truncated results include truncated: true and total_rows.",
+        minimum: 1,
+      },
+      normalized: {
+        type: "boolean",
+        description:
+          "Return { columns (type, nullable, default, comment), primary_key, unique_constraints, check_constraints, indexes, foreign_keys, referenced_by, approximate_row_count } from the catalog views instead of \\d output. Supported for postgres, mysql, sqlite3 and mssql; output_format and max_rows do not apply.",
+      },
     },
     required: ["table"],
   },
 };
 
-async function _handleDescribeTable(input: DescribeTableInput): Promise<RawOutput> {
+/**
+ * Describe one table with \d; shared by the tool and the usql://{connection}/table/{name} resource
+ */
+export async function describeTable(
+  input: DescribeTableInput,
+  signal?: AbortSignal
+): Promise<ToolOutput> {
   const outputFormat = input.output_format || "json";
 
   logger.debug("[describe-table] Handling request", {
@@ -66,7 +106,7 @@ async function _handleDescribeTable(input: DescribeTableInput): Promise<RawOutpu
 
     // Resolve connection string
     try {
-      resolvedConnectionString = resolveConnectionStringOrDefault(input.connection_string);
+      resolvedConnectionString = await resolveConnectionStringOrDefault(input.connection_string);
     } catch (error) {
       throw createUsqlError("InvalidConnection", `Failed to resolve connection: ${String(error)}`);
     }
@@ -74,13 +114,26 @@ async function _handleDescribeTable(input: DescribeTableInput): Promise<RawOutpu
     if (!validateConnectionString(resolvedConnectionString)) {
       throw createUsqlError(
         "InvalidConnection",
-        `Invalid connection string format: ${resolvedConnectionString}`
+        `Invalid connection string format: ${sanitizeConnectionString(resolvedConnectionString)}`
       );
     }
 
+    if (input.database !== undefined && typeof input.database !== "string") {
+      throw createUsqlError("InvalidInput", "database must be a string");
+    }
+
+    const target = input.database
+      ? applyDatabaseArgument(resolvedConnectionString, input.database)
+      : { connectionString: resolvedConnectionString };
+
     // Build describe query
-    // Use usql's \d command to describe table
-    const query = `\\d ${input.table}`;
+    // Use usql's \d command to describe table; already-qualified names are left alone
+    const table =
+      target.schema && !input.table.includes(".") ? `${target.schema}.${input.table}` : input.table;
+    if (UNSAFE_TABLE_NAME.test(table)) {
+      throw createUsqlError("InvalidInput", `Invalid table name: ${table}`, { table: input.table });
+    }
+    const query = `\\d ${table}`;
 
     const timeoutOverride =
       input.timeout_ms === null
@@ -88,17 +141,19 @@ async function _handleDescribeTable(input: DescribeTableInput): Promise<RawOutpu
         : typeof input.timeout_ms === "number" && Number.isFinite(input.timeout_ms)
         ? input.timeout_ms
         : undefined;
-    const timeout = timeoutOverride ?? getQueryTimeout();
+    const timeout = timeoutOverride ?? getQueryTimeout(input.connection_string);
     logger.debug("[describe-table] Executing describe command", {
       timeout,
       table: input.table,
       outputFormat,
     });
 
-    const result = await executeUsqlQuery(resolvedConnectionString, query, {
-      timeout,
-      format: outputFormat,
-    });
+    const { result, attempts } = await executeWithRetry(
+      target.connectionString,
+      query,
+      { timeout, format: getUsqlFormat(outputFormat), signal },
+      { policy: getRetryPolicy(input.connection_string), idempotent: true }
+    );
 
     logger.debug("[describe-table] Command executed", {
       exitCode: result.exitCode,
@@ -113,6 +168,8 @@ async function _handleDescribeTable(input: DescribeTableInput): Promise<RawOutpu
         throw createUsqlError("DescribeTableError", errorMessage, {
           exitCode: result.exitCode,
           table: input.table,
+          ...parseUsqlErrorDetails(result.stderr),
+          ...attemptMetadata(attempts),
         });
       }
       // Some databases don't error on missing table, check output
@@ -139,9 +196,16 @@ async function _handleDescribeTable(input: DescribeTableInput): Promise<RawOutpu
       outputFormat,
     });
 
+    const maxRows =
+      input.max_rows === null
+        ? undefined
+        : typeof input.max_rows === "number" && Number.isFinite(input.max_rows)
+        ? input.max_rows
+        : getMaxResultRows(input.connection_string);
+
     return {
-      format: outputFormat as "json" | "csv",
-      content: result.stdout,
+      ...buildToolOutput(result.stdout, outputFormat, maxRows),
+      ...attemptMetadata(attempts),
     };
   } catch (error) {
     const connectionForError = resolvedConnectionString ?? input.connection_string;
@@ -161,4 +225,118 @@ async function _handleDescribeTable(input: DescribeTableInput): Promise<RawOutpu
   }
 }
 
-export const handleDescribeTable = withBackgroundSupport("describe_table", _handleDescribeTable);
+/**
+ * Describe one table from the catalog views in the same shape on every supported driver
+ */
+async function describeTableFromCatalog(
+  input: DescribeTableInput,
+  signal?: AbortSignal
+): Promise<TableDescription> {
+  logger.debug("[describe-table] Handling normalized request", {
+    connectionStringInput: input.connection_string,
+    table: input.table,
+    database: input.database,
+  });
+
+  let resolvedConnectionString: string | undefined;
+
+  try {
+    if (!input.table || typeof input.table !== "string") {
+      throw createUsqlError("InvalidInput", "table is required and must be a string");
+    }
+
+    if (input.output_format !== undefined || input.max_rows !== undefined) {
+      throw createUsqlError("InvalidInput", "normalized cannot be combined with output_format or max_rows");
+    }
+
+    try {
+      resolvedConnectionString = await resolveConnectionStringOrDefault(input.connection_string);
+    } catch (error) {
+      throw createUsqlError("InvalidConnection", `Failed to resolve connection: ${String(error)}`);
+    }
+
+    if (!validateConnectionString(resolvedConnectionString)) {
+      throw createUsqlError(
+        "InvalidConnection",
+        `Invalid connection string format: ${sanitizeConnectionString(resolvedConnectionString)}`
+      );
+    }
+
+    if (input.database !== undefined && typeof input.database !== "string") {
+      throw createUsqlError("InvalidInput", "database must be a string");
+    }
+
+    const target = input.database
+      ? applyDatabaseArgument(resolvedConnectionString, input.database)
+      : { connectionString: resolvedConnectionString };
+    const driver = parseConnectionString(target.connectionString).driver;
+    const name = splitTableName(input.table);
+    const script = buildCatalogScript(driver, name.table, name.schema ?? target.schema);
+
+    const timeoutOverride =
+      input.timeout_ms === null
+        ? undefined
+        : typeof input.timeout_ms === "number" && Number.isFinite(input.timeout_ms)
+        ? input.timeout_ms
+        : undefined;
+    const timeout = timeoutOverride ?? getQueryTimeout(input.connection_string);
+    logger.debug("[describe-table] Querying catalog", { driver, timeout, table: input.table });
+
+    const { result, attempts } = await executeWithRetry(
+      target.connectionString,
+      script,
+      { timeout, format: "json", signal },
+      { policy: getRetryPolicy(input.connection_string), idempotent: true, driver }
+    );
+
+    if (result.exitCode !== 0 && result.stderr) {
+      throw createUsqlError("DescribeTableError", parseUsqlError(result.stderr), {
+        exitCode: result.exitCode,
+        table: input.table,
+        ...parseUsqlErrorDetails(result.stderr, driver),
+        ...attemptMetadata(attempts),
+      });
+    }
+
+    let description = parseTableDescription(result.stdout, driver);
+    if (!description) {
+      throw createUsqlError("TableNotFound", `Table not found: ${input.table}`, { table: input.table });
+    }
+
+    const checkQuery = buildCheckClauseQuery(driver, name.table, name.schema ?? target.schema);
+    if (checkQuery && description.check_constraints.length > 0) {
+      const checks = await executeWithRetry(
+        target.connectionString,
+        checkQuery,
+        { timeout, format: "json", signal },
+        { policy: getRetryPolicy(input.connection_string), idempotent: true, driver }
+      );
+      if (checks.result.exitCode !== 0 && checks.result.stderr) {
+        logger.warn("[describe-table] Could not read check clauses, leaving them empty", {
+          table: input.table,
+          error: parseUsqlError(checks.result.stderr),
+        });
+      } else {
+        description = applyCheckClauses(description, checks.result.stdout);
+      }
+    }
+
+    return { ...description, ...attemptMetadata(attempts) };
+  } catch (error) {
+    const connectionForError = resolvedConnectionString ?? input.connection_string;
+    const mcpError = formatMcpError(error, {
+      connectionString: connectionForError,
+      table: input.table,
+      database: input.database,
+    });
+
+    logger.error("[describe-table] Error describing table from catalog", error);
+    throw mcpError;
+  }
+}
+
+export const handleDescribeTable = withBackgroundSupport(
+  "describe_table",
+  (input: DescribeTableInput, signal?: AbortSignal): Promise<ToolOutput | TableDescription> =>
+    input.normalized ? describeTableFromCatalog(input, signal) : describeTable(input, signal)
+);
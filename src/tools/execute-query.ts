@@ -3,14 +3,26 @@
  */
 
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { ExecuteQueryInput, RawOutput } from "../types/index.js";
+import { ExecuteQueryInput, ToolOutput } from "../types/index.js";
 import { createLogger } from "../utils/logger.js";
 import { createUsqlError, formatMcpError, sanitizeConnectionString } from "../utils/error-handler.js";
-import { validateConnectionString } from "../usql/connection.js";
-import { executeUsqlQuery } from "../usql/process-executor.js";
-import { parseUsqlError } from "../usql/parser.js";
-import { getQueryTimeout, resolveConnectionStringOrDefault } from "../usql/config.js";
+import { parseConnectionString, validateConnectionString } from "../usql/connection.js";
+import { parseUsqlError, parseUsqlErrorDetails } from "../usql/parser.js";
+import { bindParameters } from "../usql/parameters.js";
+import { assertReadOnlySql } from "../usql/statement-classifier.js";
+import { getSessionManager, UsqlSession } from "../usql/session-manager.js";
+import { attemptMetadata, executeWithRetry, isIdempotentSql } from "../usql/retry.js";
+import { cachedEngineDetails } from "../usql/database-info.js";
+import {
+  getMaxResultRows,
+  getQueryTimeout,
+  getRetryPolicy,
+  isReadOnlyConnection,
+  resolveConnectionStringOrDefault,
+} from "../usql/config.js";
+import { buildToolOutput, getUsqlFormat } from "../usql/results.js";
 import { withBackgroundSupport } from "./background-wrapper.js";
+import { executeScript } from "./execute-script.js";
 
 const logger = createLogger("usql-mcp:tools:execute-query");
 
@@ -31,27 +43,48 @@ export const executeQuerySchema: Tool = {
       },
       parameters: {
         type: "array",
-        description: "Optional query parameters for prepared statements",
+        description:
+          "Optional positional parameters bound to placeholders in the query. Use the placeholder style of the target driver: $1, $2 for postgres; ? for mysql and sqlite; @p1, @p2 for sqlserver; :1, :2 for oracle. Values are encoded as literals for that driver, never concatenated raw.",
         items: {
           type: ["string", "number", "boolean", "null"],
         },
       },
       output_format: {
         type: "string",
-        enum: ["json", "csv"],
-        description: "Output format for query results (default: json)",
+        enum: ["json", "csv", "structured"],
+        description:
+          "Output format for query results (default: json). json and csv return usql's raw output as a string; structured returns parsed { columns, rows, row_count }",
       },
       timeout_ms: {
         type: ["number", "null"],
         description: "Optional timeout in milliseconds for this call (overrides defaults). Use null for unlimited.",
         minimum: 1,
       },
+      max_rows: {
+        type: ["number", "null"],
+        description:
+          "Optional maximum number of rows to return for this call (overrides the connection or default maxResultRows). Use null for no limit. Truncated results include truncated: true and total_rows.",
+        minimum: 1,
+      },
+      session_id: {
+        type: "string",
+        description:
+          "Optional session from open_session. The query runs on the session's connection, so transactions stay open across calls. Do not combine with connection_string. A timeout ends the session and rolls it back.",
+      },
+      dry_run: {
+        type: "boolean",
+        description:
+          "Run the query inside a transaction that is always rolled back and report dry_run.affected_rows alongside any returned rows (e.g. from RETURNING). Not available with session_id or for backends without transactions (csvq, cassandra, clickhouse, mongo, presto).",
+      },
     },
     required: ["query"],
   },
 };
 
-async function _handleExecuteQuery(input: ExecuteQueryInput): Promise<RawOutput> {
+async function _handleExecuteQuery(
+  input: ExecuteQueryInput,
+  signal?: AbortSignal
+): Promise<ToolOutput> {
   const outputFormat = input.output_format || "json";
 
   logger.debug("[execute-query] Handling request", {
@@ -68,9 +101,31 @@ async function _handleExecuteQuery(input: ExecuteQueryInput): Promise<RawOutput>
       throw createUsqlError("InvalidInput", "query is required and must be a string");
     }
 
+    let session: UsqlSession | undefined;
+    if (input.session_id !== undefined) {
+      if (typeof input.session_id !== "string" || input.session_id.length === 0) {
+        throw createUsqlError("InvalidInput", "session_id must be a non-empty string");
+      }
+      if (input.connection_string) {
+        throw createUsqlError(
+          "InvalidInput",
+          "connection_string cannot be combined with session_id; the session's connection is used"
+        );
+      }
+      if (input.dry_run) {
+        throw createUsqlError(
+          "InvalidInput",
+          "dry_run cannot be combined with session_id; use BEGIN and ROLLBACK in the session instead"
+        );
+      }
+      session = getSessionManager().getSession(input.session_id);
+    }
+
     // Resolve connection string (could be a name like "oracle" or a full URI)
     try {
-      resolvedConnectionString = resolveConnectionStringOrDefault(input.connection_string);
+      resolvedConnectionString = session
+        ? session.connectionString
+        : await resolveConnectionStringOrDefault(input.connection_string);
     } catch (error) {
       throw createUsqlError("InvalidConnection", `Failed to resolve connection: ${String(error)}`);
     }
@@ -82,18 +137,44 @@ async function _handleExecuteQuery(input: ExecuteQueryInput): Promise<RawOutput>
     if (!validateConnectionString(resolvedConnectionString)) {
       throw createUsqlError(
         "InvalidConnection",
-        `Invalid connection string format: ${resolvedConnectionString}`
+        `Invalid connection string format: ${sanitizeConnectionString(resolvedConnectionString)}`
       );
     }
 
-    // Process parameters if provided
-    const processedQuery = input.query;
-    if (input.parameters && input.parameters.length > 0) {
-      logger.debug("[execute-query] Processing parameterized query", {
-        parameterCount: input.parameters.length,
-      });
-      // Parameters will be passed via usql's prepared statement handling
-      // For now, we support basic parameter substitution
+    const driver = parseConnectionString(resolvedConnectionString).driver;
+
+    // Bind parameters if provided
+    let processedQuery = input.query;
+    if (input.parameters !== undefined && input.parameters !== null) {
+      if (!Array.isArray(input.parameters)) {
+        throw createUsqlError("InvalidInput", "parameters must be an array");
+      }
+      if (input.parameters.length > 0) {
+        logger.debug("[execute-query] Binding query parameters", {
+          driver,
+          parameterCount: input.parameters.length,
+        });
+        processedQuery = bindParameters(input.query, input.parameters, driver);
+      }
+    }
+
+    if (isReadOnlyConnection(session ? session.connectionName : input.connection_string)) {
+      assertReadOnlySql(processedQuery, driver);
+    }
+
+    if (input.dry_run) {
+      // Same transaction wrapping and affected-row reporting as execute_script
+      return await executeScript(
+        {
+          connection_string: input.connection_string,
+          script: processedQuery,
+          output_format: input.output_format,
+          timeout_ms: input.timeout_ms,
+          max_rows: input.max_rows,
+          dry_run: true,
+        },
+        signal
+      );
     }
 
     // Execute query
@@ -103,13 +184,19 @@ async function _handleExecuteQuery(input: ExecuteQueryInput): Promise<RawOutput>
         : typeof input.timeout_ms === "number" && Number.isFinite(input.timeout_ms)
         ? input.timeout_ms
         : undefined;
-    const timeout = timeoutOverride ?? getQueryTimeout();
-    logger.debug("[execute-query] Executing query with timeout", { timeout });
+    const connectionName = session ? session.connectionName : input.connection_string;
+    const timeout = timeoutOverride ?? getQueryTimeout(connectionName);
+    logger.debug("[execute-query] Executing query with timeout", { timeout, sessionId: session?.id });
 
-    const result = await executeUsqlQuery(resolvedConnectionString, processedQuery, {
-      timeout,
-      format: outputFormat,
-    });
+    const executorOptions = { timeout, format: getUsqlFormat(outputFormat), signal };
+    // Sessions are never retried: a failed statement may have aborted the open transaction
+    const { result, attempts } = session
+      ? { result: await session.execute(processedQuery, executorOptions), attempts: [] }
+      : await executeWithRetry(resolvedConnectionString, processedQuery, executorOptions, {
+          policy: getRetryPolicy(input.connection_string),
+          idempotent: isIdempotentSql(processedQuery, driver),
+          driver,
+        });
 
     logger.debug("[execute-query] Query executed", {
       exitCode: result.exitCode,
@@ -123,6 +210,9 @@ async function _handleExecuteQuery(input: ExecuteQueryInput): Promise<RawOutput>
       throw createUsqlError("QueryExecutionError", errorMessage, {
         exitCode: result.exitCode,
         query: input.query.substring(0, 200),
+        ...parseUsqlErrorDetails(result.stderr, driver, processedQuery),
+        ...attemptMetadata(attempts),
+        ...cachedEngineDetails(resolvedConnectionString),
       });
     }
 
@@ -132,9 +222,16 @@ async function _handleExecuteQuery(input: ExecuteQueryInput): Promise<RawOutput>
       contentLength: result.stdout.length,
     });
 
+    const maxRows =
+      input.max_rows === null
+        ? undefined
+        : typeof input.max_rows === "number" && Number.isFinite(input.max_rows)
+        ? input.max_rows
+        : getMaxResultRows(connectionName);
+
     return {
-      format: outputFormat as "json" | "csv",
-      content: result.stdout,
+      ...buildToolOutput(result.stdout, outputFormat, maxRows),
+      ...attemptMetadata(attempts),
     };
   } catch (error) {
     // Use user-provided connection string for error details (before resolution)
@@ -3,13 +3,23 @@
  */
 
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { ExecuteScriptInput, RawOutput } from "../types/index.js";
+import { ExecuteScriptInput, ToolOutput } from "../types/index.js";
 import { createLogger } from "../utils/logger.js";
-import { createUsqlError, formatMcpError } from "../utils/error-handler.js";
-import { validateConnectionString } from "../usql/connection.js";
-import { executeUsqlQuery } from "../usql/process-executor.js";
-import { parseUsqlError } from "../usql/parser.js";
-import { getQueryTimeout, resolveConnectionStringOrDefault } from "../usql/config.js";
+import { createUsqlError, formatMcpError, sanitizeConnectionString } from "../utils/error-handler.js";
+import { parseConnectionString, validateConnectionString } from "../usql/connection.js";
+import { parseUsqlError, parseUsqlErrorDetails } from "../usql/parser.js";
+import { assertReadOnlySql, classifySql } from "../usql/statement-classifier.js";
+import { assertDryRunSupported, summarizeDryRun, wrapInRollback } from "../usql/dry-run.js";
+import { attemptMetadata, executeWithRetry, isIdempotentSql } from "../usql/retry.js";
+import { cachedEngineDetails } from "../usql/database-info.js";
+import {
+  getMaxResultRows,
+  getQueryTimeout,
+  getRetryPolicy,
+  isReadOnlyConnection,
+  resolveConnectionStringOrDefault,
+} from "../usql/config.js";
+import { buildToolOutput, getUsqlFormat } from "../usql/results.js";
 import { withBackgroundSupport } from "./background-wrapper.js";
 
 const logger = createLogger("usql-mcp:tools:execute-script");
@@ -32,20 +42,38 @@ export const executeScriptSchema: Tool = {
       },
       output_format: {
         type: "string",
-        enum: ["json", "csv"],
-        description: "Output format for results (default: json)",
+        enum: ["json", "csv", "structured"],
+        description:
+          "Output format for results (default: json). json and csv return usql's raw output as a string; structured returns parsed { columns, rows, row_count }",
       },
       timeout_ms: {
         type: ["number", "null"],
         description: "Optional timeout in milliseconds for this call (overrides defaults). Use null for unlimited.",
         minimum: 1,
       },
+      max_rows: {
+        type: ["number", "null"],
+        description:
+          "Optional maximum number of rows to return for this call (overrides the connection or default maxResultRows). Use null for no limit. Truncated results include truncated: true and total_rows.",
+        minimum: 1,
+      },
+      dry_run: {
+        type: "boolean",
+        description:
+          "Run the script inside a transaction that is always rolled back. The response includes dry_run.affected_rows per statement alongside any returned rows. Refused for backends without transactions (csvq, cassandra, clickhouse, mongo, presto) and for scripts containing transaction control or procedure calls.",
+      },
     },
     required: ["script"],
   },
 };
 
-async function _handleExecuteScript(input: ExecuteScriptInput): Promise<RawOutput> {
+/**
+ * Also used by execute_query for dry runs
+ */
+export async function executeScript(
+  input: ExecuteScriptInput,
+  signal?: AbortSignal
+): Promise<ToolOutput> {
   const outputFormat = input.output_format || "json";
 
   logger.debug("[execute-script] Handling request", {
@@ -53,6 +81,7 @@ async function _handleExecuteScript(input: ExecuteScriptInput): Promise<RawOutpu
     scriptLength: input.script?.length || 0,
     statementCount: input.script?.split(";").filter((s) => s.trim()).length || 0,
     outputFormat,
+    dryRun: input.dry_run === true,
   });
 
   let resolvedConnectionString: string | undefined;
@@ -64,7 +93,7 @@ async function _handleExecuteScript(input: ExecuteScriptInput): Promise<RawOutpu
 
     // Resolve connection string
     try {
-      resolvedConnectionString = resolveConnectionStringOrDefault(input.connection_string);
+      resolvedConnectionString = await resolveConnectionStringOrDefault(input.connection_string);
     } catch (error) {
       throw createUsqlError("InvalidConnection", `Failed to resolve connection: ${String(error)}`);
     }
@@ -72,7 +101,7 @@ async function _handleExecuteScript(input: ExecuteScriptInput): Promise<RawOutpu
     if (!validateConnectionString(resolvedConnectionString)) {
       throw createUsqlError(
         "InvalidConnection",
-        `Invalid connection string format: ${resolvedConnectionString}`
+        `Invalid connection string format: ${sanitizeConnectionString(resolvedConnectionString)}`
       );
     }
 
@@ -82,15 +111,27 @@ async function _handleExecuteScript(input: ExecuteScriptInput): Promise<RawOutpu
       throw createUsqlError("InvalidInput", "script cannot be empty");
     }
 
-    // Check for potentially dangerous operations (basic check)
-    const upperScript = trimmedScript.toUpperCase();
-    const hasDropTable = upperScript.includes("DROP TABLE");
-    const hasDropDatabase = upperScript.includes("DROP DATABASE");
+    const driver = parseConnectionString(resolvedConnectionString).driver;
+
+    if (isReadOnlyConnection(input.connection_string)) {
+      assertReadOnlySql(trimmedScript, driver);
+    }
+
+    if (input.dry_run !== undefined && typeof input.dry_run !== "boolean") {
+      throw createUsqlError("InvalidInput", "dry_run must be a boolean");
+    }
+    if (input.dry_run) {
+      assertDryRunSupported(trimmedScript, driver);
+    }
+
+    // Check for potentially dangerous operations
+    const destructiveStatements = classifySql(trimmedScript, driver).filter(
+      (statement) => statement.keyword === "DROP" || statement.keyword === "TRUNCATE"
+    );
 
-    if (hasDropTable || hasDropDatabase) {
+    if (destructiveStatements.length > 0) {
       logger.warn("[execute-script] Potentially destructive script detected", {
-        hasDropTable,
-        hasDropDatabase,
+        statements: destructiveStatements.map((statement) => statement.text.substring(0, 100)),
       });
       // We still allow it but log the warning for audit purposes
     }
@@ -102,13 +143,21 @@ async function _handleExecuteScript(input: ExecuteScriptInput): Promise<RawOutpu
         : typeof input.timeout_ms === "number" && Number.isFinite(input.timeout_ms)
         ? input.timeout_ms
         : undefined;
-    const timeout = timeoutOverride ?? getQueryTimeout();
+    const timeout = timeoutOverride ?? getQueryTimeout(input.connection_string);
     logger.debug("[execute-script] Executing script with timeout", { timeout, outputFormat });
 
-    const result = await executeUsqlQuery(resolvedConnectionString, trimmedScript, {
-      timeout,
-      format: outputFormat,
-    });
+    const script = input.dry_run ? wrapInRollback(trimmedScript) : trimmedScript;
+    // A dry run is rolled back whatever it contains, so it is as safe to repeat as a read
+    const { result, attempts } = await executeWithRetry(
+      resolvedConnectionString,
+      script,
+      { timeout, format: getUsqlFormat(outputFormat), signal },
+      {
+        policy: getRetryPolicy(input.connection_string),
+        idempotent: input.dry_run === true || isIdempotentSql(trimmedScript, driver),
+        driver,
+      }
+    );
 
     logger.debug("[execute-script] Script executed", {
       exitCode: result.exitCode,
@@ -116,12 +165,18 @@ async function _handleExecuteScript(input: ExecuteScriptInput): Promise<RawOutpu
       stderrLength: result.stderr.length,
     });
 
-    // Check for errors
-    if (result.exitCode !== 0 && result.stderr) {
-      const errorMessage = parseUsqlError(result.stderr);
+    // Check for errors; a dry run that did not finish is never reported as rolled back
+    if (result.exitCode !== 0 && (result.stderr || input.dry_run)) {
+      const errorMessage = result.stderr
+        ? parseUsqlError(result.stderr)
+        : `usql exited with code ${result.exitCode}`;
       throw createUsqlError("ScriptExecutionError", errorMessage, {
         exitCode: result.exitCode,
         scriptLength: input.script.length,
+        dryRun: input.dry_run === true,
+        ...parseUsqlErrorDetails(result.stderr, driver, trimmedScript),
+        ...attemptMetadata(attempts),
+        ...cachedEngineDetails(resolvedConnectionString),
       });
     }
 
@@ -130,10 +185,15 @@ async function _handleExecuteScript(input: ExecuteScriptInput): Promise<RawOutpu
       contentLength: result.stdout.length,
     });
 
-    return {
-      format: outputFormat as "json" | "csv",
-      content: result.stdout,
-    };
+    const maxRows =
+      input.max_rows === null
+        ? undefined
+        : typeof input.max_rows === "number" && Number.isFinite(input.max_rows)
+        ? input.max_rows
+        : getMaxResultRows(input.connection_string);
+
+    const output = { ...buildToolOutput(result.stdout, outputFormat, maxRows), ...attemptMetadata(attempts) };
+    return input.dry_run ? { ...output, dry_run: summarizeDryRun(result.stdout) } : output;
   } catch (error) {
     const connectionForError = resolvedConnectionString ?? input.connection_string;
     const mcpError = formatMcpError(
@@ -151,4 +211,4 @@ async function _handleExecuteScript(input: ExecuteScriptInput): Promise<RawOutpu
   }
 }
 
-export const handleExecuteScript = withBackgroundSupport("execute_script", _handleExecuteScript);
+export const handleExecuteScript = withBackgroundSupport("execute_script", executeScript);
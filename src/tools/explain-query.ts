@@ -0,0 +1,167 @@
+/**
+ * explain_query tool - Show the execution plan of a query without running it
+ */
+
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { ExplainQueryInput, ExplainQueryOutput } from "../types/index.js";
+import { createLogger } from "../utils/logger.js";
+import { createUsqlError, formatMcpError, sanitizeConnectionString } from "../utils/error-handler.js";
+import { parseConnectionString, validateConnectionString } from "../usql/connection.js";
+import { attemptMetadata, executeWithRetry, isIdempotentSql } from "../usql/retry.js";
+import { parseUsqlError, parseUsqlErrorDetails } from "../usql/parser.js";
+import { bindParameters } from "../usql/parameters.js";
+import { buildExplainCommand, parsePlanOutput, summarizePlan } from "../usql/explain.js";
+import { assertReadOnlySql } from "../usql/statement-classifier.js";
+import {
+  getQueryTimeout,
+  getRetryPolicy,
+  isReadOnlyConnection,
+  resolveConnectionStringOrDefault,
+} from "../usql/config.js";
+import { withBackgroundSupport } from "./background-wrapper.js";
+
+const logger = createLogger("usql-mcp:tools:explain-query");
+
+export const explainQuerySchema: Tool = {
+  name: "explain_query",
+  description:
+    "Show the execution plan of a query without running it, using the right plan command for the driver (EXPLAIN (FORMAT JSON) for postgres/cockroach, EXPLAIN FORMAT=JSON for mysql, EXPLAIN QUERY PLAN for sqlite, SHOWPLAN_ALL for sqlserver). Returns the raw plan plus a summary of node types, estimated rows and full table scans.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      connection_string: {
+        type: "string",
+        description:
+          "(Optional) Database connection URL or configured connection name. If omitted, uses the default connection. Use get_server_info to discover available connections.",
+      },
+      query: {
+        type: "string",
+        description: "A single SELECT, INSERT, UPDATE, DELETE or MERGE statement, without EXPLAIN",
+      },
+      parameters: {
+        type: "array",
+        description:
+          "Optional positional parameters bound to placeholders in the query, as for execute_query",
+        items: {
+          type: ["string", "number", "boolean", "null"],
+        },
+      },
+      timeout_ms: {
+        type: ["number", "null"],
+        description: "Optional timeout in milliseconds for this call (overrides defaults). Use null for unlimited.",
+        minimum: 1,
+      },
+    },
+    required: ["query"],
+  },
+};
+
+async function _handleExplainQuery(
+  input: ExplainQueryInput,
+  signal?: AbortSignal
+): Promise<ExplainQueryOutput> {
+  logger.debug("[explain-query] Handling request", {
+    connectionStringInput: input.connection_string,
+    queryLength: input.query?.length || 0,
+  });
+
+  let resolvedConnectionString: string | undefined;
+
+  try {
+    if (!input.query || typeof input.query !== "string") {
+      throw createUsqlError("InvalidInput", "query is required and must be a string");
+    }
+
+    try {
+      resolvedConnectionString = await resolveConnectionStringOrDefault(input.connection_string);
+    } catch (error) {
+      throw createUsqlError("InvalidConnection", `Failed to resolve connection: ${String(error)}`);
+    }
+
+    if (!validateConnectionString(resolvedConnectionString)) {
+      throw createUsqlError(
+        "InvalidConnection",
+        `Invalid connection string format: ${sanitizeConnectionString(resolvedConnectionString)}`
+      );
+    }
+
+    const driver = parseConnectionString(resolvedConnectionString).driver;
+
+    let processedQuery = input.query;
+    if (input.parameters !== undefined && input.parameters !== null) {
+      if (!Array.isArray(input.parameters)) {
+        throw createUsqlError("InvalidInput", "parameters must be an array");
+      }
+      if (input.parameters.length > 0) {
+        processedQuery = bindParameters(input.query, input.parameters, driver);
+      }
+    }
+
+    // Plans are computed without executing the statement, so read-only connections can explain
+    // DML too. The query is checked as the EXPLAIN it becomes: anything after the statement,
+    // or an EXPLAIN ANALYZE that would run a write, is still rejected.
+    if (isReadOnlyConnection(input.connection_string)) {
+      assertReadOnlySql(`EXPLAIN ${processedQuery}`, driver);
+    }
+
+    const { command, label } = buildExplainCommand(processedQuery, driver);
+
+    const timeoutOverride =
+      input.timeout_ms === null
+        ? undefined
+        : typeof input.timeout_ms === "number" && Number.isFinite(input.timeout_ms)
+        ? input.timeout_ms
+        : undefined;
+    const timeout = timeoutOverride ?? getQueryTimeout(input.connection_string);
+    logger.debug("[explain-query] Requesting plan", { driver, planCommand: label, timeout });
+
+    // EXPLAIN plans without executing, so retrying is safe even for DML. SQL Server's
+    // SHOWPLAN_ALL only holds while its SET succeeds, so there it depends on the query.
+    const { result, attempts } = await executeWithRetry(
+      resolvedConnectionString,
+      command,
+      { timeout, format: "json", signal },
+      {
+        policy: getRetryPolicy(input.connection_string),
+        idempotent: driver !== "mssql" || isIdempotentSql(processedQuery, driver),
+        driver,
+      }
+    );
+
+    if (result.exitCode !== 0 && result.stderr) {
+      throw createUsqlError("ExplainError", parseUsqlError(result.stderr), {
+        exitCode: result.exitCode,
+        query: input.query.substring(0, 200),
+        ...parseUsqlErrorDetails(result.stderr, driver, processedQuery),
+        ...attemptMetadata(attempts),
+      });
+    }
+
+    const plan = parsePlanOutput(result.stdout, driver);
+    const summary = summarizePlan(plan, driver);
+
+    logger.debug("[explain-query] Plan summarized", {
+      nodeCount: summary.nodes.length,
+      seqScans: summary.seq_scans.length,
+    });
+
+    return { driver, plan_command: label, plan, summary, ...attemptMetadata(attempts) };
+  } catch (error) {
+    const connectionForError = input.connection_string || resolvedConnectionString;
+    const queryForError = typeof input.query === "string" ? input.query.substring(0, 200) : undefined;
+    const mcpError = formatMcpError(
+      error,
+      connectionForError || queryForError
+        ? {
+            connectionString: connectionForError ? sanitizeConnectionString(connectionForError) : undefined,
+            query: queryForError,
+          }
+        : undefined
+    );
+
+    logger.error("[explain-query] Error explaining query", error);
+    throw mcpError;
+  }
+}
+
+export const handleExplainQuery = withBackgroundSupport("explain_query", _handleExplainQuery);
@@ -0,0 +1,136 @@
+/**
+ * get_database_info tool - Detect the engine, version and SQL features of a database
+ */
+
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { DatabaseInfo, GetDatabaseInfoInput } from "../types/index.js";
+import { createLogger } from "../utils/logger.js";
+import { createUsqlError, formatMcpError, sanitizeConnectionString } from "../utils/error-handler.js";
+import { parseConnectionString, validateConnectionString } from "../usql/connection.js";
+import { attemptMetadata, executeWithRetry } from "../usql/retry.js";
+import { parseUsqlError, parseUsqlErrorDetails } from "../usql/parser.js";
+import {
+  buildDetectionQuery,
+  cacheDatabaseInfo,
+  getCachedDatabaseInfo,
+  parseDatabaseInfo,
+} from "../usql/database-info.js";
+import {
+  getDatabaseInfoTtlMs,
+  getQueryTimeout,
+  getRetryPolicy,
+  resolveConnectionStringOrDefault,
+} from "../usql/config.js";
+import { withBackgroundSupport } from "./background-wrapper.js";
+
+const logger = createLogger("usql-mcp:tools:get-database-info");
+
+export const getDatabaseInfoSchema: Tool = {
+  name: "get_database_info",
+  description:
+    "Detect the database engine and version behind a connection, with its default schema, collation, timezone and feature flags (cte, returning, window_functions, json_operators; null when unknown). Call this before writing engine-specific SQL. Results are cached per connection (see defaults.databaseInfoTtlMs); cached: true marks a cached answer.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      connection_string: {
+        type: "string",
+        description:
+          "(Optional) Database connection URL, configured connection name, alias or environment. If omitted, uses the default connection. Use get_server_info to discover available connections.",
+      },
+      refresh: {
+        type: "boolean",
+        description: "Detect again instead of using the cached result, e.g. after a server upgrade",
+      },
+      timeout_ms: {
+        type: ["number", "null"],
+        description: "Optional timeout in milliseconds for this call (overrides defaults). Use null for unlimited.",
+        minimum: 1,
+      },
+    },
+    required: [],
+  },
+};
+
+async function _handleGetDatabaseInfo(
+  input: GetDatabaseInfoInput,
+  signal?: AbortSignal
+): Promise<DatabaseInfo> {
+  logger.debug("[get-database-info] Handling request", {
+    connectionStringInput: input.connection_string,
+    refresh: input.refresh,
+  });
+
+  let resolvedConnectionString: string | undefined;
+
+  try {
+    try {
+      resolvedConnectionString = await resolveConnectionStringOrDefault(input.connection_string);
+    } catch (error) {
+      throw createUsqlError("InvalidConnection", `Failed to resolve connection: ${String(error)}`);
+    }
+
+    if (!validateConnectionString(resolvedConnectionString)) {
+      throw createUsqlError(
+        "InvalidConnection",
+        `Invalid connection string format: ${sanitizeConnectionString(resolvedConnectionString)}`
+      );
+    }
+
+    if (!input.refresh) {
+      const cached = getCachedDatabaseInfo(resolvedConnectionString);
+      if (cached) {
+        logger.debug("[get-database-info] Using cached database info", { engine: cached.engine });
+        return cached;
+      }
+    }
+
+    const driver = parseConnectionString(resolvedConnectionString).driver;
+    const query = buildDetectionQuery(driver);
+    if (!query) {
+      // Nothing to ask the server; report what the driver alone tells
+      return parseDatabaseInfo("", driver);
+    }
+
+    const timeoutOverride =
+      input.timeout_ms === null
+        ? undefined
+        : typeof input.timeout_ms === "number" && Number.isFinite(input.timeout_ms)
+        ? input.timeout_ms
+        : undefined;
+    const timeout = timeoutOverride ?? getQueryTimeout(input.connection_string);
+    logger.debug("[get-database-info] Detecting database", { driver, timeout });
+
+    const { result, attempts } = await executeWithRetry(
+      resolvedConnectionString,
+      query,
+      { timeout, format: "json", signal },
+      { policy: getRetryPolicy(input.connection_string), idempotent: true, driver }
+    );
+
+    if (result.exitCode !== 0 && result.stderr) {
+      throw createUsqlError("DatabaseInfoError", parseUsqlError(result.stderr), {
+        exitCode: result.exitCode,
+        ...parseUsqlErrorDetails(result.stderr, driver),
+        ...attemptMetadata(attempts),
+      });
+    }
+
+    const info = parseDatabaseInfo(result.stdout, driver);
+    cacheDatabaseInfo(resolvedConnectionString, info, getDatabaseInfoTtlMs());
+    return info;
+  } catch (error) {
+    const connectionForError = input.connection_string || resolvedConnectionString;
+    const mcpError = formatMcpError(
+      error,
+      connectionForError ? { connectionString: sanitizeConnectionString(connectionForError) } : undefined
+    );
+
+    logger.error("[get-database-info] Error detecting database", error);
+    throw mcpError;
+  }
+}
+
+export const handleGetDatabaseInfo = withBackgroundSupport(
+  "get_database_info",
+  _handleGetDatabaseInfo
+);
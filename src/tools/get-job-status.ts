@@ -100,7 +100,7 @@ export async function handleGetJobStatus(input: GetJobStatusInput): Promise<JobS
     // Include result/error if job is complete or failed
     if (jobState.status === "completed" && jobState.result) {
       response.result = jobState.result;
-    } else if (jobState.status === "failed" && jobState.error) {
+    } else if ((jobState.status === "failed" || jobState.status === "cancelled") && jobState.error) {
       response.error = jobState.error;
     }
 
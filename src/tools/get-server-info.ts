@@ -4,7 +4,23 @@
 
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
 import { createLogger } from "../utils/logger.js";
-import { loadConfig, getDefaultConnectionName, getBackgroundThresholdMs, getJobResultTtlMs, getQueryTimeout } from "../usql/config.js";
+import {
+  loadConfig,
+  getDefaultConnectionName,
+  getBackgroundThresholdMs,
+  getConfigErrors,
+  getConnectionAliases,
+  getDefaultBackgroundThresholdMs,
+  getDefaultQueryTimeout,
+  getEnvironmentConnections,
+  getEnvironmentNames,
+  findEnvironment,
+  getJobResultTtlMs,
+  getMaxResultRows,
+  getQueryTimeout,
+  isProductionConnection,
+  isProductionEnvironment,
+} from "../usql/config.js";
 
 const logger = createLogger("usql-mcp:tools:get-server-info");
 
@@ -14,12 +30,41 @@ export interface ServerInfo {
   background_execution_threshold_ms: number;
   job_result_ttl_ms: number;
   query_timeout_ms?: number;
+  // Effective settings of each connection, after its own overrides; null means unlimited
+  connection_settings: Record<string, ConnectionSettings>;
+  // Connections grouped by environment; environment names can be passed as connection_string
+  environments: Record<string, EnvironmentInfo>;
+  ungrouped_connections: ConnectionSummary[];
+  aliases: Record<string, string>;
+  // Why config.json was ignored or connections were left out; absent when it loaded cleanly
+  config_errors?: string[];
+}
+
+export interface EnvironmentInfo {
+  description?: string;
+  production: boolean;
+  default_connection?: string;
+  connections: ConnectionSummary[];
+}
+
+export interface ConnectionSummary {
+  name: string;
+  description?: string;
+  production: boolean;
+  tags?: string[];
+  aliases?: string[];
+}
+
+export interface ConnectionSettings {
+  query_timeout_ms: number | null;
+  max_result_rows: number | null;
+  background_execution_threshold_ms: number;
 }
 
 export const getServerInfoSchema: Tool = {
   name: "get_server_info",
   description:
-    "Get server configuration information including available database connections, default connection, and execution settings. Use this to discover what connections are available.",
+    "Get server configuration information including available database connections, default connection, and execution settings (with the effective timeout, row cap and background threshold of each connection), grouped by environment (e.g. dev, staging, prod) with tags and aliases, and any config_errors that made the server ignore its config file or connections. Environment names and aliases can be passed as connection_string; production connections are flagged with production: true. Use this to discover what connections are available.",
   inputSchema: {
     type: "object",
     properties: {},
@@ -32,16 +77,58 @@ export async function handleGetServerInfo(): Promise<ServerInfo> {
 
   const config = loadConfig();
   const defaultConnection = getDefaultConnectionName();
-  const backgroundThreshold = getBackgroundThresholdMs();
+  // Top-level values are the global defaults; connection overrides are in connection_settings
+  const backgroundThreshold = getDefaultBackgroundThresholdMs();
   const jobResultTtl = getJobResultTtlMs();
-  const queryTimeout = getQueryTimeout();
+  const queryTimeout = getDefaultQueryTimeout();
 
   const availableConnections = Object.keys(config.connections).sort();
 
+  const connectionSettings: Record<string, ConnectionSettings> = {};
+  for (const name of availableConnections) {
+    connectionSettings[name] = {
+      query_timeout_ms: getQueryTimeout(name) ?? null,
+      max_result_rows: getMaxResultRows(name) ?? null,
+      background_execution_threshold_ms: getBackgroundThresholdMs(name),
+    };
+  }
+
+  const summarize = (name: string): ConnectionSummary => {
+    const connection = config.connections[name];
+    const summary: ConnectionSummary = { name, production: isProductionConnection(name) };
+    if (connection.description) {
+      summary.description = connection.description;
+    }
+    if (connection.tags && connection.tags.length > 0) {
+      summary.tags = connection.tags;
+    }
+    if (connection.aliases && connection.aliases.length > 0) {
+      summary.aliases = connection.aliases;
+    }
+    return summary;
+  };
+
+  const environments: Record<string, EnvironmentInfo> = {};
+  for (const name of getEnvironmentNames()) {
+    const settings = findEnvironment(name)?.[1] ?? {};
+    environments[name] = {
+      ...(settings.description ? { description: settings.description } : {}),
+      production: isProductionEnvironment(name),
+      ...(settings.defaultConnection ? { default_connection: settings.defaultConnection } : {}),
+      connections: getEnvironmentConnections(name).map(summarize),
+    };
+  }
+
   const response: ServerInfo = {
     available_connections: availableConnections,
     background_execution_threshold_ms: backgroundThreshold,
     job_result_ttl_ms: jobResultTtl,
+    connection_settings: connectionSettings,
+    environments,
+    ungrouped_connections: availableConnections
+      .filter((name) => !config.connections[name].environment?.trim())
+      .map(summarize),
+    aliases: getConnectionAliases(),
   };
 
   // Only include default_connection if one is configured
@@ -49,6 +136,11 @@ export async function handleGetServerInfo(): Promise<ServerInfo> {
     response.default_connection = defaultConnection;
   }
 
+  const configErrors = getConfigErrors();
+  if (configErrors.length > 0) {
+    response.config_errors = configErrors;
+  }
+
   // Only include query timeout if one is configured
   if (typeof queryTimeout === "number") {
     response.query_timeout_ms = queryTimeout;
@@ -3,13 +3,18 @@
  */
 
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { ListDatabasesInput, RawOutput } from "../types/index.js";
+import { ListDatabasesInput, ToolOutput } from "../types/index.js";
 import { createLogger } from "../utils/logger.js";
-import { createUsqlError, formatMcpError } from "../utils/error-handler.js";
+import { createUsqlError, formatMcpError, sanitizeConnectionString } from "../utils/error-handler.js";
 import { validateConnectionString } from "../usql/connection.js";
-import { executeUsqlQuery } from "../usql/process-executor.js";
-import { parseUsqlError } from "../usql/parser.js";
-import { getQueryTimeout, resolveConnectionStringOrDefault } from "../usql/config.js";
+import { attemptMetadata, executeWithRetry } from "../usql/retry.js";
+import { parseUsqlError, parseUsqlErrorDetails } from "../usql/parser.js";
+import { buildToolOutput, getUsqlFormat } from "../usql/results.js";
+import {
+  getQueryTimeout,
+  getRetryPolicy,
+  resolveConnectionStringOrDefault,
+} from "../usql/config.js";
 import { withBackgroundSupport } from "./background-wrapper.js";
 
 const logger = createLogger("usql-mcp:tools:list-databases");
@@ -27,8 +32,9 @@ export const listDatabasesSchema: Tool = {
       },
       output_format: {
         type: "string",
-        enum: ["json", "csv"],
-        description: "Output format for results (default: json)",
+        enum: ["json", "csv", "structured"],
+        description:
+          "Output format for results (default: json). json and csv return usql's raw output as a string; structured returns parsed { columns, rows, row_count }",
       },
       timeout_ms: {
         type: ["number", "null"],
@@ -41,7 +47,10 @@ export const listDatabasesSchema: Tool = {
 };
 
 
-async function _handleListDatabases(input: ListDatabasesInput): Promise<RawOutput> {
+async function _handleListDatabases(
+  input: ListDatabasesInput,
+  signal?: AbortSignal
+): Promise<ToolOutput> {
   const outputFormat = input.output_format || "json";
 
   logger.debug("[list-databases] Handling request", {
@@ -54,7 +63,7 @@ async function _handleListDatabases(input: ListDatabasesInput): Promise<RawOutpu
   try {
     // Resolve connection string (could be a name like "oracle" or a full URI)
     try {
-      resolvedConnectionString = resolveConnectionStringOrDefault(input.connection_string);
+      resolvedConnectionString = await resolveConnectionStringOrDefault(input.connection_string);
     } catch (error) {
       throw createUsqlError("InvalidConnection", `Failed to resolve connection: ${String(error)}`);
     }
@@ -62,7 +71,7 @@ async function _handleListDatabases(input: ListDatabasesInput): Promise<RawOutpu
     if (!validateConnectionString(resolvedConnectionString)) {
       throw createUsqlError(
         "InvalidConnection",
-        `Invalid connection string format: ${resolvedConnectionString}`
+        `Invalid connection string format: ${sanitizeConnectionString(resolvedConnectionString)}`
       );
     }
 
@@ -76,13 +85,15 @@ async function _handleListDatabases(input: ListDatabasesInput): Promise<RawOutpu
         : typeof input.timeout_ms === "number" && Number.isFinite(input.timeout_ms)
         ? input.timeout_ms
         : undefined;
-    const timeout = timeoutOverride ?? getQueryTimeout();
+    const timeout = timeoutOverride ?? getQueryTimeout(input.connection_string);
     logger.debug("[list-databases] Executing list command", { timeout, outputFormat });
 
-    const result = await executeUsqlQuery(resolvedConnectionString, query, {
-      timeout,
-      format: outputFormat,
-    });
+    const { result, attempts } = await executeWithRetry(
+      resolvedConnectionString,
+      query,
+      { timeout, format: getUsqlFormat(outputFormat), signal },
+      { policy: getRetryPolicy(input.connection_string), idempotent: true }
+    );
 
     logger.debug("[list-databases] Command executed", {
       exitCode: result.exitCode,
@@ -93,15 +104,16 @@ async function _handleListDatabases(input: ListDatabasesInput): Promise<RawOutpu
     // Check for errors
     if (result.exitCode !== 0 && result.stderr) {
       const errorMessage = parseUsqlError(result.stderr);
-      throw createUsqlError("ListDatabasesError", errorMessage, { exitCode: result.exitCode });
+      throw createUsqlError("ListDatabasesError", errorMessage, {
+        exitCode: result.exitCode,
+        ...parseUsqlErrorDetails(result.stderr),
+        ...attemptMetadata(attempts),
+      });
     }
 
     logger.debug("[list-databases] Databases retrieved", { outputFormat });
 
-    return {
-      format: outputFormat as "json" | "csv",
-      content: result.stdout,
-    };
+    return { ...buildToolOutput(result.stdout, outputFormat), ...attemptMetadata(attempts) };
   } catch (error) {
     const connectionForError = resolvedConnectionString ?? input.connection_string;
     const mcpError = formatMcpError(error, connectionForError ? { connectionString: connectionForError } : undefined);
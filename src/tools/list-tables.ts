@@ -3,13 +3,19 @@
  */
 
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
-import { ListTablesInput, RawOutput } from "../types/index.js";
+import { ListTablesInput, ToolOutput } from "../types/index.js";
 import { createLogger } from "../utils/logger.js";
 import { createUsqlError, formatMcpError, sanitizeConnectionString } from "../utils/error-handler.js";
-import { validateConnectionString } from "../usql/connection.js";
-import { executeUsqlQuery } from "../usql/process-executor.js";
-import { parseUsqlError } from "../usql/parser.js";
-import { getQueryTimeout, resolveConnectionStringOrDefault } from "../usql/config.js";
+import { applyDatabaseArgument, validateConnectionString } from "../usql/connection.js";
+import { attemptMetadata, executeWithRetry } from "../usql/retry.js";
+import { parseUsqlError, parseUsqlErrorDetails } from "../usql/parser.js";
+import {
+  getMaxResultRows,
+  getQueryTimeout,
+  getRetryPolicy,
+  resolveConnectionStringOrDefault,
+} from "../usql/config.js";
+import { buildToolOutput, getUsqlFormat } from "../usql/results.js";
 import { withBackgroundSupport } from "./background-wrapper.js";
 
 const logger = createLogger("usql-mcp:tools:list-tables");
@@ -26,24 +32,38 @@ export const listTablesSchema: Tool = {
       },
       database: {
         type: "string",
-        description: "Optional database name to list tables from (if not specified in connection)",
+        description:
+          "Optional database to use instead of the one in the connection. Server databases (PostgreSQL, MySQL, ClickHouse, SQL Server, ...) are switched on the connection; for other drivers (Oracle, SQLite, DuckDB, ...) it is treated as a schema name",
       },
       output_format: {
         type: "string",
-        enum: ["json", "csv"],
-        description: "Output format for results (default: json)",
+        enum: ["json", "csv", "structured"],
+        description:
+          "Output format for results (default: json). json and csv return usql's raw output as a string; structured returns parsed { columns, rows, row_count }",
       },
       timeout_ms: {
         type: ["number", "null"],
         description: "Optional timeout in milliseconds for this call (overrides defaults). Use null for unlimited.",
         minimum: 1,
       },
+      max_rows: {
+        type: ["number", "null"],
+        description:
+          "Optional maximum number of rows to return for this call (overrides the connection or default maxResultRows). Use null for no limit. Truncated results include truncated: true and total_rows.",
+        minimum: 1,
+      },
     },
     required: [],
   },
 };
 
-async function _handleListTables(input: ListTablesInput): Promise<RawOutput> {
+/**
+ * Run \dt without background job handling (the usql://{connection}/tables resource reads through this)
+ */
+export async function listTables(
+  input: ListTablesInput,
+  signal?: AbortSignal
+): Promise<ToolOutput> {
   const outputFormat = input.output_format || "json";
 
   logger.debug("[list-tables] Handling request", {
@@ -59,7 +79,7 @@ async function _handleListTables(input: ListTablesInput): Promise<RawOutput> {
   try {
     // Resolve connection string
     try {
-      resolvedConnectionString = resolveConnectionStringOrDefault(input.connection_string);
+      resolvedConnectionString = await resolveConnectionStringOrDefault(input.connection_string);
     } catch (error) {
       throw createUsqlError("InvalidConnection", `Failed to resolve connection: ${String(error)}`);
     }
@@ -67,13 +87,22 @@ async function _handleListTables(input: ListTablesInput): Promise<RawOutput> {
     if (!validateConnectionString(resolvedConnectionString)) {
       throw createUsqlError(
         "InvalidConnection",
-        `Invalid connection string format: ${resolvedConnectionString}`
+        `Invalid connection string format: ${sanitizeConnectionString(resolvedConnectionString)}`
       );
     }
 
+    if (input.database !== undefined && typeof input.database !== "string") {
+      throw createUsqlError("InvalidInput", "database must be a string");
+    }
+
+    // Switch to the requested database, or list that schema when the driver can't switch
+    const target = input.database
+      ? applyDatabaseArgument(resolvedConnectionString, input.database)
+      : { connectionString: resolvedConnectionString };
+
     // Use usql's built-in \dt command to list tables
     // This works across most SQL databases
-    const query = "\\dt";
+    const query = target.schema ? `\\dt ${target.schema}.*` : "\\dt";
 
     const timeoutOverride =
       input.timeout_ms === null
@@ -81,17 +110,19 @@ async function _handleListTables(input: ListTablesInput): Promise<RawOutput> {
         : typeof input.timeout_ms === "number" && Number.isFinite(input.timeout_ms)
         ? input.timeout_ms
         : undefined;
-    const timeout = timeoutOverride ?? getQueryTimeout();
+    const timeout = timeoutOverride ?? getQueryTimeout(input.connection_string);
     logger.debug("[list-tables] Executing list command", {
       timeout,
       database: input.database,
       outputFormat,
     });
 
-    const result = await executeUsqlQuery(resolvedConnectionString, query, {
-      timeout,
-      format: outputFormat,
-    });
+    const { result, attempts } = await executeWithRetry(
+      target.connectionString,
+      query,
+      { timeout, format: getUsqlFormat(outputFormat), signal },
+      { policy: getRetryPolicy(input.connection_string), idempotent: true }
+    );
 
     logger.debug("[list-tables] Command executed", {
       exitCode: result.exitCode,
@@ -102,7 +133,11 @@ async function _handleListTables(input: ListTablesInput): Promise<RawOutput> {
     // Check for errors
     if (result.exitCode !== 0 && result.stderr) {
       const errorMessage = parseUsqlError(result.stderr);
-      throw createUsqlError("ListTablesError", errorMessage, { exitCode: result.exitCode });
+      throw createUsqlError("ListTablesError", errorMessage, {
+        exitCode: result.exitCode,
+        ...parseUsqlErrorDetails(result.stderr),
+        ...attemptMetadata(attempts),
+      });
     }
 
     logger.debug("[list-tables] Tables retrieved", {
@@ -110,9 +145,16 @@ async function _handleListTables(input: ListTablesInput): Promise<RawOutput> {
       database: input.database,
     });
 
+    const maxRows =
+      input.max_rows === null
+        ? undefined
+        : typeof input.max_rows === "number" && Number.isFinite(input.max_rows)
+        ? input.max_rows
+        : getMaxResultRows(input.connection_string);
+
     return {
-      format: outputFormat as "json" | "csv",
-      content: result.stdout,
+      ...buildToolOutput(result.stdout, outputFormat, maxRows),
+      ...attemptMetadata(attempts),
     };
   } catch (error) {
     const connectionForError = resolvedConnectionString ?? input.connection_string;
@@ -131,4 +173,4 @@ async function _handleListTables(input: ListTablesInput): Promise<RawOutput> {
   }
 }
 
-export const handleListTables = withBackgroundSupport("list_tables", _handleListTables);
+export const handleListTables = withBackgroundSupport("list_tables", listTables);
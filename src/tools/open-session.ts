@@ -0,0 +1,114 @@
+/**
+ * open_session tool - Start a long-lived usql session for multi-step work
+ */
+
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { createLogger } from "../utils/logger.js";
+import { createUsqlError, formatMcpError, sanitizeConnectionString } from "../utils/error-handler.js";
+import { parseConnectionString, validateConnectionString } from "../usql/connection.js";
+import {
+  getQueryTimeout,
+  getSessionIdleTimeoutMs,
+  resolveConnectionStringOrDefault,
+} from "../usql/config.js";
+import { getSessionManager } from "../usql/session-manager.js";
+
+const logger = createLogger("usql-mcp:tools:open-session");
+
+interface OpenSessionInput {
+  connection_string?: string;
+  idle_timeout_ms?: number;
+}
+
+interface OpenSessionResponse {
+  session_id: string;
+  connection: string;
+  driver: string;
+  idle_timeout_ms: number;
+  message: string;
+}
+
+export const openSessionSchema: Tool = {
+  name: "open_session",
+  description:
+    "Open a persistent database session so several execute_query calls share one connection (e.g. BEGIN, inspect, then COMMIT or ROLLBACK). Pass the returned session_id to execute_query. Always finish with close_session; closing rolls back anything not committed.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      connection_string: {
+        type: "string",
+        description:
+          "(Optional) Database connection URL or configured connection name. If omitted, uses the default connection. Use get_server_info to discover available connections.",
+      },
+      idle_timeout_ms: {
+        type: "number",
+        description:
+          "(Optional) Close the session (rolling back) after this many milliseconds without a command. Defaults to defaults.sessionIdleTimeoutMs (10 minutes).",
+        minimum: 1,
+      },
+    },
+    required: [],
+  },
+};
+
+export async function handleOpenSession(input: OpenSessionInput): Promise<OpenSessionResponse> {
+  logger.debug("[open-session] Handling request", {
+    connectionString: input.connection_string
+      ? sanitizeConnectionString(input.connection_string)
+      : undefined,
+  });
+
+  let resolvedConnectionString: string | undefined;
+
+  try {
+    if (
+      input.idle_timeout_ms !== undefined &&
+      (typeof input.idle_timeout_ms !== "number" || !Number.isFinite(input.idle_timeout_ms) || input.idle_timeout_ms <= 0)
+    ) {
+      throw createUsqlError("InvalidInput", "idle_timeout_ms must be a positive number");
+    }
+
+    try {
+      resolvedConnectionString = await resolveConnectionStringOrDefault(input.connection_string);
+    } catch (error) {
+      throw createUsqlError("InvalidConnection", `Failed to resolve connection: ${String(error)}`);
+    }
+
+    if (!validateConnectionString(resolvedConnectionString)) {
+      throw createUsqlError(
+        "InvalidConnection",
+        `Invalid connection string format: ${sanitizeConnectionString(resolvedConnectionString)}`
+      );
+    }
+
+    const idleTimeoutMs = input.idle_timeout_ms ?? getSessionIdleTimeoutMs();
+    const session = await getSessionManager().openSession({
+      connectionString: resolvedConnectionString,
+      connectionName: input.connection_string,
+      driver: parseConnectionString(resolvedConnectionString).driver,
+      idleTimeoutMs,
+      timeout: getQueryTimeout(input.connection_string),
+    });
+    const info = session.info();
+
+    logger.info("[open-session] Session opened", { sessionId: info.id, driver: info.driver });
+
+    return {
+      session_id: info.id,
+      connection: info.connection,
+      driver: info.driver,
+      idle_timeout_ms: idleTimeoutMs,
+      message:
+        "Session opened. Pass session_id to execute_query; statements share one connection until close_session, which rolls back uncommitted work.",
+    };
+  } catch (error) {
+    const connectionForError = input.connection_string || resolvedConnectionString;
+    const mcpError = formatMcpError(
+      error,
+      connectionForError ? { connectionString: sanitizeConnectionString(connectionForError) } : undefined
+    );
+
+    logger.error("[open-session] Error opening session", error);
+    throw mcpError;
+  }
+}
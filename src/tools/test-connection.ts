@@ -0,0 +1,223 @@
+/**
+ * test_connection tool - Check that a connection works and report what it connects to
+ */
+
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { ConnectionStatus, ConnectionStatusBoard, TestConnectionInput } from "../types/index.js";
+import { createLogger } from "../utils/logger.js";
+import { createUsqlError, formatMcpError, sanitizeConnectionString } from "../utils/error-handler.js";
+import { classifyError } from "../utils/error-taxonomy.js";
+import { parseConnectionString, validateConnectionString } from "../usql/connection.js";
+import { executeUsqlQuery, UsqlExecutionResult } from "../usql/process-executor.js";
+import { parseUsqlError, parseUsqlErrorDetails } from "../usql/parser.js";
+import {
+  buildPingQuery,
+  buildServerInfoQuery,
+  parseServerInfo,
+  requestedTlsSettings,
+  ServerIntrospection,
+} from "../usql/introspection.js";
+import {
+  getDefaultConnectionName,
+  loadConfig,
+  resolveConnectionStringOrDefault,
+} from "../usql/config.js";
+import { withBackgroundSupport } from "./background-wrapper.js";
+
+const logger = createLogger("usql-mcp:tools:test-connection");
+
+// A health check should answer quickly even when no query timeout is configured
+const DEFAULT_TIMEOUT_MS = 10000;
+// Connections checked at the same time with all: true
+const CHECK_CONCURRENCY = 4;
+// Failures that the ping would only repeat
+const CONNECTION_FAILURES = new Set(["auth_failure", "unknown_host", "connection_refused", "timeout"]);
+
+export const testConnectionSchema: Tool = {
+  name: "test_connection",
+  description:
+    "Check that a connection works without running a query of your own. Runs a driver-appropriate ping (SELECT 1, SELECT 1 FROM DUAL, ...) and reports latency_ms, server_version, current_user, current_database and TLS details where the engine exposes them. Failures are reported as ok: false with the error instead of failing the call. Pass all: true to check every configured connection at once.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      connection_string: {
+        type: "string",
+        description:
+          "(Optional) Database connection URL, configured connection name, alias or environment. If omitted, uses the default connection. Use get_server_info to discover available connections.",
+      },
+      all: {
+        type: "boolean",
+        description:
+          "Check every configured connection and return { connections, ok_count, failed_count }. Do not combine with connection_string.",
+      },
+      timeout_ms: {
+        type: ["number", "null"],
+        description: `Optional timeout in milliseconds for each check (default ${DEFAULT_TIMEOUT_MS}). Use null for unlimited.`,
+        minimum: 1,
+      },
+    },
+    required: [],
+  },
+};
+
+function failure(result: UsqlExecutionResult, driver: string): Error {
+  return createUsqlError("ConnectionTestFailed", parseUsqlError(result.stderr), {
+    exitCode: result.exitCode,
+    ...parseUsqlErrorDetails(result.stderr, driver),
+  });
+}
+
+/**
+ * Ping one resolved connection. The server info query doubles as the ping; when it fails
+ * for a reason other than the connection itself (no privilege on a system view, an engine
+ * variant without the function), the plain ping decides.
+ */
+async function checkConnection(
+  label: string,
+  connectionString: string,
+  timeout: number | undefined,
+  signal?: AbortSignal
+): Promise<ConnectionStatus> {
+  const status: ConnectionStatus = { connection: label, ok: false };
+
+  try {
+    if (!validateConnectionString(connectionString)) {
+      throw createUsqlError(
+        "InvalidConnection",
+        `Invalid connection string format: ${sanitizeConnectionString(connectionString)}`
+      );
+    }
+    const driver = parseConnectionString(connectionString).driver;
+    status.driver = driver;
+
+    const options = { timeout, format: "json" as const, signal };
+    const infoQuery = buildServerInfoQuery(driver);
+    let info: ServerIntrospection = {};
+    let started = Date.now();
+    let result = infoQuery ? await executeUsqlQuery(connectionString, infoQuery, options) : undefined;
+
+    if (result && result.exitCode === 0) {
+      info = parseServerInfo(result.stdout);
+    } else {
+      if (result) {
+        const details = parseUsqlErrorDetails(result.stderr, driver);
+        const { error_class } = classifyError("ConnectionTestFailed", details.message, { ...details });
+        if (CONNECTION_FAILURES.has(error_class)) {
+          throw failure(result, driver);
+        }
+        logger.debug("[test-connection] Server info unavailable, falling back to ping", {
+          connection: label,
+          error_class,
+        });
+      }
+      started = Date.now();
+      result = await executeUsqlQuery(connectionString, buildPingQuery(driver), options);
+      if (result.exitCode !== 0) {
+        throw failure(result, driver);
+      }
+    }
+
+    status.ok = true;
+    status.latency_ms = Date.now() - started;
+    Object.assign(status, info);
+
+    const requested = requestedTlsSettings(connectionString);
+    if (Object.keys(requested).length > 0) {
+      status.tls = { ...status.tls, requested };
+    }
+  } catch (error) {
+    // The label, not the resolved URI: query parameters may carry credentials
+    status.error = formatMcpError(error, { connectionString: label });
+    logger.debug("[test-connection] Check failed", { connection: label, error: status.error.message });
+  }
+
+  return status;
+}
+
+function timeoutFor(input: TestConnectionInput): number | undefined {
+  if (input.timeout_ms === null) {
+    return undefined;
+  }
+  return typeof input.timeout_ms === "number" && Number.isFinite(input.timeout_ms)
+    ? input.timeout_ms
+    : DEFAULT_TIMEOUT_MS;
+}
+
+async function checkAllConnections(
+  timeout: number | undefined,
+  signal?: AbortSignal
+): Promise<ConnectionStatusBoard> {
+  const config = loadConfig();
+  const names = Object.keys(config.connections).sort();
+  const statuses: ConnectionStatus[] = new Array(names.length);
+
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < names.length) {
+      const index = next++;
+      const name = names[index];
+      let connectionString: string;
+      try {
+        connectionString = await resolveConnectionStringOrDefault(name);
+      } catch (error) {
+        statuses[index] = { connection: name, ok: false, error: formatMcpError(error) };
+        continue;
+      }
+      const status = await checkConnection(name, connectionString, timeout, signal);
+      const environment = config.connections[name].environment;
+      statuses[index] = environment ? { ...status, environment } : status;
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CHECK_CONCURRENCY, names.length) }, worker));
+
+  const okCount = statuses.filter((status) => status.ok).length;
+  return { connections: statuses, ok_count: okCount, failed_count: statuses.length - okCount };
+}
+
+async function _handleTestConnection(
+  input: TestConnectionInput,
+  signal?: AbortSignal
+): Promise<ConnectionStatus | ConnectionStatusBoard> {
+  logger.debug("[test-connection] Handling request", {
+    connectionStringInput: input.connection_string,
+    all: input.all,
+  });
+
+  try {
+    const timeout = timeoutFor(input);
+
+    if (input.all) {
+      if (input.connection_string !== undefined) {
+        throw createUsqlError("InvalidInput", "connection_string cannot be combined with all");
+      }
+      const board = await checkAllConnections(timeout, signal);
+      logger.debug("[test-connection] Checked all connections", {
+        ok: board.ok_count,
+        failed: board.failed_count,
+      });
+      return board;
+    }
+
+    let resolvedConnectionString: string;
+    try {
+      resolvedConnectionString = await resolveConnectionStringOrDefault(input.connection_string);
+    } catch (error) {
+      throw createUsqlError("InvalidConnection", `Failed to resolve connection: ${String(error)}`);
+    }
+
+    const named = input.connection_string?.trim() || getDefaultConnectionName();
+    const label =
+      named && !named.includes("://") ? named : sanitizeConnectionString(resolvedConnectionString);
+    return await checkConnection(label, resolvedConnectionString, timeout, signal);
+  } catch (error) {
+    const mcpError = formatMcpError(
+      error,
+      input.connection_string ? { connectionString: input.connection_string } : undefined
+    );
+
+    logger.error("[test-connection] Error testing connection", error);
+    throw mcpError;
+  }
+}
+
+export const handleTestConnection = withBackgroundSupport("test_connection", _handleTestConnection);
@@ -0,0 +1,290 @@
+/**
+ * Streamable HTTP transport (JSON-RPC over POST, server messages over SSE)
+ * Each MCP session gets its own Server instance from the factory; the job manager,
+ * config and usql processes are shared by all sessions in the process.
+ * Host and Origin headers are checked so that a web page cannot reach a local server
+ * through DNS rebinding, and sessions that stop sending requests are closed.
+ */
+
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import { createServer as createHttpServer, IncomingMessage, Server as HttpServer, ServerResponse } from "http";
+import { URL } from "url";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createLogger } from "../utils/logger.js";
+import { HttpTransportOptions } from "./options.js";
+
+const logger = createLogger("usql-mcp:http");
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "localhost", "::1"]);
+const WILDCARD_HOSTS = new Set(["0.0.0.0", "::", ""]);
+const MAX_IDLE_SWEEP_INTERVAL_MS = 60 * 1000;
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+  // Requests still being answered, including open SSE streams
+  activeRequests: number;
+}
+
+export interface RunningHttpServer {
+  server: HttpServer;
+  url: string;
+  close(): Promise<void>;
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  if (res.headersSent) {
+    return;
+  }
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/**
+ * Constant-time comparison of the Authorization header against the configured token
+ */
+function isAuthorized(req: IncomingMessage, expectedDigest: Buffer | undefined): boolean {
+  if (!expectedDigest) {
+    return true;
+  }
+  const header = req.headers.authorization ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) {
+    return false;
+  }
+  return timingSafeEqual(digest(match[1].trim()), expectedDigest);
+}
+
+/**
+ * Host header values that name this server. A wildcard address can be reached under any
+ * name, so without configured allowedHosts the Host header is not checked there.
+ */
+function buildAllowedHosts(options: HttpTransportOptions, port: number): Set<string> | undefined {
+  const names = LOOPBACK_HOSTS.has(options.host)
+    ? ["127.0.0.1", "localhost", "[::1]"]
+    : WILDCARD_HOSTS.has(options.host)
+      ? []
+      : [options.host.includes(":") ? `[${options.host}]` : options.host];
+  const hosts = new Set<string>((options.allowedHosts ?? []).map((host) => host.toLowerCase()));
+  for (const name of names) {
+    hosts.add(`${name}:${port}`);
+    if (port === 80) {
+      hosts.add(name);
+    }
+  }
+  return hosts.size > 0 ? hosts : undefined;
+}
+
+/**
+ * Why the Host or Origin header is refused, or undefined when the request may proceed.
+ * Clients other than browsers send no Origin; a browser page must be in allowedOrigins.
+ */
+function checkRequestOrigin(
+  req: IncomingMessage,
+  allowedHosts: Set<string> | undefined,
+  allowedOrigins: Set<string>
+): string | undefined {
+  const host = req.headers.host;
+  if (allowedHosts && (!host || !allowedHosts.has(host.toLowerCase()))) {
+    return `Invalid Host header: ${host ?? "(none)"}`;
+  }
+  const origin = req.headers.origin;
+  if (origin !== undefined && !allowedOrigins.has(origin)) {
+    return `Invalid Origin header: ${origin}`;
+  }
+  return undefined;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    const buffer = chunk as Buffer;
+    size += buffer.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(buffer);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+}
+
+/**
+ * Start an HTTP server that speaks the MCP Streamable HTTP transport on options.path.
+ */
+export async function startHttpTransport(
+  createServer: () => Server,
+  options: HttpTransportOptions
+): Promise<RunningHttpServer> {
+  const sessions = new Map<string, HttpSession>();
+  const allowedOrigins = new Set(options.allowedOrigins ?? []);
+  // Known once the server is listening, since the port may be chosen by the OS
+  let allowedHosts: Set<string> | undefined = undefined;
+  const expectedDigest = options.authToken ? digest(options.authToken) : undefined;
+
+  if (!expectedDigest && !LOOPBACK_HOSTS.has(options.host)) {
+    logger.warn("[http] Listening on a non-loopback address without USQL_HTTP_AUTH_TOKEN; anyone who can reach it can run queries", {
+      host: options.host,
+    });
+  }
+
+  const trackActivity = (session: HttpSession, res: ServerResponse): void => {
+    session.activeRequests++;
+    session.lastActivity = Date.now();
+    res.once("close", () => {
+      session.activeRequests--;
+      session.lastActivity = Date.now();
+    });
+  };
+
+  const closeIdleSessions = (): void => {
+    const cutoff = Date.now() - options.sessionIdleTimeoutMs;
+    for (const [id, session] of sessions) {
+      if (session.activeRequests === 0 && session.lastActivity <= cutoff) {
+        logger.debug("[http] Closing idle session", { sessionId: id });
+        sessions.delete(id);
+        session.transport.close().catch((error) => {
+          logger.warn("[http] Failed to close idle session", error);
+        });
+      }
+    }
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== options.path) {
+      sendJsonRpcError(res, 404, -32000, `Not found: ${url.pathname}`);
+      return;
+    }
+
+    const refused = checkRequestOrigin(req, allowedHosts, allowedOrigins);
+    if (refused) {
+      logger.warn("[http] Rejected request", { reason: refused });
+      sendJsonRpcError(res, 403, -32000, refused);
+      return;
+    }
+
+    if (!isAuthorized(req, expectedDigest)) {
+      logger.warn("[http] Rejected unauthorized request", { method: req.method });
+      res.setHeader("WWW-Authenticate", 'Bearer realm="usql-mcp"');
+      sendJsonRpcError(res, 401, -32001, "Unauthorized");
+      return;
+    }
+
+    const sessionHeader = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+
+    if (req.method === "POST") {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendJsonRpcError(res, 400, -32700, `Parse error: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+      }
+
+      if (sessionId) {
+        const session = sessions.get(sessionId);
+        if (!session) {
+          sendJsonRpcError(res, 404, -32001, "Session not found");
+          return;
+        }
+        trackActivity(session, res);
+        await session.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (!isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, -32000, "Bad Request: missing mcp-session-id header");
+        return;
+      }
+
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: (): string => randomUUID(),
+        onsessioninitialized: (id): void => {
+          sessions.set(id, { transport, lastActivity: Date.now(), activeRequests: 0 });
+          logger.debug("[http] Session initialized", { sessionId: id, sessions: sessions.size });
+        },
+      });
+      transport.onclose = (): void => {
+        if (transport.sessionId) {
+          sessions.delete(transport.sessionId);
+          logger.debug("[http] Session closed", { sessionId: transport.sessionId, sessions: sessions.size });
+        }
+      };
+
+      const server = createServer();
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === "GET" || req.method === "DELETE") {
+      const session = sessionId ? sessions.get(sessionId) : undefined;
+      if (!session) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, -32000, sessionId ? "Session not found" : "Missing mcp-session-id header");
+        return;
+      }
+      trackActivity(session, res);
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    res.setHeader("Allow", "GET, POST, DELETE");
+    sendJsonRpcError(res, 405, -32000, `Method not allowed: ${req.method}`);
+  };
+
+  const httpServer = createHttpServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      logger.error("[http] Request handling failed", error);
+      sendJsonRpcError(res, 500, -32603, "Internal server error");
+    });
+  });
+
+  await new Promise<void>((resolvePromise, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolvePromise();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === "object" && address ? address.port : options.port;
+  const host = options.host.includes(":") ? `[${options.host}]` : options.host;
+  const url = `http://${host}:${port}${options.path}`;
+  allowedHosts = buildAllowedHosts(options, port);
+
+  const idleSweep = setInterval(
+    closeIdleSessions,
+    Math.min(options.sessionIdleTimeoutMs, MAX_IDLE_SWEEP_INTERVAL_MS)
+  );
+  idleSweep.unref();
+
+  logger.info("[http] MCP server listening", { url, auth: expectedDigest ? "bearer" : "none" });
+
+  return {
+    server: httpServer,
+    url,
+    close: async (): Promise<void> => {
+      clearInterval(idleSweep);
+      for (const session of [...sessions.values()]) {
+        await session.transport.close();
+      }
+      sessions.clear();
+      await new Promise<void>((resolvePromise) => {
+        httpServer.close(() => resolvePromise());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
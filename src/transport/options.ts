@@ -0,0 +1,132 @@
+/**
+ * Transport selection from command-line flags and environment variables
+ * Flags win over USQL_TRANSPORT / USQL_HTTP_* so a shared config can be overridden per process.
+ * The bearer token is only read from USQL_HTTP_AUTH_TOKEN to keep it out of process listings.
+ * --check-config validates the configuration and exits instead of starting a transport.
+ */
+
+export type TransportKind = "stdio" | "http";
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  path: string;
+  authToken?: string;
+  // Host header values accepted in addition to the bound address (e.g. behind a proxy)
+  allowedHosts?: string[];
+  // Browser origins allowed to call the server; requests from any other origin are refused
+  allowedOrigins?: string[];
+  // Sessions without requests for this long are closed
+  sessionIdleTimeoutMs: number;
+}
+
+export interface TransportOptions {
+  transport: TransportKind;
+  http: HttpTransportOptions;
+  checkConfig: boolean;
+}
+
+export const DEFAULT_HTTP_HOST = "127.0.0.1";
+export const DEFAULT_HTTP_PORT = 3000;
+export const DEFAULT_HTTP_PATH = "/mcp";
+export const DEFAULT_HTTP_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+const FLAG_NAMES = ["transport", "host", "port", "path", "check-config"] as const;
+type FlagName = (typeof FLAG_NAMES)[number];
+
+// Flags that take no value
+const SWITCH_NAMES: ReadonlySet<FlagName> = new Set(["check-config"]);
+
+/**
+ * Parse --name value and --name=value flags; unknown flags are rejected so typos don't
+ * silently fall back to stdio.
+ */
+function parseFlags(argv: string[]): Partial<Record<FlagName, string>> {
+  const flags: Partial<Record<FlagName, string>> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+
+    const [rawName, inlineValue] = arg.substring(2).split(/=(.*)/s, 2);
+    const name = rawName as FlagName;
+    if (!FLAG_NAMES.includes(name)) {
+      throw new Error(`Unknown option: --${rawName}. Supported options: ${FLAG_NAMES.map((f) => `--${f}`).join(", ")}`);
+    }
+
+    if (SWITCH_NAMES.has(name)) {
+      if (inlineValue !== undefined) {
+        throw new Error(`Option --${name} does not take a value`);
+      }
+      flags[name] = "true";
+      continue;
+    }
+
+    const value = inlineValue ?? argv[++i];
+    if (value === undefined || value.startsWith("--")) {
+      throw new Error(`Option --${name} requires a value`);
+    }
+    flags[name] = value;
+  }
+
+  return flags;
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  const items = (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+  return items.length > 0 ? items : undefined;
+}
+
+function parseIdleTimeout(value: string | undefined): number {
+  if (value === undefined || value.trim() === "") {
+    return DEFAULT_HTTP_SESSION_IDLE_TIMEOUT_MS;
+  }
+  const timeout = Number(value);
+  if (!Number.isInteger(timeout) || timeout <= 0) {
+    throw new Error(`Invalid HTTP session idle timeout: ${value}`);
+  }
+  return timeout;
+}
+
+function parsePort(value: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port: ${value}`);
+  }
+  return port;
+}
+
+export function resolveTransportOptions(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): TransportOptions {
+  const flags = parseFlags(argv);
+
+  const transport = (flags.transport ?? env.USQL_TRANSPORT ?? "stdio").trim().toLowerCase();
+  if (transport !== "stdio" && transport !== "http") {
+    throw new Error(`Invalid transport: ${transport}. Use "stdio" or "http".`);
+  }
+
+  const path = flags.path ?? env.USQL_HTTP_PATH ?? DEFAULT_HTTP_PATH;
+  const authToken = env.USQL_HTTP_AUTH_TOKEN;
+  const port = flags.port ?? env.USQL_HTTP_PORT;
+
+  return {
+    transport,
+    http: {
+      host: flags.host ?? env.USQL_HTTP_HOST ?? DEFAULT_HTTP_HOST,
+      port: port !== undefined ? parsePort(port) : DEFAULT_HTTP_PORT,
+      path: path.startsWith("/") ? path : `/${path}`,
+      authToken: authToken && authToken.length > 0 ? authToken : undefined,
+      allowedHosts: parseList(env.USQL_HTTP_ALLOWED_HOSTS),
+      allowedOrigins: parseList(env.USQL_HTTP_ALLOWED_ORIGINS),
+      sessionIdleTimeoutMs: parseIdleTimeout(env.USQL_HTTP_SESSION_IDLE_TIMEOUT_MS),
+    },
+    checkConfig: flags["check-config"] === "true",
+  };
+}
@@ -5,47 +5,269 @@
 export interface RawOutput {
   format: "json" | "csv";
   content: string;
+  // Present only when rows were dropped to honour max_rows / defaults.maxResultRows
+  truncated?: boolean;
+  returned_rows?: number;
+  total_rows?: number;
+  // Present only for dry_run calls
+  dry_run?: DryRunSummary;
+  // Present only when failed attempts were retried
+  attempts?: RetryAttempt[];
 }
 
+export interface AffectedRows {
+  command: string;
+  rows: number;
+}
+
+export interface DryRunSummary {
+  rolled_back: true;
+  // One entry per command tag usql printed ("UPDATE 3", "INSERT 0 1"), in statement order
+  affected_rows: AffectedRows[];
+  total_affected_rows: number;
+}
+
+export interface StructuredColumn {
+  name: string;
+  type: string;
+}
+
+export interface StructuredResultSet {
+  columns: StructuredColumn[];
+  rows: Record<string, unknown>[];
+  row_count: number;
+}
+
+export interface StructuredOutput extends StructuredResultSet {
+  format: "structured";
+  // All result sets, present only when the output contained more than one
+  result_sets?: StructuredResultSet[];
+  // Non-tabular output lines such as command tags ("INSERT 0 1")
+  messages?: string[];
+  truncated?: boolean;
+  returned_rows?: number;
+  total_rows?: number;
+  dry_run?: DryRunSummary;
+  attempts?: RetryAttempt[];
+}
+
+export type OutputFormat = "json" | "csv" | "structured";
+
+export type ToolOutput = RawOutput | StructuredOutput;
+
 export interface ExecuteQueryInput {
   connection_string?: string;
   query: string;
   parameters?: unknown[];
-  output_format?: "json" | "csv";
+  output_format?: OutputFormat;
   timeout_ms?: number | null;
+  max_rows?: number | null;
+  session_id?: string;
+  dry_run?: boolean;
 }
 
 export interface ListDatabasesInput {
   connection_string?: string;
-  output_format?: "json" | "csv";
+  output_format?: OutputFormat;
   timeout_ms?: number | null;
 }
 
 export interface ListTablesInput {
   connection_string?: string;
   database?: string;
-  output_format?: "json" | "csv";
+  output_format?: OutputFormat;
   timeout_ms?: number | null;
+  max_rows?: number | null;
 }
 
 export interface DescribeTableInput {
   connection_string?: string;
   table: string;
   database?: string;
-  output_format?: "json" | "csv";
+  output_format?: OutputFormat;
   timeout_ms?: number | null;
+  max_rows?: number | null;
+  // Describe from the catalog views instead of \d (see TableDescription)
+  normalized?: boolean;
 }
 
 export interface ExecuteScriptInput {
   connection_string?: string;
   script: string;
-  output_format?: "json" | "csv";
+  output_format?: OutputFormat;
   timeout_ms?: number | null;
+  max_rows?: number | null;
+  dry_run?: boolean;
+}
+
+// Parsed from usql stderr; only the fields the driver reported are present
+export interface UsqlErrorDetails {
+  code?: string; // Native error number: MySQL 1064, SQL Server Msg 208, ORA-00942
+  sqlstate?: string;
+  message: string;
+  detail?: string;
+  hint?: string;
+  position?: number; // 1-based character position, within `line` when that is known
+  line?: number;
+}
+
+export interface ExplainQueryInput {
+  connection_string?: string;
+  query: string;
+  parameters?: unknown[];
+  timeout_ms?: number | null;
+}
+
+export interface TestConnectionInput {
+  connection_string?: string;
+  all?: boolean;
+  timeout_ms?: number | null;
+}
+
+// TLS state of the session as reported by the server, and what the connection string asked for
+export interface TlsInfo {
+  enabled?: boolean;
+  version?: string;
+  cipher?: string;
+  requested?: Record<string, string>;
+}
+
+export interface ConnectionStatus {
+  connection: string; // Configured name, or the URI with its password masked
+  ok: boolean;
+  driver?: string;
+  environment?: string;
+  latency_ms?: number; // Includes starting usql and connecting
+  server_version?: string;
+  current_user?: string;
+  current_database?: string;
+  tls?: TlsInfo;
+  error?: McpError;
+}
+
+// test_connection with all: true
+export interface ConnectionStatusBoard {
+  connections: ConnectionStatus[];
+  ok_count: number;
+  failed_count: number;
+}
+
+export interface GetDatabaseInfoInput {
+  connection_string?: string;
+  refresh?: boolean;
+  timeout_ms?: number | null;
+}
+
+// null when support is not known for the engine or its version could not be read
+export interface DatabaseFeatures {
+  cte: boolean | null;
+  returning: boolean | null;
+  window_functions: boolean | null;
+  json_operators: boolean | null;
+}
+
+export interface DatabaseInfo {
+  driver: string;
+  engine: string; // postgresql, cockroachdb, mysql, mariadb, sqlserver, oracle, sqlite, ...
+  version?: string; // Numeric part only, e.g. "16.2"
+  version_string?: string; // As reported by the server
+  default_schema?: string;
+  collation?: string;
+  timezone?: string;
+  features: DatabaseFeatures;
+  detected_at: string;
+  cached: boolean; // Served from the per-connection cache
+}
+
+export interface PlanNode {
+  node_type: string;
+  relation?: string;
+  estimated_rows?: number;
+}
+
+export interface PlanSummary {
+  // Distinct node types in plan order
+  node_types: string[];
+  // Estimated rows produced by the root of the plan, when the engine reports one
+  estimated_rows?: number;
+  total_cost?: number;
+  nodes: PlanNode[];
+  // Full scans of a table (Seq Scan, access type ALL, SCAN, Table Scan)
+  seq_scans: PlanNode[];
+  warnings: string[];
+}
+
+export interface ExplainQueryOutput {
+  driver: string;
+  plan_command: string;
+  plan: unknown;
+  summary: PlanSummary;
+  attempts?: RetryAttempt[];
+}
+
+export interface TableColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+  default: string | null;
+  comment: string | null;
+}
+
+export interface KeyConstraint {
+  // null where the engine does not name the constraint (SQLite primary keys)
+  name: string | null;
+  columns: string[];
+}
+
+export interface CheckConstraint {
+  name: string | null;
+  definition: string;
+}
+
+export interface TableIndex {
+  name: string;
+  // Expression index columns are null when the engine does not report the expression
+  columns: Array<string | null>;
+  unique: boolean;
+  primary: boolean;
+  method?: string;
+}
+
+export interface ForeignKey {
+  name: string | null;
+  // Tables are qualified with their schema
+  table: string;
+  columns: string[];
+  referenced_table: string;
+  // null where SQLite leaves the referenced primary key implicit
+  referenced_columns: Array<string | null>;
+  on_update?: string;
+  on_delete?: string;
+}
+
+export interface TableDescription {
+  driver: string;
+  schema: string;
+  table: string;
+  comment: string | null;
+  columns: TableColumn[];
+  primary_key: KeyConstraint | null;
+  unique_constraints: KeyConstraint[];
+  check_constraints: CheckConstraint[];
+  indexes: TableIndex[];
+  // Keys of this table, then keys of other tables that reference it
+  foreign_keys: ForeignKey[];
+  referenced_by: ForeignKey[];
+  // From table statistics, so it may lag behind; null when the engine keeps none
+  approximate_row_count: number | null;
+  attempts?: RetryAttempt[];
 }
 
 export interface UsqlExecutorOptions {
   timeout?: number;
   format?: "json" | "table" | "csv";
+  // Aborting kills the usql process group (used by cancel_job)
+  signal?: AbortSignal;
 }
 
 export interface UsqlConfig {
@@ -56,12 +278,62 @@ export interface UsqlConfig {
     defaultConnection?: string;
     backgroundThresholdMs?: number;
     jobResultTtlMs?: number;
+    readOnly?: boolean;
+    jobStoreDir?: string;
+    sessionIdleTimeoutMs?: number;
+    databaseInfoTtlMs?: number;
   };
+  // Keyed by environment name, which tools also accept in place of a connection name
+  environments?: Record<string, EnvironmentConfig>;
+}
+
+export interface EnvironmentConfig {
+  description?: string;
+  // Connection (or alias) used when the environment name is given as connection_string
+  defaultConnection?: string;
+  // Defaults to true for environments named prod or production
+  production?: boolean;
 }
 
 export interface ConnectionConfig {
+  // dburl of the connection; assembled from the fields below when config.json gives those instead
   uri: string;
   description?: string;
+  environment?: string; // Key in UsqlConfig.environments, e.g. "staging"
+  tags?: string[];
+  aliases?: string[]; // Other names tools accept for this connection, e.g. "prod"
+  driver?: string; // dburl scheme: postgres, mysql, sqlserver, oracle, sqlite, ...
+  host?: string;
+  port?: number | string;
+  database?: string; // Database name, or the file path for file-based drivers
+  user?: string;
+  password?: string;
+  params?: Record<string, string | number | boolean>; // Query parameters such as sslmode
+  // Reject statements that could modify data or schema (overrides defaults.readOnly)
+  readOnly?: boolean;
+  // Retry transient failures (connection refused, deadlock, ...); off when omitted
+  retry?: RetryPolicy;
+  // Override the defaults of the same name; null lifts the timeout or row cap
+  queryTimeout?: number | null;
+  maxResultRows?: number | null;
+  backgroundThresholdMs?: number;
+}
+
+export interface RetryPolicy {
+  maxAttempts?: number; // Including the first attempt; default 3
+  initialDelayMs?: number; // Default 200
+  maxDelayMs?: number; // Default 5000
+  multiplier?: number; // Default 2
+  // Also retry statements that may write (INSERT, UPDATE, DDL, procedure calls)
+  retryNonIdempotent?: boolean;
+}
+
+// One failed attempt that was retried
+export interface RetryAttempt {
+  attempt: number;
+  error_class: string;
+  message: string;
+  delay_ms: number;
 }
 
 export interface McpError {
@@ -70,6 +342,17 @@ export interface McpError {
   details?: Record<string, unknown>;
 }
 
+export interface JobState {
+  id: string;
+  status: "running" | "completed" | "failed" | "cancelled";
+  startedAt: Date;
+  completedAt?: Date;
+  result?: unknown;
+  error?: McpError;
+  toolName: string;
+  connectionStringHash?: string; // Hashed for security, not full string
+}
+
 export interface JobStatusResponse {
   status: "running" | "completed" | "failed" | "cancelled";
   job_id: string;
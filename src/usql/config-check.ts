@@ -0,0 +1,90 @@
+/**
+ * --check-config: load the configuration as the server would, try every connection
+ * (including its secret references) and report the result with secrets redacted.
+ */
+
+import { ConnectionConfig, UsqlConfig } from "../types/index.js";
+import {
+  findEnvironment,
+  getConfigErrors,
+  getConfigPath,
+  getEnvironmentNames,
+  loadConfig,
+  resetConfigCache,
+  resolveConnectionName,
+  resolveConnectionString,
+  runConfiguredSecretCommands,
+} from "./config.js";
+import { isSecretReferenceOnly, redactConnectionUri } from "./secrets.js";
+import { isSensitiveParam } from "../utils/error-handler.js";
+
+export interface ConfigCheckReport {
+  config_path: string;
+  valid: boolean;
+  errors: string[];
+  config: UsqlConfig;
+}
+
+function redactValue(value: string): string {
+  return isSecretReferenceOnly(value) ? value : "***";
+}
+
+function redactConnection(connection: ConnectionConfig): ConnectionConfig {
+  const redacted: ConnectionConfig = { ...connection, uri: redactConnectionUri(connection.uri) };
+  if (connection.password !== undefined) {
+    redacted.password = redactValue(connection.password);
+  }
+  if (connection.params) {
+    redacted.params = Object.fromEntries(
+      Object.entries(connection.params).map(([key, value]) => [
+        key,
+        isSensitiveParam(key) ? redactValue(String(value)) : value,
+      ])
+    );
+  }
+  return redacted;
+}
+
+export async function checkConfig(): Promise<ConfigCheckReport> {
+  resetConfigCache();
+  const config = loadConfig();
+  const errors = getConfigErrors();
+
+  // ${cmd:...} secrets must have run before their connections can be resolved
+  await runConfiguredSecretCommands();
+
+  for (const name of Object.keys(config.connections)) {
+    try {
+      resolveConnectionString(name);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  // An environment's defaultConnection must name a connection or alias
+  for (const environment of getEnvironmentNames()) {
+    if (!findEnvironment(environment)?.[1].defaultConnection) {
+      continue;
+    }
+    try {
+      resolveConnectionName(environment);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return {
+    config_path: getConfigPath(),
+    valid: errors.length === 0,
+    errors,
+    config: {
+      ...config,
+      connections: Object.fromEntries(
+        Object.entries(config.connections).map(([name, connection]) => [
+          name,
+          redactConnection(connection),
+        ])
+      ),
+    },
+  };
+}
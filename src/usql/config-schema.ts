@@ -0,0 +1,289 @@
+/**
+ * JSON Schema for config.json and a validator for the subset of JSON Schema it uses.
+ * config.schema.json at the package root is this schema, published for editor autocomplete;
+ * keep the two in sync (a unit test compares them).
+ */
+
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minimum?: number;
+  minLength?: number;
+}
+
+const CONNECTION_SCHEMA: JsonSchema = {
+  type: "object",
+  description:
+    "A database connection: either uri, or driver with host/port/database/user/password/params",
+  properties: {
+    uri: {
+      type: "string",
+      minLength: 1,
+      description:
+        "dburl, e.g. postgres://user:${env:PG_PASSWORD}@localhost:5432/app. Supports ${env:}, ${file:} and ${cmd:} secret references.",
+    },
+    description: { type: "string", description: "Shown to clients that list connections" },
+    environment: {
+      type: "string",
+      minLength: 1,
+      description: 'Environment the connection belongs to, e.g. "staging"; see environments',
+    },
+    tags: {
+      type: "array",
+      description: "Free-form labels reported by get_server_info",
+      items: { type: "string", minLength: 1 },
+    },
+    aliases: {
+      type: "array",
+      description: 'Other names accepted as connection_string, e.g. "prod"',
+      items: { type: "string", minLength: 1 },
+    },
+    driver: {
+      type: "string",
+      minLength: 1,
+      description: "dburl scheme: postgres, mysql, sqlserver, oracle, sqlite, ...",
+    },
+    host: { type: "string", description: "Host name or IP address" },
+    port: { type: ["integer", "string"], description: "TCP port" },
+    database: {
+      type: "string",
+      description: "Database name, or the file path for file-based drivers",
+    },
+    user: { type: "string" },
+    password: {
+      type: "string",
+      description: "Plain text or a secret reference such as ${env:PG_PASSWORD}",
+    },
+    params: {
+      type: "object",
+      description: 'Query parameters appended to the URI, e.g. { "sslmode": "require" }',
+      additionalProperties: { type: ["string", "number", "boolean"] },
+    },
+    readOnly: {
+      type: "boolean",
+      description:
+        "Reject statements that could modify data or schema (overrides defaults.readOnly)",
+    },
+    retry: {
+      type: "object",
+      description: "Retry transient failures (connection refused, deadlock, ...); off when omitted",
+      properties: {
+        maxAttempts: {
+          type: "integer",
+          minimum: 1,
+          description: "Including the first attempt; default 3",
+        },
+        initialDelayMs: { type: "number", minimum: 0, description: "Default 200" },
+        maxDelayMs: { type: "number", minimum: 0, description: "Default 5000" },
+        multiplier: { type: "number", minimum: 1, description: "Default 2" },
+        retryNonIdempotent: {
+          type: "boolean",
+          description: "Also retry statements that may write",
+        },
+      },
+      additionalProperties: false,
+    },
+    queryTimeout: {
+      type: ["integer", "null"],
+      minimum: 1,
+      description: "Milliseconds (overrides defaults.queryTimeout); null for unlimited",
+    },
+    maxResultRows: {
+      type: ["integer", "null"],
+      minimum: 1,
+      description: "Rows returned per call (overrides defaults.maxResultRows); null for no limit",
+    },
+    backgroundThresholdMs: {
+      type: "integer",
+      minimum: 0,
+      description: "Background job threshold (overrides defaults.backgroundThresholdMs)",
+    },
+  },
+  additionalProperties: false,
+};
+
+const ENVIRONMENT_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    description: { type: "string" },
+    defaultConnection: {
+      type: "string",
+      minLength: 1,
+      description: "Connection or alias used when connection_string names the environment",
+    },
+    production: {
+      type: "boolean",
+      description: "Flags its connections as production; default true for prod and production",
+    },
+  },
+  additionalProperties: false,
+};
+
+export const CONFIG_SCHEMA: JsonSchema = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  $id: "https://raw.githubusercontent.com/jvm/usql-mcp/main/config.schema.json",
+  title: "usql-mcp configuration",
+  type: "object",
+  properties: {
+    $schema: { type: "string" },
+    connections: {
+      type: "object",
+      description: "Named connections; names are matched case-insensitively",
+      additionalProperties: CONNECTION_SCHEMA,
+    },
+    environments: {
+      type: "object",
+      description: "Environments that connections can belong to, e.g. dev, staging, prod",
+      additionalProperties: ENVIRONMENT_SCHEMA,
+    },
+    defaults: {
+      type: "object",
+      properties: {
+        queryTimeout: {
+          type: ["integer", "null"],
+          minimum: 1,
+          description: "Default query timeout in milliseconds; null or omitted for unlimited",
+        },
+        maxResultRows: {
+          type: ["integer", "null"],
+          minimum: 1,
+          description: "Rows returned per call before truncating; default 10000",
+        },
+        defaultConnection: {
+          type: "string",
+          description: "Connection used when a tool call gives no connection_string",
+        },
+        backgroundThresholdMs: {
+          type: "integer",
+          minimum: 0,
+          description: "Calls running longer than this become background jobs; default 30000",
+        },
+        jobResultTtlMs: {
+          type: "integer",
+          minimum: 0,
+          description: "How long finished background jobs are kept; default 3600000",
+        },
+        readOnly: { type: "boolean", description: "Read-only default for every connection" },
+        jobStoreDir: {
+          type: "string",
+          description: "Directory in which background jobs are persisted across restarts",
+        },
+        sessionIdleTimeoutMs: {
+          type: "integer",
+          minimum: 1,
+          description: "Idle sessions are rolled back and closed after this; default 600000",
+        },
+        databaseInfoTtlMs: {
+          type: "integer",
+          minimum: 0,
+          description: "How long get_database_info results are cached; default 3600000, 0 disables",
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "object":
+      return typeOf(value) === "object";
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+function suggestProperty(name: string, known: string[]): string {
+  const lower = name.toLowerCase();
+  const best = known
+    .map((candidate) => ({ candidate, distance: editDistance(lower, candidate.toLowerCase()) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+  return best && best.distance <= 2 ? ` (did you mean "${best.candidate}"?)` : "";
+}
+
+function validateValue(value: unknown, schema: JsonSchema, path: string, errors: string[]): void {
+  const label = path || "(root)";
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push(`${label}: must be ${types.join(" or ")}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+  if (schema.minimum !== undefined && typeof value === "number" && value < schema.minimum) {
+    errors.push(`${label}: must be at least ${schema.minimum}`);
+  }
+  if (
+    schema.minLength !== undefined &&
+    typeof value === "string" &&
+    value.length < schema.minLength
+  ) {
+    errors.push(`${label}: must not be empty`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) =>
+      validateValue(item, schema.items as JsonSchema, `${path}[${index}]`, errors)
+    );
+  }
+  if (typeOf(value) !== "object") {
+    return;
+  }
+  const properties = schema.properties ?? {};
+  for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+    const childPath = path ? `${path}.${key}` : key;
+    if (properties[key]) {
+      validateValue(child, properties[key], childPath, errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push(`${childPath}: unknown property${suggestProperty(key, Object.keys(properties))}`);
+    } else if (typeof schema.additionalProperties === "object") {
+      validateValue(child, schema.additionalProperties, childPath, errors);
+    }
+  }
+}
+
+/**
+ * Validate parsed config.json content against CONFIG_SCHEMA. Returns one message per
+ * problem, prefixed with the path of the offending value (e.g. "defaults.queryTimeout").
+ */
+export function validateConfig(value: unknown): string[] {
+  const errors: string[] = [];
+  validateValue(value, CONFIG_SCHEMA, "", errors);
+  return errors;
+}
@@ -0,0 +1,78 @@
+/**
+ * Hot reload of config.json: watch the file and swap in the new configuration when its
+ * content changes. The directory is watched rather than the file, because editors often
+ * save by writing a new file and renaming it over the old one.
+ */
+
+import { watch, FSWatcher, readFileSync } from "fs";
+import { basename, dirname, resolve } from "path";
+import { UsqlConfig } from "../types/index.js";
+import { createLogger } from "../utils/logger.js";
+import { getConfigPath, loadConfig, reloadConfig } from "./config.js";
+
+const logger = createLogger("usql-mcp:config-watcher");
+
+const DEFAULT_DEBOUNCE_MS = 200;
+
+function readContent(path: string): string | undefined {
+  try {
+    return readFileSync(path, "utf-8");
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Watch the config file and call onReload with the new configuration after every
+ * successful reload. Returns a function that stops watching.
+ */
+export function watchConfigFile(
+  onReload: (config: UsqlConfig) => void,
+  debounceMs: number = DEFAULT_DEBOUNCE_MS
+): () => void {
+  const path = resolve(getConfigPath());
+  const fileName = basename(path);
+  let lastContent = readContent(path);
+  let timer: NodeJS.Timeout | undefined;
+
+  const reload = (): void => {
+    timer = undefined;
+    const content = readContent(path);
+    if (content === lastContent) {
+      return;
+    }
+    lastContent = content;
+
+    if (reloadConfig()) {
+      onReload(loadConfig());
+    }
+  };
+
+  let watcher: FSWatcher;
+  try {
+    watcher = watch(dirname(path), { persistent: false }, (_event, changed) => {
+      if (changed !== null && changed.toString() !== fileName) {
+        return;
+      }
+      // Editors write in several steps; reload once they are done
+      clearTimeout(timer);
+      timer = setTimeout(reload, debounceMs);
+    });
+  } catch (error) {
+    logger.warn(
+      "[config-watcher] Cannot watch config file; changes need a restart",
+      error instanceof Error ? error.message : String(error)
+    );
+    return () => undefined;
+  }
+
+  watcher.on("error", (error) => {
+    logger.warn("[config-watcher] Config watcher failed; changes need a restart", error.message);
+  });
+  logger.debug("[config-watcher] Watching config file", { path });
+
+  return () => {
+    clearTimeout(timer);
+    watcher.close();
+  };
+}
@@ -5,17 +5,123 @@
 
 import { readFileSync } from "fs";
 import { resolve } from "path";
-import { UsqlConfig, ConnectionConfig } from "../types/index.js";
+import { UsqlConfig, ConnectionConfig, EnvironmentConfig, RetryPolicy } from "../types/index.js";
 import { createLogger } from "../utils/logger.js";
+import { applyReadOnlySession, parseConnectionString } from "./connection.js";
+import { validateConfig } from "./config-schema.js";
+import {
+  clearSecretCache,
+  encodeAroundSecretReferences,
+  maskSecretReferences,
+  resolveSecretReferences,
+  runCommandSecrets,
+} from "./secrets.js";
 
 const logger = createLogger("usql-mcp:config");
 
 let cachedConfig: UsqlConfig | null = null;
+// Connections left out of the config because they are invalid, with the reason
+let invalidConnections = new Map<string, string>();
+// Why config.json was rejected, if it was
+let configFileErrors: string[] = [];
+// Whether the configuration in effect was read from config.json
+let configFileLoaded = false;
+// Lowercased alias -> lowercased name of the connection it stands for
+let connectionAliases = new Map<string, string>();
+
+interface LoadedConfig {
+  config: UsqlConfig;
+  invalidConnections: Map<string, string>;
+  fileErrors: string[];
+  fileLoaded: boolean;
+  aliases: Map<string, string>;
+}
+
+const STRUCTURED_FIELDS = [
+  "driver",
+  "host",
+  "port",
+  "database",
+  "user",
+  "password",
+  "params",
+] as const;
+
+// USQL_* environment variables that configure the server rather than define connections
+const RESERVED_ENV_KEYS = new Set([
+  "USQL_CONFIG_PATH",
+  "USQL_QUERY_TIMEOUT_MS",
+  "USQL_DEFAULT_CONNECTION",
+  "USQL_BINARY_PATH",
+  "USQL_BACKGROUND_THRESHOLD_MS",
+  "USQL_JOB_RESULT_TTL_MS",
+  "USQL_READ_ONLY",
+  "USQL_JOB_STORE_DIR",
+  "USQL_TRANSPORT",
+  "USQL_HTTP_HOST",
+  "USQL_HTTP_PORT",
+  "USQL_HTTP_PATH",
+  "USQL_HTTP_AUTH_TOKEN",
+  "USQL_HTTP_ALLOWED_HOSTS",
+  "USQL_HTTP_ALLOWED_ORIGINS",
+  "USQL_HTTP_SESSION_IDLE_TIMEOUT_MS",
+  "USQL_SESSION_IDLE_TIMEOUT_MS",
+  "USQL_DATABASE_INFO_TTL_MS",
+]);
 
 export function loadConfig(): UsqlConfig {
   if (cachedConfig) {
     return cachedConfig;
   }
+  return applyConfig(readConfig());
+}
+
+/**
+ * Re-read config.json and the environment and swap the result in as a whole. If the file
+ * has become invalid, unreadable or (after it was loaded) missing, the current
+ * configuration stays in effect and false is returned.
+ */
+export function reloadConfig(): boolean {
+  const loaded = readConfig();
+  const errors =
+    configFileLoaded && !loaded.fileLoaded && loaded.fileErrors.length === 0
+      ? [`${getConfigPath()}: config file is missing`]
+      : loaded.fileErrors;
+  if (cachedConfig && errors.length > 0) {
+    logger.warn("[config] Keeping the current configuration", errors);
+    return false;
+  }
+
+  applyConfig(loaded);
+  clearSecretCache();
+  logger.info("[config] Configuration reloaded", {
+    connections: Object.keys(loaded.config.connections).length,
+  });
+  return true;
+}
+
+/**
+ * Run the ${cmd:...} references of every configured connection, for checks that resolve
+ * all of them at once (--check-config)
+ */
+export async function runConfiguredSecretCommands(): Promise<void> {
+  const uris = Object.values(loadConfig().connections).map((connection) => connection.uri);
+  await runCommandSecrets(uris);
+}
+
+function applyConfig(loaded: LoadedConfig): UsqlConfig {
+  cachedConfig = loaded.config;
+  invalidConnections = loaded.invalidConnections;
+  configFileErrors = loaded.fileErrors;
+  configFileLoaded = loaded.fileLoaded;
+  connectionAliases = loaded.aliases;
+  return loaded.config;
+}
+
+function readConfig(): LoadedConfig {
+  const invalid = new Map<string, string>();
+  let fileErrors: string[] = [];
+  let fileLoaded = false;
 
   const config: UsqlConfig = {
     connections: {},
@@ -25,30 +131,51 @@ export function loadConfig(): UsqlConfig {
       defaultConnection: undefined,
       backgroundThresholdMs: 30000, // 30 seconds default
       jobResultTtlMs: 3600000, // 1 hour default
+      sessionIdleTimeoutMs: 600000, // 10 minutes default
+      databaseInfoTtlMs: 3600000, // 1 hour default
     },
   };
 
   // Load from config file if present
-  const configPath = process.env.USQL_CONFIG_PATH || "./config.json";
+  const configPath = getConfigPath();
   try {
     const fullPath = resolve(configPath);
     const content = readFileSync(fullPath, "utf-8");
     const fileConfig = JSON.parse(content) as UsqlConfig;
 
+    // A file with typos or wrong types is ignored as a whole rather than half-applied
+    const errors = validateConfig(fileConfig);
+    if (errors.length > 0) {
+      fileErrors = errors;
+      throw new Error(`Invalid config file ${configPath}:\n  ${errors.join("\n  ")}`);
+    }
+
     logger.debug("[config] Loaded config from file", { path: configPath });
+    fileLoaded = true;
 
     if (fileConfig.connections) {
-      config.connections = { ...config.connections, ...fileConfig.connections };
+      config.connections = {
+        ...config.connections,
+        ...normalizeConnections(fileConfig.connections, invalid),
+      };
     }
     if (fileConfig.defaults) {
       config.defaults = { ...config.defaults, ...fileConfig.defaults };
     }
+    if (fileConfig.environments) {
+      config.environments = fileConfig.environments;
+    }
   } catch (error) {
-    if (process.env.USQL_CONFIG_PATH) {
-      // Only warn if explicitly configured
-      logger.warn(
-        "[config] Could not load config file",
-        error instanceof Error ? error.message : String(error)
+    const message = error instanceof Error ? error.message : String(error);
+    // A missing ./config.json is normal; report only if explicitly configured or unreadable
+    const missing = (error as NodeJS.ErrnoException).code === "ENOENT";
+    if (process.env.USQL_CONFIG_PATH || !missing) {
+      if (fileErrors.length === 0) {
+        fileErrors = [`${configPath}: ${message}`];
+      }
+      logger.error(
+        "[config] Config file ignored; using environment connections and defaults only",
+        message
       );
     } else {
       logger.debug("[config] Config file not found (using defaults)");
@@ -58,16 +185,7 @@ export function loadConfig(): UsqlConfig {
   // Load from environment variables
   // USQL_* env vars are added as connections
   for (const [key, value] of Object.entries(process.env)) {
-    if (
-      key.startsWith("USQL_") &&
-      key !== "USQL_CONFIG_PATH" &&
-      key !== "USQL_QUERY_TIMEOUT_MS" &&
-      key !== "USQL_DEFAULT_CONNECTION" &&
-      key !== "USQL_BINARY_PATH" &&
-      key !== "USQL_BACKGROUND_THRESHOLD_MS" &&
-      key !== "USQL_JOB_RESULT_TTL_MS" &&
-      value
-    ) {
+    if (key.startsWith("USQL_") && !RESERVED_ENV_KEYS.has(key) && value) {
       const connectionName = key.substring(5).toLowerCase();
       config.connections[connectionName] = {
         uri: value,
@@ -110,14 +228,334 @@ export function loadConfig(): UsqlConfig {
     }
   }
 
-  cachedConfig = config;
+  if (process.env.USQL_READ_ONLY) {
+    const readOnly = ["1", "true", "yes", "on"].includes(process.env.USQL_READ_ONLY.trim().toLowerCase());
+    if (config.defaults) {
+      config.defaults.readOnly = readOnly;
+      logger.debug("[config] Set read-only default from env var", { readOnly });
+    }
+  }
+
+  if (process.env.USQL_SESSION_IDLE_TIMEOUT_MS) {
+    const idleTimeout = parseInt(process.env.USQL_SESSION_IDLE_TIMEOUT_MS, 10);
+    if (!isNaN(idleTimeout) && config.defaults) {
+      config.defaults.sessionIdleTimeoutMs = idleTimeout;
+      logger.debug("[config] Set session idle timeout from env var", { idleTimeout });
+    }
+  }
+
+  if (process.env.USQL_DATABASE_INFO_TTL_MS) {
+    const infoTtl = parseInt(process.env.USQL_DATABASE_INFO_TTL_MS, 10);
+    if (!isNaN(infoTtl) && config.defaults) {
+      config.defaults.databaseInfoTtlMs = infoTtl;
+      logger.debug("[config] Set database info TTL from env var", { infoTtl });
+    }
+  }
+
+  if (process.env.USQL_JOB_STORE_DIR) {
+    const jobStoreDir = process.env.USQL_JOB_STORE_DIR.trim();
+    if (config.defaults) {
+      config.defaults.jobStoreDir = jobStoreDir;
+      logger.debug("[config] Set job store directory from env var", { jobStoreDir });
+    }
+  }
+
+  const aliases = collectAliases(config, invalid);
+
   logger.debug("[config] Config loaded", {
     connections: Object.keys(config.connections).length,
+    aliases: aliases.size,
     queryTimeout: config.defaults?.queryTimeout,
     defaultConnection: config.defaults?.defaultConnection,
   });
 
-  return config;
+  return { config, invalidConnections: invalid, fileErrors, fileLoaded, aliases };
+}
+
+/**
+ * Map every alias to its connection. An alias that shadows a connection name or is
+ * claimed twice is dropped, and one that is still looked up reports why.
+ */
+function collectAliases(config: UsqlConfig, invalid: Map<string, string>): Map<string, string> {
+  const aliases = new Map<string, string>();
+  const conflicts = new Set<string>();
+
+  const reject = (alias: string, message: string): void => {
+    conflicts.add(alias);
+    aliases.delete(alias);
+    invalid.set(alias, message);
+    logger.warn("[config] Ignoring connection alias", message);
+  };
+
+  for (const [name, connection] of Object.entries(config.connections)) {
+    for (const rawAlias of connection.aliases ?? []) {
+      const alias = rawAlias.trim().toLowerCase();
+      const owner = aliases.get(alias);
+      if (conflicts.has(alias) || alias === name.toLowerCase()) {
+        continue;
+      }
+      if (config.connections[alias]) {
+        reject(alias, `Alias "${alias}" of connection "${name}" is already a connection name`);
+      } else if (owner && owner !== name.toLowerCase()) {
+        reject(alias, `Alias "${alias}" is claimed by connections "${owner}" and "${name}"`);
+      } else {
+        aliases.set(alias, name.toLowerCase());
+      }
+    }
+  }
+
+  return aliases;
+}
+
+/**
+ * Assemble the dburl for a connection given as driver, host, port, database, user,
+ * password and params. Each part is percent-encoded (secret references are kept as-is for
+ * resolveConnectionString). Throws an error naming the offending field.
+ */
+export function buildConnectionUri(name: string, connection: Partial<ConnectionConfig>): string {
+  const fail = (field: string, problem: string): never => {
+    throw new Error(`Connection "${name}": ${field} ${problem}`);
+  };
+  const { driver, host, port, database, user, password, params } = connection;
+
+  if (typeof driver !== "string" || !/^[a-z0-9]+$/i.test(driver)) {
+    fail(
+      "driver",
+      "is required and must be a dburl scheme such as postgres, mysql, sqlserver or sqlite"
+    );
+  }
+  for (const [field, value] of Object.entries({ host, database, user, password })) {
+    if (value !== undefined && typeof value !== "string") {
+      fail(field, "must be a string");
+    }
+  }
+  if (host !== undefined && /[/?#@]/.test(maskSecretReferences(host))) {
+    fail("host", "must be a host name or IP address without user, path or parameters");
+  }
+  if (port !== undefined) {
+    const number = typeof port === "string" && port.trim() !== "" ? Number(port) : port;
+    if (typeof number !== "number" || !Number.isInteger(number) || number < 1 || number > 65535) {
+      fail("port", "must be an integer between 1 and 65535");
+    }
+    if (!host) {
+      fail("port", "requires host");
+    }
+  }
+  if (password !== undefined && user === undefined) {
+    fail("password", "requires user");
+  }
+  if (!host && !database) {
+    fail("host", "or database is required");
+  }
+  if (
+    params !== undefined &&
+    (typeof params !== "object" || params === null || Array.isArray(params))
+  ) {
+    fail("params", "must be an object of parameter names and values");
+  }
+  for (const [key, value] of Object.entries(params ?? {})) {
+    if (!["string", "number", "boolean"].includes(typeof value)) {
+      fail(`params.${key}`, "must be a string, number or boolean");
+    }
+  }
+
+  const encode = (value: string): string => encodeAroundSecretReferences(value, encodeURIComponent);
+  const credentials = password === undefined ? "" : `:${encode(password)}`;
+  const userInfo = user === undefined ? "" : `${encode(user)}${credentials}@`;
+  // IPv6 literals need brackets; the ":" of a ${env:...} reference does not count
+  const ipv6 =
+    host !== undefined && maskSecretReferences(host).includes(":") && !host.startsWith("[");
+  const hostPart = ipv6 ? `[${host}]` : host ?? "";
+  const portPart = port !== undefined ? `:${Number(port)}` : "";
+  // File paths keep their "/" separators; "./app.db" becomes sqlite:///./app.db
+  const path = database
+    ? (database.startsWith("/") ? database : `/${database}`).split("/").map(encode).join("/")
+    : "";
+  const query = Object.entries(params ?? {})
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encode(String(value))}`)
+    .join("&");
+  const scheme = (driver as string).toLowerCase();
+  const uri = `${scheme}://${userInfo}${hostPart}${portPart}${path}${query ? `?${query}` : ""}`;
+
+  try {
+    parseConnectionString(maskSecretReferences(uri));
+  } catch (error) {
+    fail("driver", `is invalid: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return uri;
+}
+
+/**
+ * Give every connection from config.json a uri, assembling it from the structured fields
+ * where needed. Invalid entries are left out and reported when they are used.
+ */
+function normalizeConnections(
+  connections: Record<string, Partial<ConnectionConfig>>,
+  invalid: Map<string, string>
+): Record<string, ConnectionConfig> {
+  const normalized: Record<string, ConnectionConfig> = {};
+
+  for (const [name, connection] of Object.entries(connections)) {
+    try {
+      if (!connection || typeof connection !== "object") {
+        throw new Error(`Connection "${name}": must be an object with uri or driver`);
+      }
+      const structuredFields = STRUCTURED_FIELDS.filter((field) => connection[field] !== undefined);
+      if (structuredFields.length === 0) {
+        if (typeof connection.uri !== "string" || connection.uri.trim() === "") {
+          throw new Error(
+            `Connection "${name}": uri is required unless driver, host, database, ... are given`
+          );
+        }
+        normalized[name] = connection as ConnectionConfig;
+        continue;
+      }
+      if (connection.uri !== undefined) {
+        throw new Error(
+          `Connection "${name}": uri cannot be combined with ${structuredFields.join(", ")}`
+        );
+      }
+      normalized[name] = { ...connection, uri: buildConnectionUri(name, connection) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      invalid.set(name.toLowerCase(), message);
+      logger.warn("[config] Ignoring invalid connection", message);
+    }
+  }
+
+  return normalized;
+}
+
+export function getConfigPath(): string {
+  return process.env.USQL_CONFIG_PATH || "./config.json";
+}
+
+/**
+ * Problems found while loading: why config.json was ignored, and which connections were
+ * left out. Empty when the configuration loaded cleanly.
+ */
+export function getConfigErrors(): string[] {
+  loadConfig();
+  return [...configFileErrors, ...invalidConnections.values()];
+}
+
+/**
+ * Environment entry by name, declared in environments or only named by a connection
+ */
+export function findEnvironment(name: string): [string, EnvironmentConfig] | undefined {
+  const config = loadConfig();
+  const key = name.trim().toLowerCase();
+  const declared = Object.entries(config.environments ?? {}).find(
+    ([environment]) => environment.toLowerCase() === key
+  );
+  if (declared) {
+    return declared;
+  }
+  const used = Object.values(config.connections).some(
+    (connection) => connection.environment?.trim().toLowerCase() === key
+  );
+  return used ? [key, {}] : undefined;
+}
+
+/**
+ * Declared environments and those only named by a connection, sorted
+ */
+export function getEnvironmentNames(): string[] {
+  const config = loadConfig();
+  const names = new Map<string, string>();
+  for (const name of Object.keys(config.environments ?? {})) {
+    names.set(name.toLowerCase(), name);
+  }
+  for (const connection of Object.values(config.connections)) {
+    const environment = connection.environment?.trim();
+    if (environment && !names.has(environment.toLowerCase())) {
+      names.set(environment.toLowerCase(), environment.toLowerCase());
+    }
+  }
+  return Array.from(names.values()).sort();
+}
+
+/**
+ * Names of the connections in an environment, sorted
+ */
+export function getEnvironmentConnections(environment: string): string[] {
+  const config = loadConfig();
+  const key = environment.trim().toLowerCase();
+  return Object.keys(config.connections)
+    .filter((name) => config.connections[name].environment?.trim().toLowerCase() === key)
+    .sort();
+}
+
+/**
+ * Connection an environment name stands for: its defaultConnection, or its only connection
+ */
+function resolveEnvironmentConnection(environment: string): string {
+  const found = findEnvironment(environment);
+  if (!found) {
+    throw new Error(`Environment not found: ${environment}`);
+  }
+  const [name, settings] = found;
+
+  if (settings.defaultConnection) {
+    const target = settings.defaultConnection.trim().toLowerCase();
+    const resolved = loadConfig().connections[target] ? target : connectionAliases.get(target);
+    if (!resolved) {
+      throw new Error(
+        `Environment "${name}": defaultConnection "${settings.defaultConnection}" is not a configured connection or alias`
+      );
+    }
+    return resolved;
+  }
+
+  const connections = getEnvironmentConnections(name);
+  if (connections.length !== 1) {
+    throw new Error(
+      connections.length === 0
+        ? `Environment "${name}" has no connections`
+        : `Environment "${name}" has several connections (${connections.join(", ")}). Pass one of them or set environments.${name}.defaultConnection.`
+    );
+  }
+  return connections[0].toLowerCase();
+}
+
+/**
+ * Configured connection name behind a connection name, alias or environment name.
+ * Names win over aliases, and aliases over environments. Returns undefined when nothing
+ * matches; throws when an environment cannot be narrowed down to one connection.
+ */
+export function resolveConnectionName(nameOrAlias: string): string | undefined {
+  const config = loadConfig();
+  const key = nameOrAlias.trim().toLowerCase();
+  if (config.connections[key]) {
+    return key;
+  }
+  const aliased = connectionAliases.get(key);
+  if (aliased) {
+    return aliased;
+  }
+  return findEnvironment(key) ? resolveEnvironmentConnection(key) : undefined;
+}
+
+/**
+ * Aliases with the connection each one stands for
+ */
+export function getConnectionAliases(): Record<string, string> {
+  loadConfig();
+  return Object.fromEntries(connectionAliases);
+}
+
+/**
+ * Whether an environment is production: flagged production: true, or named prod or
+ * production unless flagged false
+ */
+export function isProductionEnvironment(environment: string): boolean {
+  const [name, settings] = findEnvironment(environment) ?? [environment.trim(), {}];
+  return settings.production ?? /^prod(uction)?$/i.test(name);
+}
+
+export function isProductionConnection(nameOrUri?: string): boolean {
+  const environment = findConnectionConfig(nameOrUri)?.environment;
+  return environment ? isProductionEnvironment(environment) : false;
 }
 
 export function getConnection(nameOrUri: string): ConnectionConfig | null {
@@ -128,24 +566,100 @@ export function getConnection(nameOrUri: string): ConnectionConfig | null {
     return { uri: nameOrUri };
   }
 
-  // Otherwise, look it up by name
-  const connection = config.connections[nameOrUri.toLowerCase()];
-  return connection || null;
+  // Otherwise, look it up by name, alias or environment
+  const name = resolveConnectionName(nameOrUri);
+  return name ? config.connections[name] ?? null : null;
 }
 
+/**
+ * URI to hand to usql. Secret references (${env:...}, ${file:...}, ${cmd:...}) are resolved
+ * here, on use, and only for configured connections: a URI passed in by a tool caller is
+ * used verbatim so that callers cannot read files or run commands through it. Read-only
+ * connections also get the driver's read-only session parameter, where it has one.
+ */
 export function resolveConnectionString(nameOrUri: string): string {
   const connection = getConnection(nameOrUri);
+  const invalid = invalidConnections.get(nameOrUri.toLowerCase());
+  if (!connection && invalid) {
+    throw new Error(`Invalid connection configuration. ${invalid}`);
+  }
   if (!connection) {
     throw new Error(
       `Connection not found: ${nameOrUri}. Available connections: ${Object.keys(loadConfig().connections).join(", ")}`
     );
   }
-  return connection.uri;
+  const uri = nameOrUri.includes("://")
+    ? connection.uri
+    : resolveSecretReferences(connection.uri, resolveConnectionName(nameOrUri));
+  return isReadOnlyConnection(nameOrUri) ? applyReadOnlySession(uri) : uri;
+}
+
+/**
+ * Find the configured entry behind a tool's connection_string input: a connection name,
+ * a URI that matches a configured connection, or the default connection when omitted.
+ */
+function findConnectionConfig(nameOrUri?: string): ConnectionConfig | null {
+  const config = loadConfig();
+  const target =
+    nameOrUri && nameOrUri.trim().length > 0 ? nameOrUri.trim() : getDefaultConnectionName();
+  if (!target) {
+    return null;
+  }
+
+  if (target.includes("://")) {
+    return Object.values(config.connections).find((connection) => connection.uri === target) ?? null;
+  }
+
+  try {
+    const name = resolveConnectionName(target);
+    return name ? config.connections[name] ?? null : null;
+  } catch {
+    // An ambiguous environment; resolving the connection reports it
+    return null;
+  }
+}
+
+/**
+ * Whether statements that modify data or schema must be rejected for this connection.
+ * Connection-level readOnly wins over defaults.readOnly.
+ */
+export function isReadOnlyConnection(nameOrUri?: string): boolean {
+  const config = loadConfig();
+  const connection = findConnectionConfig(nameOrUri);
+  return connection?.readOnly ?? config.defaults?.readOnly ?? false;
+}
+
+/**
+ * Retry policy for transient failures on this connection; undefined when none is configured
+ */
+export function getRetryPolicy(nameOrUri?: string): RetryPolicy | undefined {
+  return findConnectionConfig(nameOrUri)?.retry ?? undefined;
+}
+
+/**
+ * Query timeout for this connection: its own queryTimeout, else defaults.queryTimeout.
+ * undefined means unlimited; a connection can lift the global timeout with null. Without a
+ * connection the default connection's applies.
+ */
+export function getQueryTimeout(nameOrUri?: string): number | undefined {
+  const config = loadConfig();
+  const connection = findConnectionConfig(nameOrUri);
+  if (connection?.queryTimeout !== undefined) {
+    return connection.queryTimeout ?? undefined;
+  }
+  return config.defaults?.queryTimeout ?? undefined;
 }
 
-export function getQueryTimeout(): number | undefined {
+/**
+ * Row cap for this connection: its own maxResultRows, else defaults.maxResultRows
+ */
+export function getMaxResultRows(nameOrUri?: string): number | undefined {
   const config = loadConfig();
-  return config.defaults?.queryTimeout;
+  const connection = findConnectionConfig(nameOrUri);
+  if (connection?.maxResultRows !== undefined) {
+    return connection.maxResultRows ?? undefined;
+  }
+  return config.defaults?.maxResultRows ?? undefined;
 }
 
 export function getDefaultConnectionName(): string | undefined {
@@ -153,7 +667,32 @@ export function getDefaultConnectionName(): string | undefined {
   return config.defaults?.defaultConnection;
 }
 
-export function getBackgroundThresholdMs(): number {
+/**
+ * Global query timeout from defaults.queryTimeout, ignoring any connection's override
+ */
+export function getDefaultQueryTimeout(): number | undefined {
+  const config = loadConfig();
+  return config.defaults?.queryTimeout ?? undefined;
+}
+
+/**
+ * Background threshold for this connection: its own backgroundThresholdMs, else
+ * defaults.backgroundThresholdMs. Without a connection the default connection's applies.
+ */
+export function getBackgroundThresholdMs(nameOrUri?: string): number {
+  const config = loadConfig();
+  return (
+    findConnectionConfig(nameOrUri)?.backgroundThresholdMs ??
+    config.defaults?.backgroundThresholdMs ??
+    30000
+  );
+}
+
+/**
+ * Global background threshold from defaults.backgroundThresholdMs, ignoring any connection's
+ * override
+ */
+export function getDefaultBackgroundThresholdMs(): number {
   const config = loadConfig();
   return config.defaults?.backgroundThresholdMs ?? 30000;
 }
@@ -163,8 +702,35 @@ export function getJobResultTtlMs(): number {
   return config.defaults?.jobResultTtlMs ?? 3600000;
 }
 
-export function resolveConnectionStringOrDefault(nameOrUri?: string): string {
+export function getSessionIdleTimeoutMs(): number {
+  const config = loadConfig();
+  return config.defaults?.sessionIdleTimeoutMs ?? 600000;
+}
+
+/**
+ * How long detected engine versions and features are cached per connection; 0 disables it
+ */
+export function getDatabaseInfoTtlMs(): number {
+  const config = loadConfig();
+  return config.defaults?.databaseInfoTtlMs ?? 3600000;
+}
+
+/**
+ * Directory for persisted background jobs; undefined keeps jobs in memory only
+ */
+export function getJobStoreDir(): string | undefined {
+  const config = loadConfig();
+  const dir = config.defaults?.jobStoreDir;
+  return dir && dir.trim().length > 0 ? dir : undefined;
+}
+
+/**
+ * Resolve a tool's connection_string, or the default connection when it is omitted. The
+ * connection's ${cmd:...} secrets are run first unless their output is still cached.
+ */
+export async function resolveConnectionStringOrDefault(nameOrUri?: string): Promise<string> {
   if (nameOrUri && typeof nameOrUri === "string" && nameOrUri.trim().length > 0) {
+    await runConnectionSecretCommands(nameOrUri);
     return resolveConnectionString(nameOrUri);
   }
 
@@ -181,10 +747,33 @@ export function resolveConnectionStringOrDefault(nameOrUri?: string): string {
     );
   }
 
+  await runConnectionSecretCommands(defaultConnection);
   return resolveConnectionString(defaultConnection);
 }
 
+async function runConnectionSecretCommands(nameOrUri: string): Promise<void> {
+  // A URI passed directly is used verbatim
+  if (nameOrUri.includes("://")) {
+    return;
+  }
+  let connection: ConnectionConfig | null;
+  try {
+    connection = getConnection(nameOrUri);
+  } catch {
+    // An unknown or ambiguous name; resolving the connection reports it
+    return;
+  }
+  if (connection) {
+    await runCommandSecrets([connection.uri]);
+  }
+}
+
 // Test-only helper to clear cached configuration
 export function resetConfigCache(): void {
   cachedConfig = null;
+  invalidConnections = new Map();
+  configFileErrors = [];
+  configFileLoaded = false;
+  connectionAliases = new Map();
+  clearSecretCache();
 }
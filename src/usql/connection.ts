@@ -4,7 +4,7 @@
  */
 
 import { createLogger } from "../utils/logger.js";
-import { createUsqlError } from "../utils/error-handler.js";
+import { createUsqlError, sanitizeConnectionString } from "../utils/error-handler.js";
 
 const logger = createLogger("usql-mcp:connection");
 
@@ -45,18 +45,21 @@ const SUPPORTED_SCHEMES = new Set([
 ]);
 
 export function parseConnectionString(uri: string): ParsedConnection {
-  logger.debug("[connection] Parsing connection string", { uri });
-
   if (!uri || typeof uri !== "string") {
     throw createUsqlError("InvalidConnection", "Connection string must be a non-empty string");
   }
 
+  logger.debug("[connection] Parsing connection string", { uri: sanitizeConnectionString(uri) });
+
   // Parse basic URI structure
   const uriRegex = /^([a-z0-9]+):\/\/(.*)$/i;
   const match = uri.match(uriRegex);
 
   if (!match) {
-    throw createUsqlError("InvalidConnection", `Invalid connection string format: ${uri}`);
+    throw createUsqlError(
+      "InvalidConnection",
+      `Invalid connection string format: ${sanitizeConnectionString(uri)}`
+    );
   }
 
   const scheme = match[1].toLowerCase();
@@ -183,6 +186,91 @@ function getDriver(scheme: string): string {
   return driverMap[scheme] || scheme;
 }
 
+/**
+ * How a tool's database argument is applied per driver:
+ * - path:  the dburl path names the database; replace it (postgres, mysql, clickhouse, ...)
+ * - query: the database is a query parameter (sqlserver://host/instance?database=db)
+ * - schema: anything else (oracle, sqlite, duckdb, ...) keeps the URI and qualifies
+ *           \dt / \d patterns with the name as a schema
+ */
+const DATABASE_PATH_DRIVERS = new Set(["postgres", "mysql", "clickhouse", "cassandra", "mongo"]);
+const DATABASE_QUERY_DRIVERS = new Set(["mssql"]);
+const DATABASE_NAME_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9_$-]*$/;
+
+export interface DatabaseTarget {
+  connectionString: string;
+  schema?: string;
+}
+
+/**
+ * Point a connection at a sibling database, or return the schema to qualify patterns
+ * with when the driver has no per-connection database to switch.
+ */
+export function applyDatabaseArgument(uri: string, database: string): DatabaseTarget {
+  const name = database.trim();
+  if (!DATABASE_NAME_PATTERN.test(name)) {
+    throw createUsqlError(
+      "InvalidInput",
+      `Invalid database name: ${database}. Use letters, digits, "_", "$" or "-".`
+    );
+  }
+
+  const parsed = parseConnectionString(uri);
+  const match = /^([a-z0-9]+:\/\/[^/?#]*)(\/[^?#]*)?(\?[^#]*)?(#.*)?$/i.exec(uri);
+
+  if (match && DATABASE_PATH_DRIVERS.has(parsed.driver)) {
+    const [, base, , query = "", fragment = ""] = match;
+    logger.debug("[connection] Replacing database in connection path", { driver: parsed.driver, database: name });
+    return { connectionString: `${base}/${name}${query}${fragment}` };
+  }
+
+  if (match && DATABASE_QUERY_DRIVERS.has(parsed.driver)) {
+    const [, base, path = "", query = "", fragment = ""] = match;
+    const params = query
+      .replace(/^\?/, "")
+      .split("&")
+      .filter((param) => param.length > 0 && param.split("=")[0].toLowerCase() !== "database");
+    params.push(`database=${name}`);
+    logger.debug("[connection] Setting database query parameter", { driver: parsed.driver, database: name });
+    return { connectionString: `${base}${path}?${params.join("&")}${fragment}` };
+  }
+
+  logger.debug("[connection] Using database argument as schema", { driver: parsed.driver, schema: name });
+  return { connectionString: uri, schema: name };
+}
+
+/**
+ * Startup parameters that make the server itself refuse writes for the whole session.
+ * The statement classifier cannot see what a function or procedure does, so read-only
+ * connections on these drivers are guarded by both.
+ */
+const READ_ONLY_SESSION_PARAMS: Record<string, [string, string]> = {
+  postgres: ["default_transaction_read_only", "on"],
+};
+
+/**
+ * Add the driver's read-only session parameter to a URI, replacing any value it
+ * already has. URIs for other drivers are returned unchanged.
+ */
+export function applyReadOnlySession(uri: string): string {
+  const match = /^([a-z0-9]+:\/\/[^?#]*)(\?[^#]*)?(#.*)?$/i.exec(uri);
+  const setting = validateConnectionString(uri)
+    ? READ_ONLY_SESSION_PARAMS[parseConnectionString(uri).driver]
+    : undefined;
+  if (!match || !setting) {
+    return uri;
+  }
+
+  const [name, value] = setting;
+  const [, base, query = "", fragment = ""] = match;
+  const params = query
+    .replace(/^\?/, "")
+    .split("&")
+    .filter((param) => param.length > 0 && param.split("=")[0].toLowerCase() !== name);
+  params.push(`${name}=${value}`);
+  return `${base}?${params.join("&")}${fragment}`;
+}
+
 export function validateConnectionString(uri: string): boolean {
   try {
     parseConnectionString(uri);
@@ -0,0 +1,236 @@
+/**
+ * Engine, version and capabilities of a database: the detection query for each driver,
+ * the feature flags that follow from the engine version, and a per-connection cache so
+ * that tools can consult them without another round trip.
+ */
+
+import { createHash } from "crypto";
+import { DatabaseFeatures, DatabaseInfo } from "../types/index.js";
+import { createLogger } from "../utils/logger.js";
+import { parseFirstRow, toText } from "./introspection.js";
+
+const logger = createLogger("usql-mcp:database-info");
+
+type Feature = keyof DatabaseFeatures;
+
+// Oldest version with each feature; true for every version, false for none
+type FeatureSupport = Record<Feature, string | boolean>;
+
+const FEATURE_SUPPORT: Record<string, FeatureSupport> = {
+  postgresql: { cte: "8.4", returning: "8.2", window_functions: "8.4", json_operators: "9.3" },
+  cockroachdb: { cte: true, returning: true, window_functions: true, json_operators: true },
+  mysql: { cte: "8.0", returning: false, window_functions: "8.0", json_operators: "5.7.9" },
+  mariadb: { cte: "10.2.1", returning: "10.5", window_functions: "10.2", json_operators: false },
+  // OUTPUT and JSON_VALUE exist, but not RETURNING or JSON operators
+  sqlserver: { cte: "9.0", returning: false, window_functions: "11.0", json_operators: false },
+  oracle: { cte: "9.2", returning: "23", window_functions: true, json_operators: "12.2" },
+  sqlite: { cte: "3.8.3", returning: "3.35", window_functions: "3.25", json_operators: "3.38" },
+  duckdb: { cte: true, returning: true, window_functions: true, json_operators: true },
+  clickhouse: { cte: true, returning: false, window_functions: "21.9", json_operators: false },
+};
+
+// One row of server_version (numeric when the engine offers it), db_version (the banner),
+// default_schema, db_collation and db_timezone; columns the engine lacks are left out
+const DETECTION_QUERIES: Record<string, string> = {
+  postgres:
+    "SELECT current_setting('server_version') AS server_version, version() AS db_version, " +
+    "current_schema() AS default_schema, " +
+    "(SELECT datcollate FROM pg_database WHERE datname = current_database()) AS db_collation, " +
+    "current_setting('TimeZone') AS db_timezone",
+  mysql:
+    "SELECT VERSION() AS server_version, DATABASE() AS default_schema, " +
+    "@@collation_database AS db_collation, " +
+    "IF(@@time_zone = 'SYSTEM', @@system_time_zone, @@time_zone) AS db_timezone",
+  mssql:
+    "SELECT CAST(SERVERPROPERTY('ProductVersion') AS varchar(128)) AS server_version, " +
+    "@@VERSION AS db_version, SCHEMA_NAME() AS default_schema, " +
+    "CAST(DATABASEPROPERTYEX(DB_NAME(), 'Collation') AS varchar(128)) AS db_collation, " +
+    "DATENAME(TZOFFSET, SYSDATETIMEOFFSET()) AS db_timezone",
+  oracle:
+    "SELECT (SELECT version FROM product_component_version " +
+    "WHERE product LIKE 'Oracle%' AND ROWNUM = 1) AS server_version, " +
+    "SYS_CONTEXT('USERENV', 'CURRENT_SCHEMA') AS default_schema, " +
+    "(SELECT value FROM nls_session_parameters WHERE parameter = 'NLS_SORT') AS db_collation, " +
+    "SESSIONTIMEZONE AS db_timezone FROM DUAL",
+  sqlite3: "SELECT sqlite_version() AS server_version, 'main' AS default_schema",
+  duckdb: "SELECT version() AS server_version, current_schema() AS default_schema",
+  clickhouse:
+    "SELECT version() AS server_version, currentDatabase() AS default_schema, " +
+    "timezone() AS db_timezone",
+};
+
+const ENGINES: Record<string, string> = {
+  postgres: "postgresql",
+  mysql: "mysql",
+  mssql: "sqlserver",
+  oracle: "oracle",
+  sqlite3: "sqlite",
+  duckdb: "duckdb",
+  clickhouse: "clickhouse",
+};
+
+const VERSION_NUMBER = /\d+(?:\.\d+)*/;
+
+interface CacheEntry {
+  info: DatabaseInfo;
+  expiresAt: number;
+}
+
+// Keyed by a hash of the resolved connection string, so the cache holds no credentials
+const cache = new Map<string, CacheEntry>();
+const MAX_CACHE_ENTRIES = 256;
+
+function cacheKey(connectionString: string): string {
+  return createHash("sha256").update(connectionString).digest("hex");
+}
+
+/**
+ * Query that detects the engine for this driver, or undefined when there is none
+ */
+export function buildDetectionQuery(driver: string): string | undefined {
+  return DETECTION_QUERIES[driver];
+}
+
+/**
+ * Compare dotted version numbers; missing parts count as 0 ("8" equals "8.0.0")
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split(".").map(Number);
+  const right = b.split(".").map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] ?? 0) - (right[i] ?? 0);
+    if (difference !== 0) {
+      return Math.sign(difference);
+    }
+  }
+  return 0;
+}
+
+/**
+ * Feature flags of an engine version. Unknown engines, and versions that could not be
+ * read where support depends on them, give null.
+ */
+export function detectFeatures(engine: string, version?: string): DatabaseFeatures {
+  const support = FEATURE_SUPPORT[engine];
+  const flag = (feature: Feature): boolean | null => {
+    const minimum = support?.[feature];
+    if (minimum === undefined) {
+      return null;
+    }
+    if (typeof minimum === "boolean") {
+      return minimum;
+    }
+    return version ? compareVersions(version, minimum) >= 0 : null;
+  };
+  return {
+    cte: flag("cte"),
+    returning: flag("returning"),
+    window_functions: flag("window_functions"),
+    json_operators: flag("json_operators"),
+  };
+}
+
+/**
+ * Build the DatabaseInfo for a driver from the output of its detection query. Forks that
+ * share a driver (CockroachDB, MariaDB) are told apart by their version banner.
+ */
+export function parseDatabaseInfo(stdout: string, driver: string): DatabaseInfo {
+  const row = parseFirstRow(stdout) ?? {};
+  const serverVersion = toText(row.server_version);
+  const banner = toText(row.db_version);
+  const versionString = banner ?? serverVersion;
+
+  let engine = ENGINES[driver] ?? driver;
+  let version = (serverVersion ?? banner)?.match(VERSION_NUMBER)?.[0];
+  if (driver === "postgres" && banner && /cockroachdb/i.test(banner)) {
+    // server_version is the PostgreSQL version CockroachDB emulates
+    engine = "cockroachdb";
+    version = banner.match(/cockroachdb\D*(\d+(?:\.\d+)*)/i)?.[1];
+  } else if (driver === "mysql" && serverVersion && /mariadb/i.test(serverVersion)) {
+    engine = "mariadb";
+  }
+
+  const defaultSchema = toText(row.default_schema);
+  const collation = toText(row.db_collation);
+  const timezone = toText(row.db_timezone);
+  const info: DatabaseInfo = {
+    driver,
+    engine,
+    ...(version ? { version } : {}),
+    ...(versionString ? { version_string: versionString } : {}),
+    ...(defaultSchema ? { default_schema: defaultSchema } : {}),
+    ...(collation ? { collation } : {}),
+    ...(timezone ? { timezone } : {}),
+    features: detectFeatures(engine, version),
+    detected_at: new Date().toISOString(),
+    cached: false,
+  };
+
+  logger.debug("[database-info] Detected database", { driver, engine, version });
+  return info;
+}
+
+/**
+ * Cached info for a resolved connection string, if it has not expired
+ */
+export function getCachedDatabaseInfo(connectionString: string): DatabaseInfo | undefined {
+  const key = cacheKey(connectionString);
+  const entry = cache.get(key);
+  if (!entry) {
+    return undefined;
+  }
+  if (entry.expiresAt <= Date.now()) {
+    cache.delete(key);
+    return undefined;
+  }
+  return { ...entry.info, cached: true };
+}
+
+/**
+ * Engine and version for error details, when get_database_info has cached them, so that a
+ * syntax error can be told apart from a feature the server version lacks
+ */
+export function cachedEngineDetails(connectionString: string): {
+  engine?: string;
+  engine_version?: string;
+} {
+  const info = getCachedDatabaseInfo(connectionString);
+  if (!info) {
+    return {};
+  }
+  return info.version ? { engine: info.engine, engine_version: info.version } : { engine: info.engine };
+}
+
+/**
+ * Keep info for ttlMs; a TTL of 0 disables caching. Expired entries are dropped on every
+ * write, and the oldest entries once the cache is full.
+ */
+export function cacheDatabaseInfo(connectionString: string, info: DatabaseInfo, ttlMs: number): void {
+  if (ttlMs <= 0) {
+    return;
+  }
+  const now = Date.now();
+  for (const [key, entry] of cache) {
+    if (entry.expiresAt <= now) {
+      cache.delete(key);
+    }
+  }
+
+  const key = cacheKey(connectionString);
+  cache.delete(key);
+  while (cache.size >= MAX_CACHE_ENTRIES) {
+    const oldest = cache.keys().next().value as string;
+    cache.delete(oldest);
+  }
+  cache.set(key, { info: { ...info, cached: false }, expiresAt: now + ttlMs });
+}
+
+// Test-only helper to inspect the cache
+export function databaseInfoCacheKeys(): string[] {
+  return [...cache.keys()];
+}
+
+// Test-only helper to clear cached database info
+export function clearDatabaseInfoCache(): void {
+  cache.clear();
+}
@@ -0,0 +1,140 @@
+/**
+ * Dry runs: execute a script inside a transaction that is always rolled back, and report
+ * the rows each statement affected. Only drivers whose backends roll back DML (and, where
+ * allowed, DDL) are supported; anything that could commit on its own is refused up front.
+ */
+
+import { AffectedRows, DryRunSummary } from "../types/index.js";
+import { createLogger } from "../utils/logger.js";
+import { createUsqlError } from "../utils/error-handler.js";
+import { ClassifiedStatement, classifySql, terminateStatement } from "./statement-classifier.js";
+import { splitOutputSegments } from "./results.js";
+
+const logger = createLogger("usql-mcp:dry-run");
+
+// Backends without (usable) transactions: a rollback would not undo anything
+const NON_TRANSACTIONAL_DRIVERS = new Set(["csvq", "cassandra", "clickhouse", "mongo", "presto"]);
+
+// Backends where DDL commits the open transaction implicitly
+const NON_TRANSACTIONAL_DDL_DRIVERS = new Set(["mysql", "oracle", "sybase"]);
+
+// Statements other than DDL that also commit implicitly on those backends: MySQL table
+// maintenance, LOCK/UNLOCK TABLES, FLUSH, RESET and LOAD INDEX, Oracle ANALYZE
+const IMPLICIT_COMMIT_KEYWORDS = new Set([
+  "LOCK",
+  "UNLOCK",
+  "ANALYZE",
+  "OPTIMIZE",
+  "REPAIR",
+  "CHECK",
+  "CHECKSUM",
+  "FLUSH",
+  "CACHE",
+  "LOAD",
+  "RESET",
+]);
+
+// "UPDATE 3", "INSERT 0 1" (postgres includes an OID), "SELECT 5", "MERGE 2"
+const COMMAND_TAG = /^(INSERT|UPDATE|DELETE|MERGE|SELECT|COPY)(?:\s+\d+)?\s+(\d+)$/i;
+
+/**
+ * Why a statement cannot be rolled back on this driver, or undefined when it can
+ */
+function refusalReason(statement: ClassifiedStatement, driver: string): string | undefined {
+  if (statement.kind === "transaction" || statement.kind === "unknown") {
+    return statement.kind;
+  }
+  // Sequence advances, dblink calls, files and large objects written on the server
+  if (statement.sideEffects) {
+    return "side effects";
+  }
+  if (!NON_TRANSACTIONAL_DDL_DRIVERS.has(driver)) {
+    return undefined;
+  }
+  if (statement.kind === "ddl") {
+    return "ddl";
+  }
+  // SET autocommit = 1 commits; refuse any change to autocommit rather than parse the value
+  const setsAutocommit = statement.keyword === "SET" && /autocommit/i.test(statement.text);
+  return IMPLICIT_COMMIT_KEYWORDS.has(statement.keyword) || setsAutocommit
+    ? "implicit commit"
+    : undefined;
+}
+
+/**
+ * Throw DryRunUnsupported unless the script can run in a transaction on this driver
+ * and every statement is guaranteed to be undone by the final rollback. Anything the
+ * classifier cannot recognise, including input it cannot split reliably, is refused.
+ */
+export function assertDryRunSupported(script: string, driver: string): void {
+  if (NON_TRANSACTIONAL_DRIVERS.has(driver)) {
+    throw createUsqlError(
+      "DryRunUnsupported",
+      `dry_run is not supported for ${driver} connections: the backend has no transactions to roll back.`,
+      { driver }
+    );
+  }
+
+  const refused = classifySql(script, driver).flatMap((statement) => {
+    const reason = refusalReason(statement, driver);
+    return reason ? [{ keyword: statement.keyword, kind: statement.kind, reason }] : [];
+  });
+
+  if (refused.length === 0) {
+    return;
+  }
+
+  // Details keep the classifier's kind; the reason is only added where it says more
+  const details = refused.map(({ keyword, kind, reason }) =>
+    reason === kind ? { keyword, kind } : { keyword, kind, reason }
+  );
+  logger.warn("[dry-run] Refusing dry run", { driver, statements: details });
+
+  throw createUsqlError(
+    "DryRunUnsupported",
+    `dry_run cannot guarantee a rollback for ${refused
+      .map((statement) => `${statement.keyword} (${statement.reason})`)
+      .join(", ")}. Transaction control, procedure calls, unrecognised statements and calls to functions whose effects a rollback does not undo (nextval, dblink_exec, lo_export, ...) are refused${
+      NON_TRANSACTIONAL_DDL_DRIVERS.has(driver)
+        ? `, as are DDL, which commits implicitly on ${driver}, and other implicitly committing statements`
+        : ""
+    }.`,
+    { driver, statements: details }
+  );
+}
+
+/**
+ * Wrap a script in usql's \begin / \rollback. The script itself holds no transaction
+ * control (assertDryRunSupported refuses it), so nothing in it can commit: whether usql
+ * goes on to the \rollback after a failing statement or exits there, the transaction is
+ * discarded, in the latter case when the connection closes. A run that exits with an
+ * error is reported as a failure rather than as a completed dry run.
+ */
+export function wrapInRollback(script: string): string {
+  return `\\begin\n${terminateStatement(script)}\n\\rollback`;
+}
+
+/**
+ * Collect command tags from usql output (outside of JSON result sets)
+ */
+export function summarizeDryRun(stdout: string): DryRunSummary {
+  const affected: AffectedRows[] = [];
+
+  for (const segment of splitOutputSegments(stdout)) {
+    if (segment.type !== "text") {
+      continue;
+    }
+    const match = COMMAND_TAG.exec(stdout.substring(segment.start, segment.end).trim());
+    if (match) {
+      affected.push({ command: match[1].toUpperCase(), rows: Number(match[2]) });
+    }
+  }
+
+  return {
+    rolled_back: true,
+    affected_rows: affected,
+    total_affected_rows: affected
+      .filter((entry) => entry.command !== "SELECT")
+      .reduce((total, entry) => total + entry.rows, 0),
+  };
+}
@@ -0,0 +1,266 @@
+/**
+ * Query plans: the plan command for each driver and a normalized summary of the plan
+ * (node types, estimated rows, full table scans) so callers do not need to know every
+ * engine's EXPLAIN dialect and output shape.
+ */
+
+import { PlanNode, PlanSummary } from "../types/index.js";
+import { createLogger } from "../utils/logger.js";
+import { createUsqlError } from "../utils/error-handler.js";
+import { classifySql, terminateStatement } from "./statement-classifier.js";
+import { splitOutputSegments } from "./results.js";
+
+const logger = createLogger("usql-mcp:explain");
+
+// Full scans estimated to touch at least this many rows are reported as warnings
+const LARGE_SCAN_ROWS = 10000;
+
+const PLAN_COMMANDS: Record<string, string> = {
+  postgres: "EXPLAIN (FORMAT JSON)",
+  mysql: "EXPLAIN FORMAT=JSON",
+  sqlite3: "EXPLAIN QUERY PLAN",
+  mssql: "SET SHOWPLAN_ALL ON",
+};
+
+const SEQ_SCAN_TYPES = new Set(["Seq Scan", "Full Table Scan", "Table Scan", "Clustered Index Scan"]);
+
+const MYSQL_ACCESS_TYPES: Record<string, string> = {
+  ALL: "Full Table Scan",
+  index: "Full Index Scan",
+  range: "Index Range Scan",
+  index_merge: "Index Merge",
+};
+
+const MYSQL_OPERATIONS: Record<string, string> = {
+  nested_loop: "Nested Loop",
+  ordering_operation: "Sort",
+  grouping_operation: "Group",
+  duplicates_removal: "Distinct",
+  windowing: "Window",
+  union_result: "Union",
+  materialized_from_subquery: "Materialize",
+};
+
+export interface ExplainCommand {
+  command: string;
+  label: string;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number) ? number : undefined;
+}
+
+function parseJsonText(value: unknown): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Build the usql command that returns the plan for a single statement without running it.
+ * Throws ExplainUnsupported for drivers without a known plan format.
+ */
+export function buildExplainCommand(query: string, driver: string): ExplainCommand {
+  const label = PLAN_COMMANDS[driver];
+  if (!label) {
+    throw createUsqlError(
+      "ExplainUnsupported",
+      `explain_query is not supported for ${driver} connections. Supported drivers: postgres (including CockroachDB), mysql, sqlite3, mssql.`,
+      { driver }
+    );
+  }
+
+  const statements = classifySql(query, driver);
+  if (statements.length !== 1) {
+    throw createUsqlError(
+      "InvalidInput",
+      `explain_query takes exactly one statement, got ${statements.length}`
+    );
+  }
+
+  const [statement] = statements;
+  if (statement.keyword === "EXPLAIN") {
+    throw createUsqlError("InvalidInput", "Pass the query itself; explain_query adds the EXPLAIN command for the driver");
+  }
+  if (statement.kind !== "read" && statement.kind !== "write") {
+    throw createUsqlError(
+      "InvalidInput",
+      `explain_query only explains queries and DML; got ${statement.keyword} (${statement.kind})`
+    );
+  }
+
+  // With SHOWPLAN_ALL the statement runs for real if the SET fails (e.g. without SHOWPLAN
+  // permission), so only queries are explained on SQL Server
+  if (driver === "mssql" && statement.kind !== "read") {
+    throw createUsqlError(
+      "InvalidInput",
+      `explain_query only explains queries on mssql connections; got ${statement.keyword} (${statement.kind})`
+    );
+  }
+
+  // SHOWPLAN_ALL returns the plan of every following statement instead of running it. SQL
+  // Server only accepts SET SHOWPLAN_ALL as the sole statement of a batch, so \g sends each
+  // SET on its own.
+  const command =
+    driver === "mssql"
+      ? `${label}\n\\g\n${terminateStatement(statement.text)}\nSET SHOWPLAN_ALL OFF\n\\g`
+      : terminateStatement(`${label} ${statement.text}`);
+
+  logger.debug("[explain] Built plan command", { driver, label });
+  return { command, label };
+}
+
+/**
+ * Extract the plan from usql --json output: the JSON document stored in the single plan
+ * column for postgres and mysql, the plan rows themselves for sqlite3 and mssql.
+ */
+export function parsePlanOutput(stdout: string, driver: string): unknown {
+  const segments = splitOutputSegments(stdout).filter((segment) => segment.type === "json");
+  const last = segments[segments.length - 1];
+  if (!last) {
+    throw createUsqlError("ExplainParseError", "usql returned no plan rows", {
+      output: stdout.substring(0, 200),
+    });
+  }
+
+  const rows = JSON.parse(stdout.substring(last.start, last.end)) as unknown;
+  if (driver === "postgres" || driver === "mysql") {
+    const first = Array.isArray(rows) ? rows[0] : rows;
+    const value = isObject(first) ? Object.values(first)[0] : undefined;
+    return parseJsonText(value);
+  }
+  return rows;
+}
+
+function collectPostgresNodes(node: unknown, nodes: PlanNode[]): void {
+  if (!isObject(node)) {
+    return;
+  }
+  nodes.push({
+    node_type: String(node["Node Type"] ?? "Unknown"),
+    relation: typeof node["Relation Name"] === "string" ? node["Relation Name"] : undefined,
+    estimated_rows: toNumber(node["Plan Rows"]),
+  });
+  if (Array.isArray(node.Plans)) {
+    node.Plans.forEach((child) => collectPostgresNodes(child, nodes));
+  }
+}
+
+function collectMysqlNodes(value: unknown, nodes: PlanNode[]): void {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectMysqlNodes(item, nodes));
+    return;
+  }
+  if (!isObject(value)) {
+    return;
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    if (key === "table" && isObject(child) && typeof child.table_name === "string") {
+      const accessType = String(child.access_type ?? "");
+      nodes.push({
+        node_type: MYSQL_ACCESS_TYPES[accessType] ?? "Index Lookup",
+        relation: child.table_name,
+        estimated_rows: toNumber(child.rows_examined_per_scan),
+      });
+    } else if (MYSQL_OPERATIONS[key]) {
+      nodes.push({ node_type: MYSQL_OPERATIONS[key] });
+    }
+    collectMysqlNodes(child, nodes);
+  }
+}
+
+function toSqliteNode(row: unknown): PlanNode {
+  const detail = isObject(row) ? String(row.detail ?? "") : String(row);
+  const access = /^(SCAN|SEARCH)\s+(?:TABLE\s+)?(\S+)/.exec(detail);
+  if (!access) {
+    return { node_type: detail };
+  }
+  const nodeType =
+    access[1] === "SEARCH" ? "Index Search" : /USING (COVERING )?INDEX/.test(detail) ? "Full Index Scan" : "Full Table Scan";
+  return { node_type: nodeType, relation: access[2] };
+}
+
+function toMssqlNode(row: JsonObject): PlanNode {
+  const argument = typeof row.Argument === "string" ? row.Argument : "";
+  const object = /OBJECT:\(([^)]*)\)/.exec(argument);
+  const parts = object ? Array.from(object[1].split(" AS ")[0].matchAll(/\[([^\]]+)\]/g), (m) => m[1]) : [];
+  return {
+    node_type: String(row.PhysicalOp),
+    relation: parts.length >= 3 ? parts[2] : parts[parts.length - 1],
+    estimated_rows: toNumber(row.EstimateRows),
+  };
+}
+
+/**
+ * Flatten a plan into nodes and derive the summary fields
+ */
+export function summarizePlan(plan: unknown, driver: string): PlanSummary {
+  const nodes: PlanNode[] = [];
+  let estimatedRows: number | undefined;
+  let totalCost: number | undefined;
+
+  if (driver === "postgres") {
+    const root = Array.isArray(plan) && isObject(plan[0]) ? plan[0].Plan : undefined;
+    collectPostgresNodes(root, nodes);
+    if (isObject(root)) {
+      estimatedRows = toNumber(root["Plan Rows"]);
+      totalCost = toNumber(root["Total Cost"]);
+    }
+  } else if (driver === "mysql") {
+    collectMysqlNodes(plan, nodes);
+    const queryBlock = isObject(plan) ? plan.query_block : undefined;
+    if (isObject(queryBlock) && isObject(queryBlock.cost_info)) {
+      totalCost = toNumber(queryBlock.cost_info.query_cost);
+    }
+  } else if (driver === "sqlite3") {
+    (Array.isArray(plan) ? plan : []).forEach((row) => nodes.push(toSqliteNode(row)));
+  } else if (driver === "mssql") {
+    for (const row of Array.isArray(plan) ? plan : []) {
+      if (!isObject(row)) {
+        continue;
+      }
+      if (row.PhysicalOp) {
+        nodes.push(toMssqlNode(row));
+      } else if (estimatedRows === undefined) {
+        // The statement row carries the estimate and cost of the whole statement
+        estimatedRows = toNumber(row.EstimateRows);
+        totalCost = toNumber(row.TotalSubtreeCost);
+      }
+    }
+  }
+
+  const seqScans = nodes.filter((node) => SEQ_SCAN_TYPES.has(node.node_type));
+  const warnings = seqScans
+    .filter((node) => node.estimated_rows !== undefined && node.estimated_rows >= LARGE_SCAN_ROWS)
+    .map(
+      (node) =>
+        `${node.node_type} on ${node.relation ?? "unknown table"} (~${node.estimated_rows} estimated rows); consider an index on the filtered or joined columns`
+    );
+
+  const summary: PlanSummary = {
+    node_types: Array.from(new Set(nodes.map((node) => node.node_type))),
+    nodes,
+    seq_scans: seqScans,
+    warnings,
+  };
+  if (estimatedRows !== undefined) {
+    summary.estimated_rows = estimatedRows;
+  }
+  if (totalCost !== undefined) {
+    summary.total_cost = totalCost;
+  }
+  return summary;
+}
@@ -0,0 +1,165 @@
+/**
+ * Server introspection: the ping for each driver and a query that reports the server
+ * version, current user, current database and, where the engine exposes it, the TLS state
+ * of the session. Drivers without a known introspection query only get the ping.
+ */
+
+import { URLSearchParams } from "url";
+import { TlsInfo } from "../types/index.js";
+import { createLogger } from "../utils/logger.js";
+import { splitOutputSegments } from "./results.js";
+
+const logger = createLogger("usql-mcp:introspection");
+
+const PING_QUERIES: Record<string, string> = {
+  oracle: "SELECT 1 FROM DUAL",
+  firebird: "SELECT 1 FROM RDB$DATABASE",
+  cassandra: "SELECT release_version FROM system.local",
+};
+
+const DEFAULT_PING_QUERY = "SELECT 1";
+
+// Columns are aliased db_* because current_user and friends are keywords on several engines
+const SERVER_INFO_QUERIES: Record<string, string> = {
+  postgres:
+    "SELECT version() AS db_version, current_user AS db_user, current_database() AS db_name, " +
+    "s.ssl AS tls_enabled, s.version AS tls_version, s.cipher AS tls_cipher " +
+    "FROM (SELECT 1) AS one LEFT JOIN pg_stat_ssl s ON s.pid = pg_backend_pid()",
+  mysql: "SELECT VERSION() AS db_version, CURRENT_USER() AS db_user, DATABASE() AS db_name",
+  mssql: "SELECT @@VERSION AS db_version, SUSER_SNAME() AS db_user, DB_NAME() AS db_name",
+  sybase: "SELECT @@version AS db_version, suser_name() AS db_user, db_name() AS db_name",
+  oracle:
+    "SELECT (SELECT banner FROM v$version WHERE ROWNUM = 1) AS db_version, USER AS db_user, " +
+    "SYS_CONTEXT('USERENV', 'DB_NAME') AS db_name FROM DUAL",
+  sqlite3: "SELECT sqlite_version() AS db_version",
+  duckdb: "SELECT version() AS db_version, current_database() AS db_name",
+  clickhouse:
+    "SELECT version() AS db_version, currentUser() AS db_user, currentDatabase() AS db_name",
+  firebird:
+    "SELECT rdb$get_context('SYSTEM', 'ENGINE_VERSION') AS db_version, CURRENT_USER AS db_user " +
+    "FROM RDB$DATABASE",
+};
+
+// Connection parameters that request TLS, by the names the drivers use
+const TLS_PARAMS = new Set(["sslmode", "ssl", "ssl-mode", "tls", "encrypt"]);
+
+export interface ServerIntrospection {
+  server_version?: string;
+  current_user?: string;
+  current_database?: string;
+  tls?: TlsInfo;
+}
+
+/**
+ * Cheapest statement that proves the connection works
+ */
+export function buildPingQuery(driver: string): string {
+  return PING_QUERIES[driver] ?? DEFAULT_PING_QUERY;
+}
+
+/**
+ * Query returning one row of db_version, db_user, db_name and tls_* columns, or undefined
+ * when the driver has none
+ */
+export function buildServerInfoQuery(driver: string): string | undefined {
+  return SERVER_INFO_QUERIES[driver];
+}
+
+export function toText(value: unknown): string | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  const text = String(value).trim();
+  return text.length > 0 ? text : undefined;
+}
+
+export function toBoolean(value: unknown): boolean | undefined {
+  if (typeof value === "boolean") {
+    return value;
+  }
+  const text = toText(value)?.toLowerCase();
+  if (text === undefined) {
+    return undefined;
+  }
+  return ["t", "true", "1", "yes", "on"].includes(text);
+}
+
+/**
+ * First row of a query's JSON output, with lower-cased column names: Oracle and Firebird
+ * upper-case unquoted aliases. undefined when the output has no rows.
+ */
+export function parseFirstRow(stdout: string): Record<string, unknown> | undefined {
+  const segment = splitOutputSegments(stdout).find((candidate) => candidate.type === "json");
+  if (!segment) {
+    logger.debug("[introspection] No JSON in query output");
+    return undefined;
+  }
+
+  const parsed: unknown = JSON.parse(stdout.substring(segment.start, segment.end));
+  const first = Array.isArray(parsed) ? parsed[0] : parsed;
+  if (first === null || typeof first !== "object") {
+    return undefined;
+  }
+  return Object.fromEntries(
+    Object.entries(first as Record<string, unknown>).map(([key, value]) => [
+      key.toLowerCase(),
+      value,
+    ])
+  );
+}
+
+/**
+ * Read the result of a server info query (see buildServerInfoQuery)
+ */
+export function parseServerInfo(stdout: string): ServerIntrospection {
+  const row = parseFirstRow(stdout);
+  if (!row) {
+    return {};
+  }
+
+  const info: ServerIntrospection = {};
+  const version = toText(row.db_version);
+  const user = toText(row.db_user);
+  const database = toText(row.db_name);
+  if (version) {
+    info.server_version = version;
+  }
+  if (user) {
+    info.current_user = user;
+  }
+  if (database) {
+    info.current_database = database;
+  }
+
+  const enabled = toBoolean(row.tls_enabled);
+  if (enabled !== undefined) {
+    info.tls = { enabled };
+    const tlsVersion = toText(row.tls_version);
+    const cipher = toText(row.tls_cipher);
+    if (tlsVersion) {
+      info.tls.version = tlsVersion;
+    }
+    if (cipher) {
+      info.tls.cipher = cipher;
+    }
+  }
+  return info;
+}
+
+/**
+ * TLS settings requested in the connection string (sslmode=require, tls=true, ...), for
+ * engines that do not report the state of the session
+ */
+export function requestedTlsSettings(connectionString: string): Record<string, string> {
+  const queryStart = connectionString.indexOf("?");
+  if (queryStart === -1) {
+    return {};
+  }
+  const settings: Record<string, string> = {};
+  for (const [key, value] of new URLSearchParams(connectionString.substring(queryStart + 1))) {
+    if (TLS_PARAMS.has(key.toLowerCase())) {
+      settings[key] = value;
+    }
+  }
+  return settings;
+}
@@ -1,34 +1,30 @@
 /**
- * In-memory job manager for tracking background query executions
+ * Job manager for tracking background query executions
+ * Jobs live in memory; every state change is also written to the configured JobStore
+ * so finished results can be fetched after a server restart.
  */
 
 import { randomUUID } from "crypto";
 import { createLogger } from "../utils/logger.js";
-import { McpError } from "../types/index.js";
+import { JobState, McpError } from "../types/index.js";
+import { JobStore, MemoryJobStore } from "./job-store.js";
 
 const logger = createLogger("usql-mcp:job-manager");
 
-export interface JobState {
-  id: string;
-  status: "running" | "completed" | "failed" | "cancelled";
-  startedAt: Date;
-  completedAt?: Date;
-  result?: unknown;
-  error?: McpError;
-  toolName: string;
-  connectionStringHash?: string; // Hashed for security, not full string
-}
-
 class JobManager {
   private jobs = new Map<string, JobState>();
   private resultTTL: number; // milliseconds
   private cleanupInterval: NodeJS.Timeout;
   private jobCancellers = new Map<string, AbortController>(); // Track cancellation controllers
+  private store: JobStore;
 
-  constructor(resultTTL: number = 3600000) {
+  constructor(resultTTL: number = 3600000, store: JobStore = new MemoryJobStore()) {
     this.resultTTL = resultTTL;
+    this.store = store;
     logger.debug("[job-manager] Initializing with TTL", { resultTTL });
 
+    this.restore();
+
     // Start cleanup interval - run every 5 minutes
     this.cleanupInterval = setInterval(() => {
       this.cleanup();
@@ -38,6 +34,53 @@ class JobManager {
     this.cleanupInterval.unref();
   }
 
+  /**
+   * Load persisted jobs. Expired jobs are dropped; jobs that were still running belong to
+   * a previous process whose usql child is gone, so they are reported as failed.
+   */
+  private restore(): void {
+    let persisted: JobState[];
+    try {
+      persisted = this.store.load();
+    } catch (error) {
+      logger.error("[job-manager] Failed to load persisted jobs", error);
+      return;
+    }
+
+    if (persisted.length === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    let orphaned = 0;
+
+    for (const job of persisted) {
+      if (job.status === "running") {
+        job.status = "failed";
+        job.completedAt = new Date(now);
+        job.error = {
+          error: "JobOrphaned",
+          message:
+            "Server restarted while this job was running; its result was lost. Re-run the query if it is still needed.",
+        };
+        orphaned++;
+      }
+
+      if (job.completedAt && now - job.completedAt.getTime() > this.resultTTL) {
+        continue;
+      }
+
+      this.jobs.set(job.id, job);
+    }
+
+    this.store.compact(Array.from(this.jobs.values()));
+
+    logger.debug("[job-manager] Restored persisted jobs", {
+      restored: this.jobs.size,
+      orphaned,
+    });
+  }
+
   /**
    * Create a new job and return its ID
    */
@@ -52,6 +95,7 @@ class JobManager {
     };
 
     this.jobs.set(jobId, jobState);
+    this.store.save(jobState);
     logger.debug("[job-manager] Created job", {
       jobId,
       toolName,
@@ -70,9 +114,21 @@ class JobManager {
       return;
     }
 
+    this.jobCancellers.delete(jobId);
+
+    // A cancelled job keeps its cancelled state even if the handler finishes later
+    if (job.status !== "running") {
+      logger.debug("[job-manager] Ignoring result for job that is no longer running", {
+        jobId,
+        status: job.status,
+      });
+      return;
+    }
+
     job.status = "completed";
     job.completedAt = new Date();
     job.result = result;
+    this.store.save(job);
 
     logger.debug("[job-manager] Job completed", {
       jobId,
@@ -90,9 +146,20 @@ class JobManager {
       return;
     }
 
+    this.jobCancellers.delete(jobId);
+
+    if (job.status !== "running") {
+      logger.debug("[job-manager] Ignoring failure for job that is no longer running", {
+        jobId,
+        status: job.status,
+      });
+      return;
+    }
+
     job.status = "failed";
     job.completedAt = new Date();
     job.error = error;
+    this.store.save(job);
 
     logger.debug("[job-manager] Job failed", {
       jobId,
@@ -124,19 +191,21 @@ class JobManager {
     }
 
     // Try to abort the controller if it exists
+    // Mark job as cancelled before aborting so the handler's rejection cannot overwrite it
     const controller = this.jobCancellers.get(jobId);
-    if (controller) {
-      controller.abort();
-      logger.debug("[job-manager] Aborted job controller", { jobId });
-    }
-
-    // Mark job as cancelled
     job.status = "cancelled";
     job.completedAt = new Date();
     job.error = {
       error: "JobCancelled",
       message: "Job was cancelled by user",
     };
+    this.store.save(job);
+
+    if (controller) {
+      controller.abort();
+      this.jobCancellers.delete(jobId);
+      logger.debug("[job-manager] Aborted job controller", { jobId });
+    }
 
     logger.debug("[job-manager] Job cancelled", {
       jobId,
@@ -168,7 +237,11 @@ class JobManager {
    * Delete a specific job (for cleanup)
    */
   deleteJob(jobId: string): boolean {
-    return this.jobs.delete(jobId);
+    const deleted = this.jobs.delete(jobId);
+    if (deleted) {
+      this.store.delete(jobId);
+    }
+    return deleted;
   }
 
   /**
@@ -191,6 +264,7 @@ class JobManager {
     }
 
     if (deletedCount > 0) {
+      this.store.compact(Array.from(this.jobs.values()));
       logger.debug("[job-manager] Cleaned up expired jobs", {
         deletedCount,
         remainingJobs: this.jobs.size,
@@ -199,7 +273,7 @@ class JobManager {
   }
 
   /**
-   * Force cleanup of all jobs (used on shutdown)
+   * Force cleanup of all jobs (used on shutdown). Persisted jobs are left on disk.
    */
   forceCleanup(): void {
     clearInterval(this.cleanupInterval);
@@ -222,11 +296,11 @@ class JobManager {
 // Singleton instance
 let manager: JobManager | null = null;
 
-export function initializeJobManager(resultTTL?: number): JobManager {
+export function initializeJobManager(resultTTL?: number, store?: JobStore): JobManager {
   if (manager) {
     return manager;
   }
-  manager = new JobManager(resultTTL);
+  manager = new JobManager(resultTTL, store);
   return manager;
 }
 
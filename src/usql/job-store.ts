@@ -0,0 +1,152 @@
+/**
+ * Job persistence for the job manager
+ * The in-memory store keeps the original behaviour; the file store appends job state
+ * changes to a JSONL log so background jobs survive server restarts.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { join, resolve } from "path";
+import { JobState } from "../types/index.js";
+import { createLogger } from "../utils/logger.js";
+
+const logger = createLogger("usql-mcp:job-store");
+
+export interface JobStore {
+  /** Read all persisted jobs (called once at startup) */
+  load(): JobState[];
+  /** Persist the current state of a job */
+  save(job: JobState): void;
+  /** Remove a job */
+  delete(jobId: string): void;
+  /** Replace the persisted contents with exactly these jobs */
+  compact(jobs: JobState[]): void;
+}
+
+interface SerializedJob extends Omit<JobState, "startedAt" | "completedAt"> {
+  startedAt: string;
+  completedAt?: string;
+}
+
+type JobLogEntry = { op: "put"; job: SerializedJob } | { op: "delete"; id: string };
+
+function serializeJob(job: JobState): SerializedJob {
+  return {
+    ...job,
+    startedAt: job.startedAt.toISOString(),
+    completedAt: job.completedAt?.toISOString(),
+  };
+}
+
+function deserializeJob(job: SerializedJob): JobState {
+  return {
+    ...job,
+    startedAt: new Date(job.startedAt),
+    completedAt: job.completedAt ? new Date(job.completedAt) : undefined,
+  };
+}
+
+export class MemoryJobStore implements JobStore {
+  load(): JobState[] {
+    return [];
+  }
+
+  save(): void {
+    // Jobs already live in the job manager's map
+  }
+
+  delete(): void {
+    // Nothing persisted
+  }
+
+  compact(): void {
+    // Nothing persisted
+  }
+}
+
+/**
+ * Append-only JSONL log of job state changes under a directory. The log is replayed
+ * on load and rewritten by compact() so it only grows between cleanups.
+ */
+export class FileJobStore implements JobStore {
+  private filePath: string;
+
+  constructor(directory: string) {
+    const fullDirectory = resolve(directory);
+    mkdirSync(fullDirectory, { recursive: true, mode: 0o700 });
+    this.filePath = join(fullDirectory, "jobs.jsonl");
+    logger.debug("[job-store] Using file job store", { path: this.filePath });
+  }
+
+  load(): JobState[] {
+    if (!existsSync(this.filePath)) {
+      return [];
+    }
+
+    const jobs = new Map<string, JobState>();
+    const lines = readFileSync(this.filePath, "utf-8").split("\n");
+    let skipped = 0;
+
+    for (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const entry = JSON.parse(line) as JobLogEntry;
+        if (entry.op === "put") {
+          jobs.set(entry.job.id, deserializeJob(entry.job));
+        } else if (entry.op === "delete") {
+          jobs.delete(entry.id);
+        }
+      } catch {
+        // A partially written last line (crash mid-append) is expected; skip it
+        skipped++;
+      }
+    }
+
+    if (skipped > 0) {
+      logger.warn("[job-store] Skipped unreadable job log entries", { skipped, path: this.filePath });
+    }
+
+    logger.debug("[job-store] Loaded jobs", { count: jobs.size });
+    return Array.from(jobs.values());
+  }
+
+  save(job: JobState): void {
+    this.append({ op: "put", job: serializeJob(job) });
+  }
+
+  delete(jobId: string): void {
+    this.append({ op: "delete", id: jobId });
+  }
+
+  compact(jobs: JobState[]): void {
+    const content = jobs
+      .map((job) => JSON.stringify({ op: "put", job: serializeJob(job) } satisfies JobLogEntry) + "\n")
+      .join("");
+    const tempPath = `${this.filePath}.tmp`;
+
+    try {
+      writeFileSync(tempPath, content, { mode: 0o600 });
+      renameSync(tempPath, this.filePath);
+      logger.debug("[job-store] Compacted job log", { count: jobs.length });
+    } catch (error) {
+      logger.error("[job-store] Failed to compact job log", error);
+    }
+  }
+
+  private append(entry: JobLogEntry): void {
+    try {
+      appendFileSync(this.filePath, JSON.stringify(entry) + "\n", { mode: 0o600 });
+    } catch (error) {
+      // Persistence problems must not fail the query itself
+      logger.error("[job-store] Failed to write job log", error);
+    }
+  }
+}
+
+export function createJobStore(directory?: string): JobStore {
+  if (directory && directory.trim().length > 0) {
+    return new FileJobStore(directory.trim());
+  }
+  return new MemoryJobStore();
+}
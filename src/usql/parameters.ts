@@ -0,0 +1,202 @@
+/**
+ * Query parameter binding for execute_query
+ * usql has no out-of-band bind protocol on the command line, so placeholders are
+ * replaced with literals encoded for the target driver before the query is spawned.
+ */
+
+import { createLogger } from "../utils/logger.js";
+import { createUsqlError } from "../utils/error-handler.js";
+import { lexSql } from "./sql-lexer.js";
+
+const logger = createLogger("usql-mcp:parameters");
+
+export type QueryParameter = string | number | boolean | null;
+
+/**
+ * Placeholder syntax per driver family:
+ * - dollar:   $1, $2 (postgres, cockroach, duckdb)
+ * - question: ?, ?  (mysql, sqlite and most others)
+ * - at:       @p1, @p2 (mssql, sybase)
+ * - colon:    :1, :2 (oracle)
+ */
+export type PlaceholderStyle = "dollar" | "question" | "at" | "colon";
+
+interface Placeholder {
+  start: number;
+  end: number;
+  index: number; // 1-based; positional for the question style
+}
+
+const PLACEHOLDER_STYLES: Record<string, PlaceholderStyle> = {
+  postgres: "dollar",
+  duckdb: "dollar",
+  mssql: "at",
+  sybase: "at",
+  oracle: "colon",
+};
+
+const BOOLEAN_KEYWORD_DRIVERS = new Set(["postgres", "duckdb", "presto", "clickhouse"]);
+const BACKSLASH_ESCAPE_DRIVERS = new Set(["mysql"]);
+const NATIONAL_STRING_DRIVERS = new Set(["mssql", "sybase"]);
+
+export function getPlaceholderStyle(driver: string): PlaceholderStyle {
+  return PLACEHOLDER_STYLES[driver] ?? "question";
+}
+
+function readDigits(sql: string, start: number): string {
+  let end = start;
+  while (end < sql.length && sql[end] >= "0" && sql[end] <= "9") {
+    end++;
+  }
+  return sql.substring(start, end);
+}
+
+/**
+ * Locate placeholders of the given style. Comments, string literals (including E''
+ * escape strings), quoted identifiers and dollar-quoted bodies are skipped by the
+ * shared SQL lexer.
+ */
+export function findPlaceholders(sql: string, driver: string): Placeholder[] {
+  const style = getPlaceholderStyle(driver);
+  const { tokens } = lexSql(sql, driver);
+  const placeholders: Placeholder[] = [];
+
+  tokens.forEach((token, position) => {
+    if (token.type !== "punct") {
+      return;
+    }
+    const i = token.start;
+    const previous = tokens[position - 1];
+    const adjacent = previous !== undefined && previous.end === i;
+
+    if (style === "question") {
+      if (token.value === "?") {
+        placeholders.push({ start: i, end: i + 1, index: placeholders.length + 1 });
+      }
+      return;
+    }
+
+    let prefix = "";
+    if (style === "dollar" && token.value === "$") {
+      prefix = "$";
+    } else if (style === "at" && token.value === "@" && /^[pP]/.test(sql[i + 1] ?? "")) {
+      prefix = "@p";
+    } else if (style === "colon" && token.value === ":") {
+      prefix = ":";
+    }
+    if (!prefix) {
+      return;
+    }
+
+    // "x$1", "@@p1" and "::1" are not placeholders
+    if (adjacent && (previous.type === "word" || previous.value === token.value)) {
+      return;
+    }
+
+    const digits = readDigits(sql, i + prefix.length);
+    if (digits) {
+      const end = i + prefix.length + digits.length;
+      placeholders.push({ start: i, end, index: parseInt(digits, 10) });
+    }
+  });
+
+  return placeholders;
+}
+
+/**
+ * Encode a single parameter value as a SQL literal for the given driver.
+ */
+export function encodeLiteral(value: unknown, driver: string): string {
+  if (value === null || value === undefined) {
+    return "NULL";
+  }
+
+  if (typeof value === "boolean") {
+    if (BOOLEAN_KEYWORD_DRIVERS.has(driver)) {
+      return value ? "TRUE" : "FALSE";
+    }
+    return value ? "1" : "0";
+  }
+
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw createUsqlError("InvalidParameter", `Parameter value must be a finite number: ${value}`);
+    }
+    // Parenthesise negatives so "x -$1" cannot turn into a "--" comment
+    return value < 0 ? `(${String(value)})` : String(value);
+  }
+
+  if (typeof value === "string") {
+    if (value.includes("\u0000")) {
+      throw createUsqlError("InvalidParameter", "Parameter strings must not contain NUL characters");
+    }
+    let escaped = value.replace(/'/g, "''");
+    if (BACKSLASH_ESCAPE_DRIVERS.has(driver)) {
+      escaped = escaped.replace(/\\/g, "\\\\");
+    }
+    const prefix = NATIONAL_STRING_DRIVERS.has(driver) ? "N" : "";
+    return `${prefix}'${escaped}'`;
+  }
+
+  throw createUsqlError(
+    "InvalidParameter",
+    `Unsupported parameter type: ${Array.isArray(value) ? "array" : typeof value}. Use string, number, boolean or null.`
+  );
+}
+
+/**
+ * Replace placeholders in the query with encoded literals.
+ * Throws ParameterMismatch when the placeholders and parameter array disagree.
+ */
+export function bindParameters(query: string, parameters: unknown[], driver: string): string {
+  const style = getPlaceholderStyle(driver);
+  const placeholders = findPlaceholders(query, driver);
+
+  logger.debug("[parameters] Binding parameters", {
+    driver,
+    style,
+    placeholderCount: placeholders.length,
+    parameterCount: parameters.length,
+  });
+
+  if (style === "question") {
+    if (placeholders.length !== parameters.length) {
+      throw createUsqlError(
+        "ParameterMismatch",
+        `Query has ${placeholders.length} placeholder(s) but ${parameters.length} parameter(s) were provided`,
+        { placeholderStyle: style, placeholderCount: placeholders.length, parameterCount: parameters.length }
+      );
+    }
+  } else {
+    const referenced = new Set(placeholders.map((p) => p.index));
+    const outOfRange = [...referenced].filter((index) => index < 1 || index > parameters.length);
+    const unused = parameters
+      .map((_, i) => i + 1)
+      .filter((index) => !referenced.has(index));
+
+    if (outOfRange.length > 0 || unused.length > 0) {
+      throw createUsqlError(
+        "ParameterMismatch",
+        `Query references placeholder(s) ${[...referenced].sort((a, b) => a - b).join(", ") || "none"} but ${parameters.length} parameter(s) were provided`,
+        {
+          placeholderStyle: style,
+          parameterCount: parameters.length,
+          ...(outOfRange.length > 0 ? { outOfRange } : {}),
+          ...(unused.length > 0 ? { unusedParameters: unused } : {}),
+        }
+      );
+    }
+  }
+
+  const literals = parameters.map((value) => encodeLiteral(value, driver));
+
+  let bound = "";
+  let cursor = 0;
+  placeholders.forEach((placeholder) => {
+    bound += query.substring(cursor, placeholder.start) + literals[placeholder.index - 1];
+    cursor = placeholder.end;
+  });
+  bound += query.substring(cursor);
+
+  return bound;
+}
@@ -1,3 +1,4 @@
+import { UsqlErrorDetails } from "../types/index.js";
 import { createLogger } from "../utils/logger.js";
 
 const logger = createLogger("usql-mcp:parser");
@@ -31,3 +32,130 @@ export function parseUsqlError(stderr: string): string {
 
   return stderr;
 }
+
+// "error: pgx: ERROR: ..." -> "..."
+const MESSAGE_PREFIX =
+  /^(?:error:\s*)?(?:(?:pq|pgx|postgres|mysql|mssql|sqlserver|sqlite3?|godror|oracle)\s*:\s*)*(?:(?:ERROR|FATAL|PANIC)\s*:\s*)?/i;
+const PG_SQLSTATE_SUFFIX = /\s*\(SQLSTATE ([0-9A-Z]{5})\)/;
+const PG_VERBOSE_SQLSTATE = /^(?=[0-9A-Z]{0,4}\d)([0-9A-Z]{5}):\s+/;
+const MYSQL_ERROR = /^Error (\d+)(?: \(([0-9A-Z]{5})\))?:\s*/;
+const ORACLE_ERROR = /^(ORA-\d{5}):\s*/;
+const MSSQL_HEADER = /Msg (\d+), Level \d+, State \d+,(?:[^,\n]*,)*? Line (\d+)/;
+const SQLITE_CODE_SUFFIX = /\s*\((\d+)\)$/;
+const NEAR_TOKEN = /near (['"])(.*?)\1(?=[\s:.,]|$)/;
+
+/**
+ * Find where a fragment quoted by the server ("near 'SELEC 1'") starts in the query,
+ * preferring the line the server reported.
+ */
+function locateFragment(query: string, fragment: string, lineHint?: number): { line: number; position: number } | undefined {
+  const needle = fragment.split("\n")[0];
+  if (!needle) {
+    return undefined;
+  }
+
+  const queryLines = query.split("\n");
+  if (lineHint !== undefined && queryLines[lineHint - 1]?.includes(needle)) {
+    return { line: lineHint, position: queryLines[lineHint - 1].indexOf(needle) + 1 };
+  }
+
+  const index = query.indexOf(needle);
+  if (index === -1) {
+    return undefined;
+  }
+  const before = query.substring(0, index);
+  return { line: before.split("\n").length, position: index - before.lastIndexOf("\n") };
+}
+
+/**
+ * Parse usql stderr into the fields database drivers report: SQLSTATE and native error
+ * codes, DETAIL/HINT lines, and the line and position of the failing token. `driver`
+ * narrows driver-specific patterns; `query` lets "near '...'" fragments be located.
+ */
+export function parseUsqlErrorDetails(stderr: string, driver?: string, query?: string): UsqlErrorDetails {
+  logger.debug("[parser] Parsing usql error details", { driver });
+
+  const lines = stderr.split("\n");
+  const primary = parseUsqlError(stderr).trim();
+  let message = primary.replace(MESSAGE_PREFIX, "");
+  const details: UsqlErrorDetails = { message };
+  let match: RegExpExecArray | null;
+
+  const mssqlHeader = MSSQL_HEADER.exec(stderr);
+  if (mssqlHeader) {
+    details.code = mssqlHeader[1];
+    details.line = Number(mssqlHeader[2]);
+    if (MSSQL_HEADER.test(message)) {
+      // sqlcmd-style output puts the message on the line after the header
+      const headerIndex = lines.findIndex((line) => MSSQL_HEADER.test(line));
+      const next = lines.slice(headerIndex + 1).find((line) => line.trim());
+      message = next ? next.trim() : message;
+    }
+  }
+
+  if ((match = PG_SQLSTATE_SUFFIX.exec(message))) {
+    details.sqlstate = match[1];
+    message = message.replace(match[0], "");
+  } else if ((match = PG_VERBOSE_SQLSTATE.exec(message))) {
+    details.sqlstate = match[1];
+    message = message.substring(match[0].length);
+  }
+
+  if ((match = MYSQL_ERROR.exec(message))) {
+    details.code = match[1];
+    if (match[2]) {
+      details.sqlstate = match[2];
+    }
+    message = message.substring(match[0].length);
+  } else if ((match = ORACLE_ERROR.exec(message))) {
+    details.code = match[1];
+    message = message.substring(match[0].length);
+  } else if (driver === "sqlite3" && (match = SQLITE_CODE_SUFFIX.exec(message))) {
+    details.code = match[1];
+    message = message.substring(0, match.index);
+  }
+
+  details.message = message.trim() || primary;
+
+  if ((match = /^\s*DETAIL:\s*(.+)$/m.exec(stderr))) {
+    details.detail = match[1].trim();
+  }
+  if ((match = /^\s*HINT:\s*(.+)$/m.exec(stderr))) {
+    details.hint = match[1].trim();
+  }
+
+  // psql-style context: "LINE 2: SELEC 1" followed by a caret under the failing token
+  const contextIndex = lines.findIndex((line) => /^\s*LINE \d+:/.test(line));
+  if (contextIndex !== -1) {
+    const context = /^(\s*LINE (\d+):\s?)/.exec(lines[contextIndex]);
+    const caret = lines[contextIndex + 1]?.indexOf("^") ?? -1;
+    if (context) {
+      details.line = Number(context[2]);
+      if (caret >= context[1].length) {
+        details.position = caret - context[1].length + 1;
+      }
+    }
+  }
+
+  if (details.position === undefined && (match = /^\s*POSITION:\s*(\d+)$/im.exec(stderr))) {
+    details.position = Number(match[1]);
+  }
+  if ((match = /\bline (\d+),? column (\d+)/i.exec(stderr))) {
+    details.line ??= Number(match[1]);
+    details.position ??= Number(match[2]);
+  }
+  if (details.line === undefined && (match = /\bat line (\d+)\b/i.exec(message))) {
+    details.line = Number(match[1]);
+  }
+
+  const near = NEAR_TOKEN.exec(message);
+  if (near && query && details.position === undefined) {
+    const location = locateFragment(query, near[2], details.line);
+    if (location) {
+      details.line = location.line;
+      details.position = location.position;
+    }
+  }
+
+  return details;
+}
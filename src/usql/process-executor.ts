@@ -21,10 +21,18 @@ export interface UsqlProcessHandle {
   promise: Promise<UsqlExecutionResult>;
 }
 
+/**
+ * The usql executable: USQL_BINARY_PATH when set, otherwise usql from PATH
+ */
+export function resolveUsqlBinary(): string {
+  const configuredCommand = process.env.USQL_BINARY_PATH?.trim();
+  return configuredCommand && configuredCommand.length > 0 ? configuredCommand : "usql";
+}
+
 export async function executeUsqlCommand(
   connectionString: string,
   command: string,
-  options?: UsqlExecutorOptions & { signal?: AbortSignal }
+  options?: UsqlExecutorOptions
 ): Promise<UsqlExecutionResult> {
   const timeout = options?.timeout;
   const format = options?.format || "json";
@@ -34,7 +42,7 @@ export async function executeUsqlCommand(
     connectionString: formatConnectionStringForLogging(connectionString),
     timeout,
     format,
-    binaryPath: process.env.USQL_BINARY_PATH?.trim() || "usql",
+    binaryPath: resolveUsqlBinary(),
   });
 
   return new Promise((resolve, reject) => {
@@ -44,6 +52,7 @@ export async function executeUsqlCommand(
     let aborted = false;
     let timeoutHandle: NodeJS.Timeout | null = null;
     let childProcess: ChildProcess | null = null;
+    let abortHandler: (() => void) | null = null;
 
     if (typeof timeout === "number" && timeout > 0) {
       timeoutHandle = setTimeout(() => {
@@ -73,7 +82,7 @@ export async function executeUsqlCommand(
         return;
       }
 
-      const abortHandler = () => {
+      abortHandler = (): void => {
         aborted = true;
         logger.debug("[process-executor] Abort signal received, killing process", { pid: childProcess?.pid });
         if (childProcess?.pid) {
@@ -86,14 +95,13 @@ export async function executeUsqlCommand(
         reject(new Error("Operation aborted by client"));
       };
 
-      signal.addEventListener("abort", abortHandler);
+      signal.addEventListener("abort", abortHandler, { once: true });
     }
 
     // Build usql arguments
     const args = [connectionString, "-c", command];
 
-    const configuredCommand = process.env.USQL_BINARY_PATH?.trim();
-    const commandToRun = configuredCommand && configuredCommand.length > 0 ? configuredCommand : "usql";
+    const commandToRun = resolveUsqlBinary();
 
     // Add format flag
     if (format === "json") {
@@ -136,6 +144,9 @@ export async function executeUsqlCommand(
       if (timeoutHandle) {
         clearTimeout(timeoutHandle);
       }
+      if (signal && abortHandler) {
+        signal.removeEventListener("abort", abortHandler);
+      }
 
       if (timedOut || aborted) {
         return; // Already rejected
@@ -167,5 +178,6 @@ export async function executeUsqlQuery(
   return executeUsqlCommand(connectionString, query, {
     timeout: options?.timeout,
     format: options?.format || "json",
+    signal: options?.signal,
   });
 }
@@ -0,0 +1,366 @@
+/**
+ * Post-processing of usql stdout: result segmentation, row limits and structured parsing
+ */
+
+import {
+  OutputFormat,
+  RawOutput,
+  StructuredColumn,
+  StructuredOutput,
+  StructuredResultSet,
+  ToolOutput,
+} from "../types/index.js";
+import { createLogger } from "../utils/logger.js";
+
+const logger = createLogger("usql-mcp:results");
+
+export interface OutputSegment {
+  type: "json" | "text";
+  start: number;
+  end: number;
+}
+
+export interface RowLimitResult {
+  content: string;
+  truncated: boolean;
+  totalRows: number;
+  returnedRows: number;
+}
+
+/**
+ * Scan a JSON value starting at `start` (must be "[" or "{") and return the index
+ * just past its closing bracket, or -1 if the value is unterminated.
+ * When `elementEnds` is given, the end offsets of top-level array elements are recorded.
+ */
+function scanJsonValue(text: string, start: number, elementEnds?: number[]): number {
+  let depth = 0;
+  let inString = false;
+  let lastSignificant = -1;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (ch === "\\") {
+        i++;
+      } else if (ch === '"') {
+        inString = false;
+        lastSignificant = i;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+      continue;
+    }
+
+    if (ch === "[" || ch === "{") {
+      depth++;
+      if (depth > 1) {
+        lastSignificant = i;
+      }
+      continue;
+    }
+
+    if (ch === "]" || ch === "}") {
+      depth--;
+      if (depth === 0) {
+        if (elementEnds && lastSignificant > start) {
+          elementEnds.push(lastSignificant + 1);
+        }
+        return i + 1;
+      }
+      lastSignificant = i;
+      continue;
+    }
+
+    if (ch === "," && depth === 1) {
+      if (elementEnds) {
+        elementEnds.push(lastSignificant + 1);
+      }
+      continue;
+    }
+
+    if (!/\s/.test(ch)) {
+      lastSignificant = i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Split usql stdout into JSON documents and plain text lines (command tags such as
+ * "INSERT 0 1", notices). Scripts produce one JSON document per result set.
+ */
+export function splitOutputSegments(stdout: string): OutputSegment[] {
+  const segments: OutputSegment[] = [];
+  let i = 0;
+
+  while (i < stdout.length) {
+    if (/\s/.test(stdout[i])) {
+      i++;
+      continue;
+    }
+
+    if (stdout[i] === "[" || stdout[i] === "{") {
+      const end = scanJsonValue(stdout, i);
+      if (end !== -1 && isValidJson(stdout.substring(i, end))) {
+        segments.push({ type: "json", start: i, end });
+        i = end;
+        continue;
+      }
+    }
+
+    const newline = stdout.indexOf("\n", i);
+    const end = newline === -1 ? stdout.length : newline;
+    segments.push({ type: "text", start: i, end });
+    i = end;
+  }
+
+  return segments;
+}
+
+function isValidJson(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Cap rows across all JSON array result sets, keeping the original text of the
+ * rows that are returned (no re-serialisation, so large numbers keep their precision).
+ */
+function limitJsonRows(content: string, maxRows: number): RowLimitResult {
+  const segments = splitOutputSegments(content);
+  let totalRows = 0;
+  let remaining = maxRows;
+  let output = "";
+  let cursor = 0;
+
+  for (const segment of segments) {
+    if (segment.type !== "json" || content[segment.start] !== "[") {
+      continue;
+    }
+
+    const elementEnds: number[] = [];
+    scanJsonValue(content, segment.start, elementEnds);
+    totalRows += elementEnds.length;
+
+    if (elementEnds.length <= remaining) {
+      remaining -= elementEnds.length;
+      continue;
+    }
+
+    output += content.substring(cursor, segment.start);
+    output +=
+      remaining > 0
+        ? content.substring(segment.start, elementEnds[remaining - 1]) + "]"
+        : "[]";
+    cursor = segment.end;
+    remaining = 0;
+  }
+
+  if (totalRows <= maxRows) {
+    return { content, truncated: false, totalRows, returnedRows: totalRows };
+  }
+
+  output += content.substring(cursor);
+  return { content: output, truncated: true, totalRows, returnedRows: maxRows };
+}
+
+/**
+ * Return the end offsets of CSV records, honouring quoted fields with embedded newlines.
+ */
+function csvRecordEnds(content: string): number[] {
+  const ends: number[] = [];
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+    if (ch === '"') {
+      inQuotes = !inQuotes;
+    } else if (ch === "\n" && !inQuotes) {
+      ends.push(i);
+    }
+  }
+
+  if (content.length > 0 && content[content.length - 1] !== "\n") {
+    ends.push(content.length);
+  }
+
+  return ends;
+}
+
+/**
+ * Cap CSV output to a header plus maxRows records.
+ */
+function limitCsvRows(content: string, maxRows: number): RowLimitResult {
+  const ends = csvRecordEnds(content).filter((end, i, all) => {
+    const start = i === 0 ? 0 : all[i - 1] + 1;
+    return content.substring(start, end).trim().length > 0;
+  });
+  const totalRows = Math.max(ends.length - 1, 0);
+
+  if (totalRows <= maxRows) {
+    return { content, truncated: false, totalRows, returnedRows: totalRows };
+  }
+
+  return {
+    content: content.substring(0, ends[maxRows]) + "\n",
+    truncated: true,
+    totalRows,
+    returnedRows: maxRows,
+  };
+}
+
+export function limitRows(content: string, format: "json" | "csv", maxRows: number): RowLimitResult {
+  return format === "csv" ? limitCsvRows(content, maxRows) : limitJsonRows(content, maxRows);
+}
+
+/**
+ * Apply a row cap to tool output. Leaves the output untouched when no cap is set
+ * or the result fits; otherwise marks it as truncated with the number of rows seen.
+ */
+export function applyRowLimit(output: RawOutput, maxRows: number | undefined): RawOutput {
+  if (typeof maxRows !== "number" || !Number.isFinite(maxRows) || maxRows < 0) {
+    return output;
+  }
+
+  const limited = limitRows(output.content, output.format, Math.floor(maxRows));
+  if (!limited.truncated) {
+    return output;
+  }
+
+  logger.debug("[results] Truncated result rows", {
+    format: output.format,
+    totalRows: limited.totalRows,
+    returnedRows: limited.returnedRows,
+  });
+
+  return {
+    ...output,
+    content: limited.content,
+    truncated: true,
+    returned_rows: limited.returnedRows,
+    total_rows: limited.totalRows,
+  };
+}
+
+function describeValueType(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  if (typeof value === "string" || typeof value === "boolean") {
+    return typeof value;
+  }
+  return "json";
+}
+
+/**
+ * Derive column names (in first-seen order) and a JSON type per column.
+ * usql's JSON output carries no type metadata, so types are inferred from values:
+ * integer, number, string, boolean, json, mixed, or unknown when every value is null.
+ */
+function inferColumns(rows: Record<string, unknown>[]): StructuredColumn[] {
+  const types = new Map<string, string | null>();
+
+  for (const row of rows) {
+    for (const [name, value] of Object.entries(row)) {
+      const valueType = describeValueType(value);
+      const current = types.get(name);
+
+      if (current === undefined || current === null) {
+        types.set(name, valueType);
+      } else if (valueType !== null && valueType !== current) {
+        const numeric = new Set([current, valueType]);
+        types.set(name, numeric.has("integer") && numeric.has("number") && numeric.size === 2 ? "number" : "mixed");
+      }
+    }
+  }
+
+  return Array.from(types.entries()).map(([name, type]) => ({ name, type: type ?? "unknown" }));
+}
+
+function toResultSet(value: unknown): StructuredResultSet {
+  const items = Array.isArray(value) ? value : [value];
+  const rows = items.map((item) =>
+    item !== null && typeof item === "object" && !Array.isArray(item)
+      ? (item as Record<string, unknown>)
+      : { value: item }
+  );
+
+  return {
+    columns: inferColumns(rows),
+    rows,
+    row_count: rows.length,
+  };
+}
+
+/**
+ * Parse usql --json stdout into columns/rows. The top-level fields describe the last
+ * result set (the answer to a single query); scripts with several result sets also get
+ * every set under result_sets.
+ */
+export function toStructuredOutput(output: RawOutput): StructuredOutput {
+  const resultSets: StructuredResultSet[] = [];
+  const messages: string[] = [];
+
+  for (const segment of splitOutputSegments(output.content)) {
+    const text = output.content.substring(segment.start, segment.end);
+    if (segment.type === "json") {
+      resultSets.push(toResultSet(JSON.parse(text)));
+    } else {
+      messages.push(text.trim());
+    }
+  }
+
+  const primary = resultSets[resultSets.length - 1] ?? { columns: [], rows: [], row_count: 0 };
+  const structured: StructuredOutput = {
+    format: "structured",
+    columns: primary.columns,
+    rows: primary.rows,
+    row_count: primary.row_count,
+  };
+
+  if (resultSets.length > 1) {
+    structured.result_sets = resultSets;
+  }
+  if (messages.length > 0) {
+    structured.messages = messages;
+  }
+  if (output.truncated) {
+    structured.truncated = true;
+    structured.returned_rows = output.returned_rows;
+    structured.total_rows = output.total_rows;
+  }
+
+  return structured;
+}
+
+/**
+ * The usql output flag to use for a tool output format
+ */
+export function getUsqlFormat(outputFormat: OutputFormat): "json" | "csv" {
+  return outputFormat === "csv" ? "csv" : "json";
+}
+
+/**
+ * Build a tool response from usql stdout: apply the row cap, then either return
+ * the raw text (json/csv) or parse it into structured columns and rows.
+ */
+export function buildToolOutput(
+  stdout: string,
+  outputFormat: OutputFormat,
+  maxRows?: number
+): ToolOutput {
+  const limited = applyRowLimit({ format: getUsqlFormat(outputFormat), content: stdout }, maxRows);
+  return outputFormat === "structured" ? toStructuredOutput(limited) : limited;
+}
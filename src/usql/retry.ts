@@ -0,0 +1,141 @@
+/**
+ * Retry of transient usql failures (connection refused during failover, deadlocks,
+ * serialization failures, lock timeouts) with exponential backoff and jitter.
+ * Whether a failure is transient comes from the error taxonomy; statements that may
+ * write are only retried when the connection's policy allows it.
+ */
+
+import { RetryAttempt, RetryPolicy, UsqlExecutorOptions } from "../types/index.js";
+import { createLogger } from "../utils/logger.js";
+import { classifyError } from "../utils/error-taxonomy.js";
+import { parseUsqlError, parseUsqlErrorDetails } from "./parser.js";
+import { executeUsqlQuery, UsqlExecutionResult } from "./process-executor.js";
+import { classifySql, isReadOnlyStatement } from "./statement-classifier.js";
+
+const logger = createLogger("usql-mcp:retry");
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_INITIAL_DELAY_MS = 200;
+const DEFAULT_MAX_DELAY_MS = 5000;
+const DEFAULT_MULTIPLIER = 2;
+
+export interface RetryOptions {
+  policy?: RetryPolicy;
+  // Whether running the command twice is harmless (see isIdempotentSql)
+  idempotent: boolean;
+  driver?: string;
+}
+
+export interface RetriedExecution {
+  result: UsqlExecutionResult;
+  attempts: RetryAttempt[];
+}
+
+/**
+ * Only statements that cannot change anything are safe to run again after a failure
+ * that may have happened part-way through.
+ */
+export function isIdempotentSql(sql: string, driver?: string): boolean {
+  return classifySql(sql, driver).every(isReadOnlyStatement);
+}
+
+/**
+ * Delay before the given retry (1-based): exponential growth capped at maxDelayMs, with
+ * "equal jitter" so that concurrent callers do not retry in lockstep.
+ */
+export function computeRetryDelay(
+  retry: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  const initial = policy.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS;
+  const multiplier = policy.multiplier ?? DEFAULT_MULTIPLIER;
+  const max = policy.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const base = Math.min(max, initial * Math.pow(multiplier, retry - 1));
+  return Math.round(base / 2 + random() * (base / 2));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error("Operation aborted"));
+      return;
+    }
+    const abortHandler = (): void => {
+      clearTimeout(handle);
+      reject(new Error("Operation aborted by client"));
+    };
+    const handle = setTimeout(() => {
+      signal?.removeEventListener("abort", abortHandler);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", abortHandler, { once: true });
+  });
+}
+
+/**
+ * executeUsqlQuery, retrying failed results that the taxonomy marks as retryable.
+ * Thrown errors (timeouts, aborts, a missing binary) are never retried. The last result
+ * is returned as-is, so callers report errors exactly as without retries.
+ * executorOptions.timeout bounds all attempts and delays together: each attempt gets the
+ * time that is left, and no retry starts once the backoff would use it up.
+ */
+export async function executeWithRetry(
+  connectionString: string,
+  command: string,
+  executorOptions: UsqlExecutorOptions,
+  options: RetryOptions
+): Promise<RetriedExecution> {
+  const policy = options.policy;
+  const maxAttempts =
+    policy && (options.idempotent || policy.retryNonIdempotent)
+      ? Math.max(1, Math.floor(policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS))
+      : 1;
+  const attempts: RetryAttempt[] = [];
+  const timeout = executorOptions.timeout;
+  const deadline = typeof timeout === "number" && timeout > 0 ? Date.now() + timeout : undefined;
+
+  for (let attempt = 1; ; attempt++) {
+    const remaining = deadline === undefined || attempt === 1 ? timeout : deadline - Date.now();
+    const result = await executeUsqlQuery(connectionString, command, {
+      ...executorOptions,
+      timeout: remaining,
+    });
+    if (result.exitCode === 0 || !result.stderr || attempt >= maxAttempts || !policy) {
+      return { result, attempts };
+    }
+
+    const message = parseUsqlError(result.stderr);
+    const classification = classifyError("QueryExecutionError", message, {
+      ...parseUsqlErrorDetails(result.stderr, options.driver),
+    });
+    if (!classification.retryable) {
+      return { result, attempts };
+    }
+
+    const delay = computeRetryDelay(attempt, policy);
+    if (deadline !== undefined && Date.now() + delay >= deadline) {
+      logger.info("[retry] Not retrying, the timeout would expire first", {
+        attempt,
+        errorClass: classification.error_class,
+        delay,
+      });
+      return { result, attempts };
+    }
+    attempts.push({ attempt, error_class: classification.error_class, message, delay_ms: delay });
+    logger.info("[retry] Retrying after transient failure", {
+      attempt,
+      maxAttempts,
+      errorClass: classification.error_class,
+      delay,
+    });
+    await sleep(delay, executorOptions.signal);
+  }
+}
+
+/**
+ * Response/error metadata for the attempt history; empty when nothing was retried
+ */
+export function attemptMetadata(attempts: RetryAttempt[]): { attempts?: RetryAttempt[] } {
+  return attempts.length > 0 ? { attempts } : {};
+}
@@ -0,0 +1,279 @@
+/**
+ * Secret references in configured connection URIs, e.g.
+ * postgres://app:${env:PG_PASSWORD}@db/app or oracle://app:${cmd:pass show db/prod}@host/svc.
+ * References are resolved only when a connection is used, and resolved values are never logged.
+ * ${cmd:...} commands run asynchronously (runCommandSecrets), awaited by whoever resolves the
+ * connection, so the event loop never blocks on one.
+ */
+
+import { exec } from "child_process";
+import { readFileSync } from "fs";
+import { promisify } from "util";
+import { createLogger } from "../utils/logger.js";
+import { createUsqlError, isSensitiveParam } from "../utils/error-handler.js";
+
+const logger = createLogger("usql-mcp:secrets");
+
+const SECRET_REFERENCE = /\$\{([a-z][a-z0-9_-]*):([^}]+)\}/;
+const COMMAND_TIMEOUT_MS = 10000;
+// Rotated credentials are picked up once the output of a command has been used this long
+const COMMAND_OUTPUT_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Returns the secret for the part of a reference after "scheme:"
+ */
+export type SecretProvider = (reference: string) => string;
+
+const execAsync = promisify(exec);
+
+// Successful output is cached: password managers can be slow or prompt for unlocking.
+// Failures are kept only to report them and the command is run again on the next use.
+const commandCache = new Map<string, { value: string; expiresAt: number }>();
+const commandFailures = new Map<string, string>();
+const runningCommands = new Map<string, Promise<void>>();
+
+function stripTrailingNewline(value: string): string {
+  return value.replace(/\r?\n$/, "");
+}
+
+const providers = new Map<string, SecretProvider>([
+  [
+    "env",
+    (name: string): string => {
+      const value = process.env[name];
+      if (value === undefined) {
+        throw new Error(`environment variable ${name} is not set`);
+      }
+      return value;
+    },
+  ],
+  [
+    "file",
+    (path: string): string => {
+      try {
+        return stripTrailingNewline(readFileSync(path, "utf-8"));
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        throw new Error(`cannot read ${path}${code ? ` (${code})` : ""}`);
+      }
+    },
+  ],
+  [
+    "cmd",
+    (command: string): string => {
+      const cached = commandCache.get(command);
+      if (cached && cached.expiresAt > Date.now()) {
+        return cached.value;
+      }
+      // Callers await runCommandSecrets before resolving; without it the command never ran
+      throw new Error(commandFailures.get(command) ?? "command has not been run");
+    },
+  ],
+]);
+
+function startCommand(command: string): Promise<void> {
+  const running = runningCommands.get(command);
+  if (running) {
+    return running;
+  }
+
+  const run = async (): Promise<void> => {
+    try {
+      const child = execAsync(command, { encoding: "utf-8", timeout: COMMAND_TIMEOUT_MS });
+      child.child.stdin?.end();
+      const { stdout } = await child;
+      commandCache.set(command, {
+        value: stripTrailingNewline(stdout),
+        expiresAt: Date.now() + COMMAND_OUTPUT_TTL_MS,
+      });
+      commandFailures.delete(command);
+    } catch (error) {
+      // stderr is left out on purpose: secret tools may echo what they were asked for
+      const code = (error as { code?: unknown }).code;
+      commandFailures.set(
+        command,
+        `command failed${typeof code === "number" ? ` with exit code ${code}` : " or timed out"}`
+      );
+    } finally {
+      runningCommands.delete(command);
+    }
+  };
+
+  const started = run();
+  runningCommands.set(command, started);
+  return started;
+}
+
+/**
+ * Run the ${cmd:...} references in the given values whose output is not cached or has
+ * expired, including commands that failed before. Concurrent callers share one run.
+ */
+export async function runCommandSecrets(values: string[]): Promise<void> {
+  const commands = new Set<string>();
+  for (const value of values) {
+    for (const match of value.matchAll(new RegExp(SECRET_REFERENCE.source, "gi"))) {
+      if (match[1].toLowerCase() === "cmd") {
+        commands.add(match[2].trim());
+      }
+    }
+  }
+
+  const now = Date.now();
+  const due = [...commands].filter(
+    (command) => !((commandCache.get(command)?.expiresAt ?? 0) > now)
+  );
+  if (due.length === 0) {
+    return;
+  }
+  await Promise.all(due.map(startCommand));
+  logger.debug("[secrets] Ran secret commands", { commands: due.length });
+}
+
+/**
+ * Add or replace the provider for ${scheme:...} references
+ */
+export function registerSecretProvider(scheme: string, provider: SecretProvider): void {
+  providers.set(scheme.toLowerCase(), provider);
+}
+
+export function hasSecretReferences(value: string): boolean {
+  return new RegExp(SECRET_REFERENCE.source, "i").test(value);
+}
+
+/**
+ * Replace each reference with a same-length run of "x", so the surrounding URI can be
+ * parsed without resolving anything (a file path or command may contain "/" or "@")
+ */
+export function maskSecretReferences(value: string): string {
+  return value.replace(new RegExp(SECRET_REFERENCE.source, "gi"), (match) =>
+    "x".repeat(match.length)
+  );
+}
+
+/**
+ * Apply encode to the literal text of a value, leaving its secret references intact for
+ * resolveSecretReferences
+ */
+export function encodeAroundSecretReferences(
+  value: string,
+  encode: (text: string) => string
+): string {
+  const reference = new RegExp(SECRET_REFERENCE.source, "gi");
+  let encoded = "";
+  let last = 0;
+  for (const match of value.matchAll(reference)) {
+    encoded += encode(value.slice(last, match.index)) + match[0];
+    last = (match.index ?? 0) + match[0].length;
+  }
+  return encoded + encode(value.slice(last));
+}
+
+/**
+ * Index range of the user:password part of a URI (between "://" and the last "@" of the
+ * authority), in which resolved secrets must be percent-encoded.
+ */
+function findUserInfo(uri: string): [number, number] | undefined {
+  const schemeEnd = uri.indexOf("://");
+  if (schemeEnd === -1) {
+    return undefined;
+  }
+  const start = schemeEnd + 3;
+  const authorityEnd = uri.slice(start).search(/[/?#]/);
+  const authority = authorityEnd === -1 ? uri.slice(start) : uri.slice(start, start + authorityEnd);
+  const at = authority.lastIndexOf("@");
+  return at === -1 ? undefined : [start, start + at];
+}
+
+/**
+ * Whether a value consists of secret references only, so showing it reveals nothing
+ */
+export function isSecretReferenceOnly(value: string): boolean {
+  return hasSecretReferences(value) && /^x*$/.test(maskSecretReferences(value));
+}
+
+/**
+ * Mask the password and credential-like query parameters of a configured URI for display.
+ * Values given as secret references are kept, since they name the source and not the secret.
+ */
+export function redactConnectionUri(uri: string): string {
+  const masked = maskSecretReferences(uri);
+
+  // Query parameters first; masking keeps offsets in masked and uri aligned
+  let redacted = "";
+  let last = 0;
+  const queryStart = masked.indexOf("?");
+  if (queryStart !== -1) {
+    for (const match of masked.slice(queryStart).matchAll(/[?&]([^=&#]*)=([^&#]*)/g)) {
+      const valueEnd = queryStart + (match.index ?? 0) + match[0].length;
+      const valueStart = valueEnd - match[2].length;
+      if (isSensitiveParam(match[1]) && !isSecretReferenceOnly(uri.slice(valueStart, valueEnd))) {
+        redacted += `${uri.slice(last, valueStart)}***`;
+        last = valueEnd;
+      }
+    }
+  }
+  redacted += uri.slice(last);
+
+  const userInfo = findUserInfo(masked);
+  if (!userInfo) {
+    return redacted;
+  }
+  const colon = masked.indexOf(":", userInfo[0]);
+  if (colon === -1 || colon >= userInfo[1]) {
+    return redacted;
+  }
+  const password = uri.slice(colon + 1, userInfo[1]);
+  if (isSecretReferenceOnly(password)) {
+    return redacted;
+  }
+  return `${redacted.slice(0, colon + 1)}***${redacted.slice(userInfo[1])}`;
+}
+
+/**
+ * Replace every secret reference in a configured connection URI. Values placed in the
+ * user:password part are percent-encoded so that characters such as "@" or "/" are safe.
+ * Errors name the reference that failed, never a resolved value.
+ */
+export function resolveSecretReferences(uri: string, connectionName?: string): string {
+  if (!hasSecretReferences(uri)) {
+    return uri;
+  }
+
+  const userInfo = findUserInfo(maskSecretReferences(uri));
+
+  const resolved = uri.replace(
+    new RegExp(SECRET_REFERENCE.source, "gi"),
+    (_match: string, scheme: string, reference: string, offset: number) => {
+      const provider = providers.get(scheme.toLowerCase());
+      if (!provider) {
+        throw createUsqlError(
+          "SecretResolutionError",
+          `Unknown secret provider "${scheme}" in connection ${connectionName ?? "URI"}. Available providers: ${Array.from(providers.keys()).join(", ")}`
+        );
+      }
+
+      let value: string;
+      try {
+        value = provider(reference.trim());
+      } catch (error) {
+        throw createUsqlError(
+          "SecretResolutionError",
+          `Could not resolve \${${scheme}:...} in connection ${connectionName ?? "URI"}: ${error instanceof Error ? error.message : String(error)}`,
+          { connection: connectionName, provider: scheme }
+        );
+      }
+
+      const inUserInfo = userInfo !== undefined && offset >= userInfo[0] && offset < userInfo[1];
+      return inUserInfo ? encodeURIComponent(value) : value;
+    }
+  );
+
+  logger.debug("[secrets] Resolved secret references", { connection: connectionName });
+  return resolved;
+}
+
+// Test-only helper, also used when the configuration is reloaded
+export function clearSecretCache(): void {
+  commandCache.clear();
+  commandFailures.clear();
+}
@@ -0,0 +1,402 @@
+/**
+ * Long-lived usql processes for multi-step work (BEGIN, inspect, COMMIT across tool calls)
+ * Each command is written to usql's stdin followed by \echo of a random marker; stdout up to
+ * the marker line is that command's output. Closing a session rolls back any open transaction.
+ */
+
+import { spawn, ChildProcess } from "child_process";
+import { randomUUID } from "crypto";
+import { createLogger } from "../utils/logger.js";
+import { createUsqlError } from "../utils/error-handler.js";
+import { formatConnectionStringForLogging } from "./connection.js";
+import { parseUsqlError } from "./parser.js";
+import { resolveUsqlBinary, UsqlExecutionResult } from "./process-executor.js";
+import { terminateStatement } from "./statement-classifier.js";
+
+const logger = createLogger("usql-mcp:session-manager");
+
+const CLOSE_GRACE_MS = 5000;
+const DEFAULT_OPEN_TIMEOUT_MS = 30000;
+const ERROR_LINE = /^error:/im;
+
+export interface SessionInfo {
+  id: string;
+  connection: string; // Sanitized for display
+  driver: string;
+  openedAt: Date;
+  lastUsedAt: Date;
+  idleTimeoutMs: number;
+}
+
+export interface OpenSessionOptions {
+  connectionString: string;
+  connectionName?: string;
+  driver: string;
+  idleTimeoutMs: number;
+  timeout?: number;
+}
+
+export interface SessionCommandOptions {
+  timeout?: number;
+  format?: "json" | "csv";
+  signal?: AbortSignal;
+}
+
+interface PendingCommand {
+  marker: string;
+  resolve: (result: UsqlExecutionResult) => void;
+  reject: (error: unknown) => void;
+}
+
+export class UsqlSession {
+  readonly id = randomUUID();
+  readonly openedAt = new Date();
+  lastUsedAt = new Date();
+
+  private child: ChildProcess;
+  private stdoutBuffer = "";
+  private stderrBuffer = "";
+  private pending: PendingCommand | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private closed = false;
+  private format: "json" | "csv" = "json";
+  private idleTimer: NodeJS.Timeout | null = null;
+  private exited: Promise<void>;
+
+  constructor(
+    private options: OpenSessionOptions,
+    private onClosed: (session: UsqlSession) => void
+  ) {
+    this.child = spawn(resolveUsqlBinary(), [options.connectionString, "--json"], {
+      detached: true,
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+
+    logger.debug("[session-manager] Spawned session process", {
+      sessionId: this.id,
+      pid: this.child.pid,
+      connectionString: formatConnectionStringForLogging(options.connectionString),
+    });
+
+    this.child.stdout?.on("data", (data) => {
+      this.stdoutBuffer += data.toString();
+      this.checkForMarker();
+    });
+
+    this.child.stderr?.on("data", (data) => {
+      this.stderrBuffer += data.toString();
+    });
+
+    // Writes after usql has exited fail with EPIPE; the close handler reports the real cause
+    this.child.stdin?.on("error", (error) => {
+      logger.debug("[session-manager] Session stdin error", { sessionId: this.id, error: error.message });
+    });
+
+    this.exited = new Promise((resolve) => {
+      this.child.on("error", (error) => {
+        logger.error("[session-manager] Session process error", error);
+        this.handleExit(`Failed to start usql: ${error.message}`);
+        resolve();
+      });
+      this.child.on("close", (exitCode) => {
+        const stderr = this.stderrBuffer.trim();
+        this.handleExit(
+          stderr ? parseUsqlError(stderr) : `usql exited with code ${exitCode ?? "unknown"}`
+        );
+        resolve();
+      });
+    });
+  }
+
+  get connectionString(): string {
+    return this.options.connectionString;
+  }
+
+  get connectionName(): string | undefined {
+    return this.options.connectionName;
+  }
+
+  get driver(): string {
+    return this.options.driver;
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  info(): SessionInfo {
+    return {
+      id: this.id,
+      connection: formatConnectionStringForLogging(this.options.connectionString),
+      driver: this.options.driver,
+      openedAt: this.openedAt,
+      lastUsedAt: this.lastUsedAt,
+      idleTimeoutMs: this.options.idleTimeoutMs,
+    };
+  }
+
+  /**
+   * Wait until usql answers a first marker, i.e. the connection is usable
+   */
+  async ready(): Promise<void> {
+    await this.execute("", { timeout: this.options.timeout ?? DEFAULT_OPEN_TIMEOUT_MS });
+  }
+
+  /**
+   * Run a command in the session. Commands are serialised; a timeout or abort ends the
+   * session because usql cannot cancel a single statement over stdin.
+   */
+  execute(command: string, options: SessionCommandOptions = {}): Promise<UsqlExecutionResult> {
+    const run = async (): Promise<UsqlExecutionResult> => {
+      const format = options.format ?? "json";
+      if (format !== this.format) {
+        await this.runCommand(`\\pset format ${format}`, options);
+        this.format = format;
+      }
+      return this.runCommand(terminateStatement(command), options);
+    };
+
+    const result = this.queue.then(run, run);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private runCommand(command: string, options: SessionCommandOptions): Promise<UsqlExecutionResult> {
+    if (this.closed) {
+      return Promise.reject(createUsqlError("SessionClosed", `Session ${this.id} is closed`));
+    }
+    if (options.signal?.aborted) {
+      return Promise.reject(new Error("Operation aborted"));
+    }
+
+    this.clearIdleTimer();
+    const marker = `__usql_mcp_${randomUUID().replace(/-/g, "")}__`;
+
+    return new Promise<UsqlExecutionResult>((resolve, reject) => {
+      let timeoutHandle: NodeJS.Timeout | null = null;
+
+      const cleanup = (): void => {
+        if (timeoutHandle) {
+          clearTimeout(timeoutHandle);
+        }
+        options.signal?.removeEventListener("abort", abortHandler);
+        this.lastUsedAt = new Date();
+        this.scheduleIdleClose();
+      };
+
+      const abortHandler = (): void => {
+        cleanup();
+        reject(new Error("Operation aborted by client"));
+        this.terminate("aborted");
+      };
+
+      if (typeof options.timeout === "number" && options.timeout > 0) {
+        timeoutHandle = setTimeout(() => {
+          cleanup();
+          reject(
+            createUsqlError(
+              "QueryTimeout",
+              `Session command timed out after ${options.timeout}ms; the session was closed and its transaction rolled back.`,
+              { timeout: options.timeout, sessionId: this.id, command: command.substring(0, 100) }
+            )
+          );
+          this.terminate("timeout");
+        }, options.timeout);
+      }
+
+      options.signal?.addEventListener("abort", abortHandler, { once: true });
+
+      this.pending = {
+        marker,
+        resolve: (result): void => {
+          cleanup();
+          resolve(result);
+        },
+        reject: (error): void => {
+          cleanup();
+          reject(error);
+        },
+      };
+
+      this.child.stdin?.write(`${command}\n\\echo ${marker}\n`);
+    });
+  }
+
+  private checkForMarker(): void {
+    const pending = this.pending;
+    if (!pending) {
+      return;
+    }
+
+    const index = this.stdoutBuffer.indexOf(`${pending.marker}\n`);
+    if (index === -1 || (index > 0 && this.stdoutBuffer[index - 1] !== "\n")) {
+      return;
+    }
+
+    const stdout = this.stdoutBuffer.substring(0, index);
+    this.stdoutBuffer = this.stdoutBuffer.substring(index + pending.marker.length + 1);
+    this.pending = null;
+
+    // stderr is a separate pipe; give chunks written before the marker a turn to arrive
+    setImmediate(() => {
+      const stderr = this.stderrBuffer;
+      this.stderrBuffer = "";
+      pending.resolve({ stdout, stderr, exitCode: ERROR_LINE.test(stderr) ? 1 : 0 });
+    });
+  }
+
+  private handleExit(reason: string): void {
+    const wasClosed = this.closed;
+    this.closed = true;
+    this.clearIdleTimer();
+
+    if (this.pending) {
+      const pending = this.pending;
+      this.pending = null;
+      pending.reject(
+        createUsqlError("SessionClosed", `Session ${this.id} ended: ${reason}`, { sessionId: this.id })
+      );
+    }
+
+    if (!wasClosed) {
+      logger.debug("[session-manager] Session process exited", { sessionId: this.id, reason });
+    }
+    this.onClosed(this);
+  }
+
+  private terminate(reason: string): void {
+    if (this.child.exitCode !== null || this.child.signalCode !== null) {
+      return;
+    }
+    logger.debug("[session-manager] Terminating session process", { sessionId: this.id, reason });
+    this.closed = true;
+    try {
+      if (this.child.pid) {
+        process.kill(-this.child.pid);
+      }
+    } catch (error) {
+      logger.warn("[session-manager] Failed to kill session process", { error });
+    }
+  }
+
+  /**
+   * Roll back and quit. A session that is still running a command is killed instead,
+   * which drops the connection and rolls back on the server side.
+   */
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.clearIdleTimer();
+
+    if (this.pending) {
+      this.terminate("closed while busy");
+    } else {
+      this.closed = true;
+      this.child.stdin?.write("ROLLBACK;\n\\q\n");
+      this.child.stdin?.end();
+    }
+
+    const graceHandle = setTimeout(() => this.terminate("close timed out"), CLOSE_GRACE_MS);
+    await this.exited;
+    clearTimeout(graceHandle);
+  }
+
+  private scheduleIdleClose(): void {
+    this.clearIdleTimer();
+    if (this.closed || this.options.idleTimeoutMs <= 0) {
+      return;
+    }
+    this.idleTimer = setTimeout(() => {
+      logger.info("[session-manager] Closing idle session", {
+        sessionId: this.id,
+        idleTimeoutMs: this.options.idleTimeoutMs,
+      });
+      this.close().catch((error) => logger.error("[session-manager] Failed to close idle session", error));
+    }, this.options.idleTimeoutMs);
+    this.idleTimer.unref();
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
+
+class SessionManager {
+  private sessions = new Map<string, UsqlSession>();
+
+  async openSession(options: OpenSessionOptions): Promise<UsqlSession> {
+    const session = new UsqlSession(options, (closed) => {
+      if (this.sessions.get(closed.id) === closed) {
+        this.sessions.delete(closed.id);
+        logger.debug("[session-manager] Session removed", { sessionId: closed.id, remaining: this.sessions.size });
+      }
+    });
+    this.sessions.set(session.id, session);
+
+    try {
+      await session.ready();
+    } catch (error) {
+      await session.close();
+      this.sessions.delete(session.id);
+      throw error;
+    }
+
+    logger.debug("[session-manager] Opened session", { sessionId: session.id, driver: options.driver });
+    return session;
+  }
+
+  getSession(sessionId: string): UsqlSession {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.isClosed) {
+      throw createUsqlError(
+        "SessionNotFound",
+        `Session not found: ${sessionId}. It may have been closed or timed out after being idle; open a new one with open_session.`,
+        { sessionId }
+      );
+    }
+    return session;
+  }
+
+  async closeSession(sessionId: string): Promise<SessionInfo> {
+    const session = this.getSession(sessionId);
+    const info = session.info();
+    await session.close();
+    this.sessions.delete(sessionId);
+    return info;
+  }
+
+  getSessions(): SessionInfo[] {
+    return Array.from(this.sessions.values()).map((session) => session.info());
+  }
+
+  async closeAll(): Promise<void> {
+    const sessions = Array.from(this.sessions.values());
+    this.sessions.clear();
+    await Promise.all(sessions.map((session) => session.close()));
+    if (sessions.length > 0) {
+      logger.debug("[session-manager] Closed all sessions", { count: sessions.length });
+    }
+  }
+}
+
+// Singleton instance
+let manager: SessionManager | null = null;
+
+export function getSessionManager(): SessionManager {
+  if (!manager) {
+    manager = new SessionManager();
+  }
+  return manager;
+}
+
+export async function shutdownSessionManager(): Promise<void> {
+  if (manager) {
+    const current = manager;
+    manager = null;
+    await current.closeAll();
+  }
+}
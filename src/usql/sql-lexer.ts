@@ -0,0 +1,208 @@
+/**
+ * Minimal SQL lexer shared by the statement classifier and parameter binding
+ * Recognises just enough syntax to tell code apart from comments, string literals,
+ * quoted identifiers, dollar-quoted bodies and usql backslash meta-commands, using the
+ * quoting rules of the target driver. Anything it does not understand is emitted as
+ * single-character punctuation.
+ */
+
+/**
+ * - word:    unquoted identifier or keyword, upper-cased
+ * - quoted:  quoted identifier ("x", `x`, [x])
+ * - literal: string literal, E'' escape string or dollar-quoted body
+ * - punct:   any other single character (operators, digits, ';', '(', '$', '?', ...)
+ * - meta:    usql backslash meta-command, up to the next backslash or end of line
+ */
+export type SqlTokenType = "word" | "quoted" | "literal" | "punct" | "meta";
+
+export interface SqlToken {
+  type: SqlTokenType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+export interface LexedSql {
+  tokens: SqlToken[];
+  // A literal, quoted identifier or block comment runs past the end of the input,
+  // so where it was meant to end is unknown
+  unterminated: boolean;
+}
+
+// A driver of undefined gets the most inclusive rules, so nothing is mistaken for code
+type DriverSet = Set<string | undefined>;
+
+const BACKSLASH_ESCAPE_DRIVERS: DriverSet = new Set(["mysql"]);
+const ESCAPE_STRING_DRIVERS: DriverSet = new Set([undefined, "postgres", "duckdb"]);
+const DOLLAR_QUOTE_DRIVERS: DriverSet = new Set([undefined, "postgres", "duckdb"]);
+const NESTED_COMMENT_DRIVERS: DriverSet = new Set([
+  undefined,
+  "postgres",
+  "duckdb",
+  "mssql",
+  "sybase",
+]);
+const BACKTICK_DRIVERS: DriverSet = new Set([undefined, "mysql", "sqlite3", "clickhouse"]);
+const BRACKET_DRIVERS: DriverSet = new Set(["mssql", "sybase"]);
+const HASH_COMMENT_DRIVERS: DriverSet = new Set(["mysql"]);
+
+const DOLLAR_TAG = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/;
+const WORD = /^[A-Za-z_][A-Za-z0-9_$]*/;
+
+/**
+ * Return the index just past the closing quote, or -1 if the input ends first.
+ * A doubled closing quote is an escaped quote.
+ */
+function scanQuoted(sql: string, from: number, close: string, backslashEscapes: boolean): number {
+  let i = from + 1;
+  while (i < sql.length) {
+    const ch = sql[i];
+    if (backslashEscapes && ch === "\\") {
+      i += 2;
+      continue;
+    }
+    if (ch === close) {
+      if (sql[i + 1] === close) {
+        i += 2;
+        continue;
+      }
+      return i + 1;
+    }
+    i++;
+  }
+  return -1;
+}
+
+function scanBlockComment(sql: string, from: number, nested: boolean): number {
+  let depth = 1;
+  let i = from + 2;
+  while (i < sql.length) {
+    if (nested && sql[i] === "/" && sql[i + 1] === "*") {
+      depth++;
+      i += 2;
+    } else if (sql[i] === "*" && sql[i + 1] === "/") {
+      depth--;
+      i += 2;
+      if (depth === 0) {
+        return i;
+      }
+    } else {
+      i++;
+    }
+  }
+  return -1;
+}
+
+function isIdentifierChar(ch: string | undefined): boolean {
+  return ch !== undefined && /[A-Za-z0-9_$]/.test(ch);
+}
+
+/**
+ * Split SQL into tokens, skipping whitespace and comments.
+ */
+export function lexSql(sql: string, driver?: string): LexedSql {
+  const tokens: SqlToken[] = [];
+  const backslashEscapes = BACKSLASH_ESCAPE_DRIVERS.has(driver);
+  let unterminated = false;
+  let i = 0;
+
+  const push = (type: SqlTokenType, end: number): void => {
+    if (end === -1) {
+      unterminated = true;
+      end = sql.length;
+    }
+    const text = sql.substring(i, end);
+    tokens.push({ type, value: type === "word" ? text.toUpperCase() : text, start: i, end });
+    i = end;
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // MySQL only starts a "--" comment when whitespace follows
+    if (ch === "-" && next === "-" && (driver !== "mysql" || /\s/.test(sql[i + 2] ?? " "))) {
+      const newline = sql.indexOf("\n", i);
+      i = newline === -1 ? sql.length : newline + 1;
+      continue;
+    }
+
+    if (ch === "#" && HASH_COMMENT_DRIVERS.has(driver)) {
+      const newline = sql.indexOf("\n", i);
+      i = newline === -1 ? sql.length : newline + 1;
+      continue;
+    }
+
+    if (ch === "/" && next === "*") {
+      const end = scanBlockComment(sql, i, NESTED_COMMENT_DRIVERS.has(driver));
+      if (end === -1) {
+        unterminated = true;
+        break;
+      }
+      i = end;
+      continue;
+    }
+
+    if (ch === "\\") {
+      let end = i + 1;
+      while (end < sql.length && sql[end] !== "\\" && sql[end] !== "\n") {
+        end++;
+      }
+      push("meta", end);
+      continue;
+    }
+
+    if (ch === "'") {
+      push("literal", scanQuoted(sql, i, "'", backslashEscapes));
+      continue;
+    }
+
+    if (ch === '"') {
+      // MySQL treats double quotes as strings unless ANSI_QUOTES is set
+      push(backslashEscapes ? "literal" : "quoted", scanQuoted(sql, i, '"', backslashEscapes));
+      continue;
+    }
+
+    if (ch === "`" && BACKTICK_DRIVERS.has(driver)) {
+      push("quoted", scanQuoted(sql, i, "`", false));
+      continue;
+    }
+
+    if (ch === "[" && BRACKET_DRIVERS.has(driver)) {
+      push("quoted", scanQuoted(sql, i, "]", false));
+      continue;
+    }
+
+    if (ch === "$" && DOLLAR_QUOTE_DRIVERS.has(driver) && !isIdentifierChar(sql[i - 1])) {
+      const tag = DOLLAR_TAG.exec(sql.substring(i, i + 256));
+      if (tag) {
+        const close = sql.indexOf(tag[0], i + tag[0].length);
+        push("literal", close === -1 ? -1 : close + tag[0].length);
+        continue;
+      }
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = WORD.exec(sql.substring(i, i + 256));
+      const word = match ? match[0] : ch;
+
+      // E'...' escape strings take backslash escapes regardless of standard_conforming_strings
+      if ((word === "E" || word === "e") && next === "'" && ESCAPE_STRING_DRIVERS.has(driver)) {
+        push("literal", scanQuoted(sql, i + 1, "'", true));
+        continue;
+      }
+
+      push("word", i + word.length);
+      continue;
+    }
+
+    push("punct", i + 1);
+  }
+
+  return { tokens, unterminated };
+}
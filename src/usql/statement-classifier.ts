@@ -0,0 +1,420 @@
+/**
+ * SQL statement classification for read-only enforcement and script auditing
+ * Tokenizes just enough SQL to ignore comments, string literals, quoted identifiers
+ * and dollar-quoted bodies, then classifies each statement by what it can change.
+ */
+
+import { createLogger } from "../utils/logger.js";
+import { createUsqlError } from "../utils/error-handler.js";
+import { SqlTokenType, lexSql } from "./sql-lexer.js";
+
+const logger = createLogger("usql-mcp:statement-classifier");
+
+/**
+ * - read:        cannot modify data (SELECT, SHOW, EXPLAIN, usql \d meta-commands)
+ * - write:       modifies data or takes write locks (INSERT, UPDATE, SELECT ... FOR UPDATE)
+ * - ddl:         modifies schema or privileges (CREATE, DROP, GRANT, TRUNCATE)
+ * - transaction: transaction control (BEGIN, COMMIT, ROLLBACK, SAVEPOINT)
+ * - session:     session settings (SET, RESET, USE)
+ * - unknown:     anything that cannot be proven harmless (CALL, DO, EXEC, \i, \!)
+ */
+export type StatementKind = "read" | "write" | "ddl" | "transaction" | "session" | "unknown";
+
+export interface ClassifiedStatement {
+  text: string;
+  keyword: string;
+  kind: StatementKind;
+  // Calls a function whose effect a rollback does not undo (nextval, dblink_exec, ...)
+  sideEffects?: boolean;
+}
+
+interface Token {
+  type: SqlTokenType;
+  value: string;
+  depth: number;
+}
+
+interface RawStatement {
+  text: string;
+  tokens: Token[];
+  meta: boolean;
+  // Ends inside a literal, quoted identifier or comment that is never closed
+  unterminated: boolean;
+}
+
+const READ_KEYWORDS = new Set(["SELECT", "VALUES", "TABLE", "SHOW", "DESCRIBE", "DESC", "HELP"]);
+const WRITE_KEYWORDS = new Set([
+  "INSERT",
+  "UPDATE",
+  "DELETE",
+  "MERGE",
+  "UPSERT",
+  "REPLACE",
+  "LOCK",
+  "LOAD",
+  "VACUUM",
+  "ANALYZE",
+  "REINDEX",
+  "CLUSTER",
+  "OPTIMIZE",
+  "REFRESH",
+]);
+const DDL_KEYWORDS = new Set([
+  "CREATE",
+  "ALTER",
+  "DROP",
+  "TRUNCATE",
+  "RENAME",
+  "COMMENT",
+  "GRANT",
+  "REVOKE",
+]);
+const TRANSACTION_KEYWORDS = new Set([
+  "COMMIT",
+  "ROLLBACK",
+  "END",
+  "SAVEPOINT",
+  "RELEASE",
+  "ABORT",
+]);
+const BEGIN_FOLLOWERS = new Set([
+  "TRANSACTION",
+  "TRAN",
+  "WORK",
+  "ISOLATION",
+  "READ",
+  "DEFERRED",
+  "IMMEDIATE",
+  "EXCLUSIVE",
+]);
+const DML_WORDS = new Set(["INSERT", "UPDATE", "DELETE", "MERGE"]);
+const READ_ONLY_META_COMMAND = /^\\(d[a-zA-Z+]*|l\+?|dt\+?|conninfo|echo|qecho|timing|encoding|copyright|drivers|errverbose|\?)(\s|$)/;
+
+/**
+ * Functions that change server state even when called from a SELECT. User-defined
+ * functions can do the same, which is why read-only postgres connections are also put in
+ * a read-only session (see applyReadOnlySession).
+ */
+const SIDE_EFFECT_FUNCTIONS = new Set([
+  "NEXTVAL",
+  "SETVAL",
+  "SET_CONFIG",
+  "PG_TERMINATE_BACKEND",
+  "PG_CANCEL_BACKEND",
+  "PG_RELOAD_CONF",
+  "PG_ROTATE_LOGFILE",
+  "PG_SWITCH_WAL",
+  "PG_PROMOTE",
+  "PG_CREATE_RESTORE_POINT",
+  "PG_LOGICAL_EMIT_MESSAGE",
+  "PG_ADVISORY_LOCK",
+  "PG_ADVISORY_XACT_LOCK",
+  "PG_CREATE_LOGICAL_REPLICATION_SLOT",
+  "PG_CREATE_PHYSICAL_REPLICATION_SLOT",
+  "PG_DROP_REPLICATION_SLOT",
+  "PG_FILE_WRITE",
+  "LO_IMPORT",
+  "LO_EXPORT",
+  "LO_UNLINK",
+  "LO_CREATE",
+  "LO_FROM_BYTEA",
+  "LO_PUT",
+  "DBLINK",
+  "DBLINK_EXEC",
+  "DBLINK_SEND_QUERY",
+  "GET_LOCK",
+  "RELEASE_LOCK",
+  "LOAD_EXTENSION",
+]);
+
+/**
+ * Split SQL into statements on ';' and usql meta-commands. Each meta-command is a
+ * statement of its own; any SQL before it on the line is the query buffer it runs.
+ */
+function tokenizeStatements(sql: string, driver?: string): RawStatement[] {
+  const lexed = lexSql(sql, driver);
+  const statements: RawStatement[] = [];
+  let tokens: Token[] = [];
+  let start = 0;
+  let depth = 0;
+
+  const finish = (end: number, unterminated = false): void => {
+    const text = sql.substring(start, end).trim();
+    if (text.length > 0 && (tokens.length > 0 || unterminated)) {
+      statements.push({ text, tokens, meta: false, unterminated });
+    }
+    tokens = [];
+    depth = 0;
+  };
+
+  for (const token of lexed.tokens) {
+    if (token.type === "meta") {
+      finish(token.start);
+      statements.push({ text: token.value.trim(), tokens: [], meta: true, unterminated: false });
+      start = token.end;
+      continue;
+    }
+
+    if (token.type === "punct" && token.value === ";") {
+      finish(token.start);
+      start = token.end;
+      continue;
+    }
+
+    if (tokens.length === 0) {
+      start = token.start;
+    }
+
+    if (token.type === "punct" && token.value === ")") {
+      depth = Math.max(depth - 1, 0);
+    }
+    tokens.push({ type: token.type, value: token.value, depth });
+    if (token.type === "punct" && token.value === "(") {
+      depth++;
+    }
+  }
+
+  finish(sql.length, lexed.unterminated);
+  return statements;
+}
+
+function words(tokens: Token[]): string[] {
+  return tokens.filter((t) => t.type === "word").map((t) => t.value);
+}
+
+function callsSideEffectFunction(tokens: Token[]): boolean {
+  return tokens.some((token, index) => {
+    const next = tokens[index + 1];
+    if (!next || next.type !== "punct" || next.value !== "(") {
+      return false;
+    }
+    const name = token.type === "quoted" ? token.value.slice(1, -1).toUpperCase() : token.value;
+    return (token.type === "word" || token.type === "quoted") && SIDE_EFFECT_FUNCTIONS.has(name);
+  });
+}
+
+/**
+ * True when a SELECT-shaped statement modifies data or takes row locks:
+ * data-modifying CTEs, SELECT ... INTO, FOR UPDATE / FOR SHARE, LOCK IN SHARE MODE,
+ * or a call to a known side-effecting function such as setval().
+ */
+function selectHasSideEffects(tokens: Token[]): boolean {
+  const ws = words(tokens);
+  for (let i = 0; i < ws.length; i++) {
+    const word = ws[i];
+    if (DML_WORDS.has(word) && ws[i - 1] !== "FOR" && ws[i - 1] !== "NO" && ws[i - 1] !== "KEY") {
+      return true;
+    }
+    if (word === "INTO") {
+      return true;
+    }
+    if (word === "FOR" && ["UPDATE", "SHARE", "NO", "KEY"].includes(ws[i + 1])) {
+      return true;
+    }
+    if (word === "LOCK" && ws[i + 1] === "IN") {
+      return true;
+    }
+  }
+  return callsSideEffectFunction(tokens);
+}
+
+/**
+ * COPY only reads when it streams to the client (TO STDOUT). COPY ... FROM STDIN loads
+ * data; copying to or from a server-side file or PROGRAM touches the server host.
+ */
+function classifyCopy(tokens: Token[]): StatementKind {
+  const ws = tokens.filter((t) => t.type === "word" && t.depth === 0).map((t) => t.value);
+  const direction = ws.findIndex((w) => w === "TO" || w === "FROM");
+  if (direction === -1) {
+    return "unknown";
+  }
+  if (ws[direction] === "FROM") {
+    return ws[direction + 1] === "STDIN" ? "write" : "unknown";
+  }
+  if (ws[direction + 1] !== "STDOUT") {
+    return "unknown";
+  }
+  return selectHasSideEffects(tokens) ? "write" : "read";
+}
+
+/**
+ * Whether a SET/BEGIN/START could lift the read-only session that read-only connections
+ * run in (SET TRANSACTION READ WRITE, SET default_transaction_read_only = off, ...).
+ */
+function changesReadOnlyMode(tokens: Token[]): boolean {
+  const ws = words(tokens);
+  return (
+    ws.some((w, i) => w === "READ" && ws[i + 1] === "WRITE") ||
+    ws.some((w) => w.endsWith("TRANSACTION_READ_ONLY") || w === "TX_READ_ONLY") ||
+    tokens.some((t) => t.type === "quoted" && /transaction_read_only/i.test(t.value))
+  );
+}
+
+function classifyTokens(tokens: Token[]): StatementKind {
+  const ws = words(tokens);
+  const first = ws[0];
+  const firstToken = tokens[0];
+
+  if (!first || firstToken.type !== "word") {
+    // Parenthesised query: (SELECT ...) UNION (SELECT ...)
+    if (firstToken?.value === "(" && ws[0] && (ws[0] === "SELECT" || ws[0] === "WITH")) {
+      return selectHasSideEffects(tokens) ? "write" : "read";
+    }
+    return "unknown";
+  }
+
+  if (first === "SELECT" || first === "WITH" || first === "VALUES" || first === "TABLE") {
+    return selectHasSideEffects(tokens) ? "write" : "read";
+  }
+
+  if (first === "EXPLAIN") {
+    // EXPLAIN ANALYZE executes the statement it explains. The option can appear anywhere
+    // before that statement, including inside a parenthesised option list.
+    const isAnalyze = (t: Token): boolean =>
+      t.type === "word" && (t.value === "ANALYZE" || t.value === "ANALYSE");
+    const target = tokens.findIndex(
+      (t, index) =>
+        index > 0 &&
+        t.type === "word" &&
+        t.depth === 0 &&
+        !isAnalyze(t) &&
+        (READ_KEYWORDS.has(t.value) || t.value === "WITH" || WRITE_KEYWORDS.has(t.value))
+    );
+    const options = target === -1 ? tokens.slice(1) : tokens.slice(1, target);
+    const analyzes = options.some(isAnalyze);
+    if (!analyzes) {
+      return "read";
+    }
+    return target === -1 ? "unknown" : classifyTokens(tokens.slice(target));
+  }
+
+  if (READ_KEYWORDS.has(first)) {
+    return "read";
+  }
+
+  if (first === "PRAGMA") {
+    return tokens.some((t) => t.type === "punct" && t.value === "=") ? "write" : "read";
+  }
+
+  if (first === "COPY") {
+    return classifyCopy(tokens);
+  }
+
+  if (WRITE_KEYWORDS.has(first)) {
+    return "write";
+  }
+
+  if (DDL_KEYWORDS.has(first)) {
+    return "ddl";
+  }
+
+  if (first === "BEGIN") {
+    // Oracle/T-SQL anonymous blocks also start with BEGIN
+    const transaction = ws.length === 1 || BEGIN_FOLLOWERS.has(ws[1]);
+    return transaction && !changesReadOnlyMode(tokens) ? "transaction" : "unknown";
+  }
+
+  if (first === "START") {
+    return ws[1] === "TRANSACTION" && !changesReadOnlyMode(tokens) ? "transaction" : "unknown";
+  }
+
+  if (TRANSACTION_KEYWORDS.has(first)) {
+    return "transaction";
+  }
+
+  if (first === "SET") {
+    return ["GLOBAL", "PERSIST", "PERSIST_ONLY"].includes(ws[1]) || changesReadOnlyMode(tokens)
+      ? "unknown"
+      : "session";
+  }
+
+  if (first === "RESET" || first === "USE") {
+    return "session";
+  }
+
+  return "unknown";
+}
+
+/**
+ * Make sure the last statement is terminated so that whatever is written after it (a
+ * meta-command, a marker) cannot end up inside an unfinished query buffer. A trailing
+ * line comment gets the terminator on its own line.
+ */
+export function terminateStatement(sql: string): string {
+  const trimmed = sql.trim();
+  if (trimmed.length === 0 || trimmed.startsWith("\\")) {
+    return trimmed;
+  }
+  const lastLine = trimmed.substring(trimmed.lastIndexOf("\n") + 1);
+  if (lastLine.includes("--")) {
+    return `${trimmed}\n;`;
+  }
+  return trimmed.endsWith(";") ? trimmed : `${trimmed};`;
+}
+
+/**
+ * Split a script into statements and classify each of them. Input that ends inside an
+ * unclosed literal or comment is unknown, since where the server ends it cannot be told.
+ * A single allow-listed meta-command is a read; when an input holds several, none of
+ * them is trusted.
+ */
+export function classifySql(sql: string, driver?: string): ClassifiedStatement[] {
+  const statements = tokenizeStatements(sql, driver);
+  const metaCount = statements.filter((statement) => statement.meta).length;
+
+  return statements.map((statement) => {
+    if (statement.meta) {
+      const command = statement.text.split(/\s/)[0];
+      const allowed =
+        metaCount === 1 &&
+        READ_ONLY_META_COMMAND.test(statement.text) &&
+        !statement.text.includes("`");
+      return { text: statement.text, keyword: command, kind: allowed ? "read" : "unknown" };
+    }
+
+    const firstWord = statement.tokens.find((t) => t.type === "word");
+    const classified: ClassifiedStatement = {
+      text: statement.text,
+      keyword: firstWord ? firstWord.value : statement.text.substring(0, 20),
+      kind: statement.unterminated ? "unknown" : classifyTokens(statement.tokens),
+    };
+    if (callsSideEffectFunction(statement.tokens)) {
+      classified.sideEffects = true;
+    }
+    return classified;
+  });
+}
+
+export function isReadOnlyStatement(statement: ClassifiedStatement): boolean {
+  return statement.kind === "read" || statement.kind === "transaction" || statement.kind === "session";
+}
+
+/**
+ * Throw ReadOnlyViolation if any statement could modify data, schema or server state.
+ */
+export function assertReadOnlySql(sql: string, driver?: string): void {
+  const statements = classifySql(sql, driver);
+  const violations = statements.filter((statement) => !isReadOnlyStatement(statement));
+
+  if (violations.length === 0) {
+    return;
+  }
+
+  logger.warn("[statement-classifier] Rejected statement on read-only connection", {
+    violations: violations.map((v) => ({ keyword: v.keyword, kind: v.kind })),
+  });
+
+  throw createUsqlError(
+    "ReadOnlyViolation",
+    `Connection is read-only; refusing to run ${violations
+      .map((v) => `${v.keyword} (${v.kind})`)
+      .join(", ")}. Only SELECT-style queries, SHOW/EXPLAIN and transaction/session control are allowed.`,
+    {
+      violations: violations.map((v) => ({
+        keyword: v.keyword,
+        kind: v.kind,
+        statement: v.text.substring(0, 200),
+      })),
+    }
+  );
+}
@@ -0,0 +1,571 @@
+/**
+ * Normalized table descriptions: catalog queries for each driver that report columns,
+ * constraints, indexes and foreign keys, and the grouping of their rows into one
+ * TableDescription shape. \d prints something different on every driver and often leaves
+ * out indexes or foreign keys.
+ */
+
+import {
+  CheckConstraint,
+  ForeignKey,
+  KeyConstraint,
+  TableColumn,
+  TableDescription,
+  TableIndex,
+} from "../types/index.js";
+import { createLogger } from "../utils/logger.js";
+import { createUsqlError } from "../utils/error-handler.js";
+import { encodeLiteral } from "./parameters.js";
+import { splitOutputSegments } from "./results.js";
+import { toBoolean, toText } from "./introspection.js";
+
+const logger = createLogger("usql-mcp:table-metadata");
+
+type Row = Record<string, unknown>;
+
+/**
+ * Statements of a catalog script, each returning one result set:
+ * - table: table_schema, table_name, table_comment, row_estimate (no row when it does not exist)
+ * - columns: column_name, data_type, is_nullable, column_default, column_comment, ordinal
+ * - constraints: constraint_name, constraint_type (PRIMARY KEY, UNIQUE, CHECK), column_name,
+ *   ordinal, check_clause
+ * - indexes: index_name, column_name, ordinal, is_unique, is_primary, index_method
+ * - foreign keys: direction (outgoing, incoming), constraint_name, from_schema, from_table,
+ *   from_column, to_schema, to_table, to_column, ordinal, on_update, on_delete
+ *
+ * checkClauses (constraint_name, check_clause) is optional and runs on its own, for
+ * drivers whose check clauses live in a catalog table that older servers lack.
+ */
+interface CatalogQueries {
+  table: string;
+  columns: string;
+  constraints: string;
+  indexes: string;
+  foreignKeys: string;
+  checkClauses?: string;
+}
+
+// Schema is undefined when the table name is unqualified: the session's default schema applies
+type CatalogBuilder = (table: string, schema: string | undefined) => CatalogQueries;
+
+const RESULT_SETS = 5;
+
+/**
+ * Foreign keys of the table and foreign keys of other tables that reference it. Both
+ * halves share one select list, so a self-reference is listed in both directions.
+ */
+function bothDirections(select: string, outgoing: string, incoming: string): string {
+  return (
+    `SELECT 'outgoing' AS direction, ${select} WHERE ${outgoing} UNION ALL ` +
+    `SELECT 'incoming' AS direction, ${select} WHERE ${incoming}`
+  );
+}
+
+function postgresAction(column: string): string {
+  return (
+    `CASE ${column} WHEN 'a' THEN 'NO ACTION' WHEN 'r' THEN 'RESTRICT' WHEN 'c' THEN 'CASCADE' ` +
+    `WHEN 'n' THEN 'SET NULL' ELSE 'SET DEFAULT' END`
+  );
+}
+
+const MSSQL_TYPE =
+  "TYPE_NAME(c.user_type_id) + CASE " +
+  "WHEN TYPE_NAME(c.user_type_id) IN ('varchar', 'char', 'varbinary', 'binary') THEN '(' + " +
+  "CASE WHEN c.max_length = -1 THEN 'max' ELSE CAST(c.max_length AS varchar(10)) END + ')' " +
+  "WHEN TYPE_NAME(c.user_type_id) IN ('nvarchar', 'nchar') THEN '(' + " +
+  "CASE WHEN c.max_length = -1 THEN 'max' ELSE CAST(c.max_length / 2 AS varchar(10)) END + ')' " +
+  "WHEN TYPE_NAME(c.user_type_id) IN ('decimal', 'numeric') THEN '(' + " +
+  "CAST(c.precision AS varchar(10)) + ',' + CAST(c.scale AS varchar(10)) + ')' ELSE '' END";
+
+function quoteSqliteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+const CATALOG_BUILDERS: Record<string, CatalogBuilder> = {
+  postgres: (table, schema) => {
+    const name = encodeLiteral(table, "postgres");
+    const namespace = schema === undefined ? "current_schema()" : encodeLiteral(schema, "postgres");
+    const relation =
+      "(SELECT c.oid FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace " +
+      `WHERE n.nspname = ${namespace} AND c.relname = ${name} ` +
+      "AND c.relkind IN ('r', 'p', 'v', 'm', 'f'))";
+    return {
+      table:
+        "SELECT n.nspname AS table_schema, c.relname AS table_name, " +
+        "obj_description(c.oid, 'pg_class') AS table_comment, " +
+        "CASE WHEN c.reltuples < 0 THEN NULL " +
+        "ELSE CAST(c.reltuples AS bigint) END AS row_estimate " +
+        "FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace " +
+        `WHERE c.oid = ${relation}`,
+      columns:
+        "SELECT a.attname AS column_name, " +
+        "format_type(a.atttypid, a.atttypmod) AS data_type, " +
+        "NOT a.attnotnull AS is_nullable, " +
+        "pg_get_expr(d.adbin, d.adrelid) AS column_default, " +
+        "col_description(a.attrelid, a.attnum) AS column_comment, a.attnum AS ordinal " +
+        "FROM pg_attribute a " +
+        "LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum " +
+        `WHERE a.attrelid = ${relation} AND a.attnum > 0 AND NOT a.attisdropped ` +
+        "ORDER BY a.attnum",
+      constraints:
+        "SELECT con.conname AS constraint_name, " +
+        "CASE con.contype WHEN 'p' THEN 'PRIMARY KEY' WHEN 'u' THEN 'UNIQUE' " +
+        "ELSE 'CHECK' END AS constraint_type, " +
+        "a.attname AS column_name, k.ordinal, " +
+        "CASE WHEN con.contype = 'c' THEN pg_get_constraintdef(con.oid) END AS check_clause " +
+        "FROM pg_constraint con " +
+        "LEFT JOIN LATERAL unnest(con.conkey) WITH ORDINALITY AS k(attnum, ordinal) " +
+        "ON con.contype <> 'c' " +
+        "LEFT JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum " +
+        `WHERE con.conrelid = ${relation} AND con.contype IN ('p', 'u', 'c') ` +
+        "ORDER BY con.conname, k.ordinal",
+      // Expression columns have attnum 0; pg_get_indexdef prints the expression instead
+      indexes:
+        "SELECT i.relname AS index_name, COALESCE(a.attname, " +
+        "pg_get_indexdef(x.indexrelid, CAST(k.ordinal AS int), true)) AS column_name, " +
+        "k.ordinal, x.indisunique AS is_unique, x.indisprimary AS is_primary, " +
+        "am.amname AS index_method " +
+        "FROM pg_index x " +
+        "JOIN pg_class i ON i.oid = x.indexrelid " +
+        "JOIN pg_am am ON am.oid = i.relam " +
+        "CROSS JOIN LATERAL unnest(CAST(x.indkey AS int2[])) " +
+        "WITH ORDINALITY AS k(attnum, ordinal) " +
+        "LEFT JOIN pg_attribute a ON a.attrelid = x.indrelid AND a.attnum = k.attnum " +
+        `WHERE x.indrelid = ${relation} ORDER BY i.relname, k.ordinal`,
+      foreignKeys: bothDirections(
+        "con.conname AS constraint_name, " +
+          "sn.nspname AS from_schema, sc.relname AS from_table, sa.attname AS from_column, " +
+          "tn.nspname AS to_schema, tc.relname AS to_table, ta.attname AS to_column, " +
+          "k.ordinal, " +
+          `${postgresAction("con.confupdtype")} AS on_update, ` +
+          `${postgresAction("con.confdeltype")} AS on_delete ` +
+          "FROM pg_constraint con " +
+          "CROSS JOIN LATERAL unnest(con.conkey, con.confkey) " +
+          "WITH ORDINALITY AS k(from_attnum, to_attnum, ordinal) " +
+          "JOIN pg_class sc ON sc.oid = con.conrelid " +
+          "JOIN pg_namespace sn ON sn.oid = sc.relnamespace " +
+          "JOIN pg_class tc ON tc.oid = con.confrelid " +
+          "JOIN pg_namespace tn ON tn.oid = tc.relnamespace " +
+          "JOIN pg_attribute sa ON sa.attrelid = con.conrelid AND sa.attnum = k.from_attnum " +
+          "JOIN pg_attribute ta ON ta.attrelid = con.confrelid AND ta.attnum = k.to_attnum",
+        `con.contype = 'f' AND con.conrelid = ${relation}`,
+        `con.contype = 'f' AND con.confrelid = ${relation}`
+      ),
+    };
+  },
+
+  mysql: (table, schema) => {
+    const name = encodeLiteral(table, "mysql");
+    const database = schema === undefined ? "DATABASE()" : encodeLiteral(schema, "mysql");
+    const where = `TABLE_SCHEMA = ${database} AND TABLE_NAME = ${name}`;
+    return {
+      table:
+        "SELECT TABLE_SCHEMA AS table_schema, TABLE_NAME AS table_name, " +
+        "TABLE_COMMENT AS table_comment, TABLE_ROWS AS row_estimate " +
+        `FROM information_schema.TABLES WHERE ${where}`,
+      columns:
+        "SELECT COLUMN_NAME AS column_name, COLUMN_TYPE AS data_type, " +
+        "IS_NULLABLE = 'YES' AS is_nullable, COLUMN_DEFAULT AS column_default, " +
+        "COLUMN_COMMENT AS column_comment, ORDINAL_POSITION AS ordinal " +
+        `FROM information_schema.COLUMNS WHERE ${where} ORDER BY ORDINAL_POSITION`,
+      constraints:
+        "SELECT tc.CONSTRAINT_NAME AS constraint_name, tc.CONSTRAINT_TYPE AS constraint_type, " +
+        "k.COLUMN_NAME AS column_name, k.ORDINAL_POSITION AS ordinal, NULL AS check_clause " +
+        "FROM information_schema.TABLE_CONSTRAINTS tc " +
+        "LEFT JOIN information_schema.KEY_COLUMN_USAGE k " +
+        "ON k.CONSTRAINT_SCHEMA = tc.CONSTRAINT_SCHEMA " +
+        "AND k.CONSTRAINT_NAME = tc.CONSTRAINT_NAME AND k.TABLE_NAME = tc.TABLE_NAME " +
+        `WHERE tc.TABLE_SCHEMA = ${database} AND tc.TABLE_NAME = ${name} ` +
+        "AND tc.CONSTRAINT_TYPE IN ('PRIMARY KEY', 'UNIQUE', 'CHECK') " +
+        "ORDER BY tc.CONSTRAINT_NAME, k.ORDINAL_POSITION",
+      // CHECK_CONSTRAINTS only exists from MySQL 8.0.16 and MariaDB 10.2.22
+      checkClauses:
+        "SELECT cc.CONSTRAINT_NAME AS constraint_name, cc.CHECK_CLAUSE AS check_clause " +
+        "FROM information_schema.CHECK_CONSTRAINTS cc " +
+        "JOIN information_schema.TABLE_CONSTRAINTS tc " +
+        "ON tc.CONSTRAINT_SCHEMA = cc.CONSTRAINT_SCHEMA " +
+        "AND tc.CONSTRAINT_NAME = cc.CONSTRAINT_NAME " +
+        `WHERE tc.TABLE_SCHEMA = ${database} AND tc.TABLE_NAME = ${name} ` +
+        "AND tc.CONSTRAINT_TYPE = 'CHECK'",
+      indexes:
+        "SELECT INDEX_NAME AS index_name, COLUMN_NAME AS column_name, " +
+        "SEQ_IN_INDEX AS ordinal, NON_UNIQUE = 0 AS is_unique, " +
+        "INDEX_NAME = 'PRIMARY' AS is_primary, INDEX_TYPE AS index_method " +
+        `FROM information_schema.STATISTICS WHERE ${where} ` +
+        "ORDER BY INDEX_NAME, SEQ_IN_INDEX",
+      foreignKeys: bothDirections(
+        "k.CONSTRAINT_NAME AS constraint_name, " +
+          "k.TABLE_SCHEMA AS from_schema, k.TABLE_NAME AS from_table, " +
+          "k.COLUMN_NAME AS from_column, " +
+          "k.REFERENCED_TABLE_SCHEMA AS to_schema, k.REFERENCED_TABLE_NAME AS to_table, " +
+          "k.REFERENCED_COLUMN_NAME AS to_column, k.ORDINAL_POSITION AS ordinal, " +
+          "r.UPDATE_RULE AS on_update, r.DELETE_RULE AS on_delete " +
+          "FROM information_schema.KEY_COLUMN_USAGE k " +
+          "JOIN information_schema.REFERENTIAL_CONSTRAINTS r " +
+          "ON r.CONSTRAINT_SCHEMA = k.CONSTRAINT_SCHEMA " +
+          "AND r.CONSTRAINT_NAME = k.CONSTRAINT_NAME AND r.TABLE_NAME = k.TABLE_NAME",
+        `k.TABLE_SCHEMA = ${database} AND k.TABLE_NAME = ${name}`,
+        `k.REFERENCED_TABLE_SCHEMA = ${database} AND k.REFERENCED_TABLE_NAME = ${name}`
+      ),
+    };
+  },
+
+  mssql: (table, schema) => {
+    const name = encodeLiteral(table, "mssql");
+    const owner = schema === undefined ? "SCHEMA_NAME()" : encodeLiteral(schema, "mssql");
+    const object = `OBJECT_ID(QUOTENAME(${owner}) + N'.' + QUOTENAME(${name}))`;
+    const description = (alias: string, majorId: string, minorId: string): string =>
+      `LEFT JOIN sys.extended_properties ${alias} ON ${alias}.class = 1 ` +
+      `AND ${alias}.major_id = ${majorId} AND ${alias}.minor_id = ${minorId} ` +
+      `AND ${alias}.name = 'MS_Description'`;
+    return {
+      table:
+        "SELECT s.name AS table_schema, o.name AS table_name, " +
+        "CAST(ep.value AS nvarchar(4000)) AS table_comment, " +
+        "(SELECT SUM(p.rows) FROM sys.partitions p WHERE p.object_id = o.object_id " +
+        "AND p.index_id IN (0, 1)) AS row_estimate " +
+        "FROM sys.objects o JOIN sys.schemas s ON s.schema_id = o.schema_id " +
+        `${description("ep", "o.object_id", "0")} ` +
+        `WHERE o.object_id = ${object} AND o.type IN ('U', 'V')`,
+      columns:
+        `SELECT c.name AS column_name, ${MSSQL_TYPE} AS data_type, c.is_nullable AS is_nullable, ` +
+        "OBJECT_DEFINITION(c.default_object_id) AS column_default, " +
+        "CAST(ep.value AS nvarchar(4000)) AS column_comment, c.column_id AS ordinal " +
+        `FROM sys.columns c ${description("ep", "c.object_id", "c.column_id")} ` +
+        `WHERE c.object_id = ${object} ORDER BY c.column_id`,
+      // Typed NULLs: an untyped NULL is an int, which would win the UNION's type resolution
+      constraints:
+        "SELECT kc.name AS constraint_name, " +
+        "CASE kc.type WHEN 'PK' THEN 'PRIMARY KEY' ELSE 'UNIQUE' END AS constraint_type, " +
+        "c.name AS column_name, ic.key_ordinal AS ordinal, " +
+        "CAST(NULL AS nvarchar(max)) AS check_clause FROM sys.key_constraints kc " +
+        "JOIN sys.index_columns ic ON ic.object_id = kc.parent_object_id " +
+        "AND ic.index_id = kc.unique_index_id " +
+        "JOIN sys.columns c ON c.object_id = ic.object_id AND c.column_id = ic.column_id " +
+        `WHERE kc.parent_object_id = ${object} UNION ALL ` +
+        "SELECT cc.name, 'CHECK', CAST(NULL AS sysname), NULL, cc.definition " +
+        `FROM sys.check_constraints cc WHERE cc.parent_object_id = ${object}`,
+      indexes:
+        "SELECT i.name AS index_name, c.name AS column_name, ic.key_ordinal AS ordinal, " +
+        "i.is_unique AS is_unique, i.is_primary_key AS is_primary, i.type_desc AS index_method " +
+        "FROM sys.indexes i " +
+        "JOIN sys.index_columns ic ON ic.object_id = i.object_id AND ic.index_id = i.index_id " +
+        "JOIN sys.columns c ON c.object_id = ic.object_id AND c.column_id = ic.column_id " +
+        // key_ordinal 0 marks INCLUDE columns; index_id 0 is the heap
+        `WHERE i.object_id = ${object} AND i.index_id > 0 AND ic.key_ordinal > 0 ` +
+        "ORDER BY i.name, ic.key_ordinal",
+      foreignKeys: bothDirections(
+        "fk.name AS constraint_name, OBJECT_SCHEMA_NAME(fk.parent_object_id) AS from_schema, " +
+          "OBJECT_NAME(fk.parent_object_id) AS from_table, " +
+          "COL_NAME(fkc.parent_object_id, fkc.parent_column_id) AS from_column, " +
+          "OBJECT_SCHEMA_NAME(fk.referenced_object_id) AS to_schema, " +
+          "OBJECT_NAME(fk.referenced_object_id) AS to_table, " +
+          "COL_NAME(fkc.referenced_object_id, fkc.referenced_column_id) AS to_column, " +
+          "fkc.constraint_column_id AS ordinal, fk.update_referential_action_desc AS on_update, " +
+          "fk.delete_referential_action_desc AS on_delete FROM sys.foreign_keys fk " +
+          "JOIN sys.foreign_key_columns fkc ON fkc.constraint_object_id = fk.object_id",
+        `fk.parent_object_id = ${object}`,
+        `fk.referenced_object_id = ${object}`
+      ),
+    };
+  },
+
+  // SQLite keeps no comments, row estimates or CHECK constraints in its catalog, and does not
+  // name primary or foreign keys (constraint_id tells foreign keys apart)
+  sqlite3: (table, schema = "main") => {
+    const name = encodeLiteral(table, "sqlite3");
+    const database = encodeLiteral(schema, "sqlite3");
+    const master = `${quoteSqliteIdentifier(schema)}.sqlite_master`;
+    return {
+      table:
+        `SELECT ${database} AS table_schema, name AS table_name, NULL AS table_comment, ` +
+        `NULL AS row_estimate FROM ${master} ` +
+        `WHERE type IN ('table', 'view') AND name = ${name} COLLATE NOCASE`,
+      columns:
+        'SELECT name AS column_name, type AS data_type, "notnull" = 0 AS is_nullable, ' +
+        "dflt_value AS column_default, NULL AS column_comment, cid + 1 AS ordinal " +
+        `FROM pragma_table_info(${name}, ${database}) ORDER BY cid`,
+      constraints:
+        "SELECT NULL AS constraint_name, 'PRIMARY KEY' AS constraint_type, name AS column_name, " +
+        `pk AS ordinal, NULL AS check_clause FROM pragma_table_info(${name}, ${database}) ` +
+        "WHERE pk > 0 UNION ALL " +
+        "SELECT il.name, 'UNIQUE', ii.name, ii.seqno + 1, NULL " +
+        `FROM pragma_index_list(${name}, ${database}) AS il ` +
+        `JOIN pragma_index_info(il.name, ${database}) AS ii WHERE il.origin = 'u'`,
+      indexes:
+        "SELECT il.name AS index_name, ii.name AS column_name, ii.seqno + 1 AS ordinal, " +
+        "il.\"unique\" AS is_unique, il.origin = 'pk' AS is_primary, NULL AS index_method " +
+        `FROM pragma_index_list(${name}, ${database}) AS il ` +
+        `JOIN pragma_index_info(il.name, ${database}) AS ii ORDER BY il.name, ii.seqno`,
+      foreignKeys: bothDirections(
+        "f.id AS constraint_id, NULL AS constraint_name, " +
+          `${database} AS from_schema, m.name AS from_table, f."from" AS from_column, ` +
+          `${database} AS to_schema, f."table" AS to_table, f."to" AS to_column, ` +
+          "f.seq + 1 AS ordinal, f.on_update AS on_update, f.on_delete AS on_delete " +
+          `FROM ${master} AS m JOIN pragma_foreign_key_list(m.name, ${database}) AS f`,
+        `m.type = 'table' AND m.name = ${name} COLLATE NOCASE`,
+        `m.type = 'table' AND f."table" = ${name} COLLATE NOCASE`
+      ),
+    };
+  },
+};
+
+/**
+ * Split "schema.table" at its last dot, dropping identifier quotes ("", ``, []) around
+ * either part
+ */
+export function splitTableName(table: string): { schema?: string; table: string } {
+  const unquote = (part: string): string => part.trim().replace(/^(["`[])(.*)["`\]]$/, "$2");
+  const dot = table.lastIndexOf(".");
+  if (dot === -1) {
+    return { table: unquote(table) };
+  }
+  return { schema: unquote(table.substring(0, dot)), table: unquote(table.substring(dot + 1)) };
+}
+
+function catalogQueries(driver: string, table: string, schema?: string): CatalogQueries {
+  const builder = CATALOG_BUILDERS[driver];
+  if (!builder) {
+    throw createUsqlError(
+      "DescribeUnsupported",
+      `normalized describe_table is not supported for ${driver} connections. Supported drivers: ${Object.keys(CATALOG_BUILDERS).join(", ")}. Omit normalized to get \\d output.`
+    );
+  }
+  return builder(table, schema);
+}
+
+/**
+ * Build the catalog script for a table. schema defaults to the session's current schema
+ * (main on SQLite). Throws DescribeUnsupported for drivers without catalog queries.
+ */
+export function buildCatalogScript(driver: string, table: string, schema?: string): string {
+  const queries = catalogQueries(driver, table, schema);
+  return (
+    [
+      queries.table,
+      queries.columns,
+      queries.constraints,
+      queries.indexes,
+      queries.foreignKeys,
+    ].join(";\n") + ";"
+  );
+}
+
+/**
+ * Query for the clauses of the table's CHECK constraints when the catalog script leaves
+ * them out (MySQL); undefined on other drivers. It fails on servers without the catalog
+ * table, so it runs separately and its failure only leaves the definitions empty.
+ */
+export function buildCheckClauseQuery(
+  driver: string,
+  table: string,
+  schema?: string
+): string | undefined {
+  return catalogQueries(driver, table, schema).checkClauses;
+}
+
+function toRows(value: unknown): Row[] {
+  const rows = Array.isArray(value) ? value : [value];
+  return rows
+    .filter((row): row is Row => row !== null && typeof row === "object")
+    .map((row) =>
+      Object.fromEntries(Object.entries(row).map(([key, field]) => [key.toLowerCase(), field]))
+    );
+}
+
+function ordinalOf(row: Row): number {
+  const ordinal = Number(row.ordinal);
+  return Number.isFinite(ordinal) ? ordinal : 0;
+}
+
+/**
+ * Group rows by key in first-seen order, each group sorted by its ordinal column
+ */
+function groupRows(rows: Row[], key: (row: Row) => string): Row[][] {
+  const groups = new Map<string, Row[]>();
+  for (const row of rows) {
+    const group = groups.get(key(row));
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key(row), [row]);
+    }
+  }
+  return Array.from(groups.values(), (group) => group.sort((a, b) => ordinalOf(a) - ordinalOf(b)));
+}
+
+function columnNames(group: Row[]): string[] {
+  return group.map((row) => toText(row.column_name)).filter((name): name is string => !!name);
+}
+
+function qualify(schema: unknown, table: unknown): string {
+  const schemaName = toText(schema);
+  const tableName = toText(table) ?? "";
+  return schemaName ? `${schemaName}.${tableName}` : tableName;
+}
+
+// SQL Server reports NO_ACTION, SET_NULL, ...
+function normalizeAction(value: unknown): string | undefined {
+  return toText(value)?.replace(/_/g, " ").toUpperCase();
+}
+
+function toForeignKey(group: Row[]): ForeignKey {
+  const first = group[0];
+  const key: ForeignKey = {
+    name: toText(first.constraint_name) ?? null,
+    table: qualify(first.from_schema, first.from_table),
+    columns: group.map((row) => toText(row.from_column) ?? ""),
+    referenced_table: qualify(first.to_schema, first.to_table),
+    referenced_columns: group.map((row) => toText(row.to_column) ?? null),
+  };
+  const onUpdate = normalizeAction(first.on_update);
+  const onDelete = normalizeAction(first.on_delete);
+  if (onUpdate) {
+    key.on_update = onUpdate;
+  }
+  if (onDelete) {
+    key.on_delete = onDelete;
+  }
+  return key;
+}
+
+function toRowCount(value: unknown): number | null {
+  const text = toText(value);
+  if (text === undefined) {
+    return null;
+  }
+  const count = Number(text);
+  return Number.isFinite(count) ? count : null;
+}
+
+/**
+ * Group the result sets of a catalog script (see buildCatalogScript) into a
+ * TableDescription; undefined when the table does not exist
+ */
+export function parseTableDescription(
+  stdout: string,
+  driver: string
+): TableDescription | undefined {
+  const resultSets = splitOutputSegments(stdout)
+    .filter((segment) => segment.type === "json")
+    .map((segment) => toRows(JSON.parse(stdout.substring(segment.start, segment.end))));
+  if (resultSets.length !== RESULT_SETS) {
+    throw createUsqlError(
+      "DescribeTableError",
+      `Expected ${RESULT_SETS} result sets from the catalog queries, got ${resultSets.length}`
+    );
+  }
+
+  const [tableRows, columnRows, constraintRows, indexRows, foreignKeyRows] = resultSets;
+  const tableRow = tableRows[0];
+  if (!tableRow) {
+    return undefined;
+  }
+
+  const columns: TableColumn[] = [...columnRows]
+    .sort((a, b) => ordinalOf(a) - ordinalOf(b))
+    .map((row) => ({
+      name: toText(row.column_name) ?? "",
+      type: toText(row.data_type) ?? "",
+      nullable: toBoolean(row.is_nullable) ?? true,
+      default: toText(row.column_default) ?? null,
+      comment: toText(row.column_comment) ?? null,
+    }));
+
+  let primaryKey: KeyConstraint | null = null;
+  const uniqueConstraints: KeyConstraint[] = [];
+  const checkConstraints: CheckConstraint[] = [];
+  for (const group of groupRows(
+    constraintRows,
+    (row) => `${toText(row.constraint_type)}|${toText(row.constraint_name)}`
+  )) {
+    const name = toText(group[0].constraint_name) ?? null;
+    switch (toText(group[0].constraint_type)?.toUpperCase()) {
+      case "PRIMARY KEY":
+        primaryKey = { name, columns: columnNames(group) };
+        break;
+      case "UNIQUE":
+        uniqueConstraints.push({ name, columns: columnNames(group) });
+        break;
+      case "CHECK":
+        checkConstraints.push({ name, definition: toText(group[0].check_clause) ?? "" });
+        break;
+    }
+  }
+
+  const indexes: TableIndex[] = groupRows(indexRows, (row) => String(toText(row.index_name))).map(
+    (group) => {
+      const method = toText(group[0].index_method);
+      return {
+        name: toText(group[0].index_name) ?? "",
+        columns: group.map((row) => toText(row.column_name) ?? null),
+        unique: toBoolean(group[0].is_unique) ?? false,
+        primary: toBoolean(group[0].is_primary) ?? false,
+        ...(method ? { method } : {}),
+      };
+    }
+  );
+
+  const foreignKeys: ForeignKey[] = [];
+  const referencedBy: ForeignKey[] = [];
+  for (const group of groupRows(
+    foreignKeyRows,
+    (row) =>
+      `${toText(row.direction)}|${qualify(row.from_schema, row.from_table)}|` +
+      `${toText(row.constraint_name) ?? toText(row.constraint_id)}`
+  )) {
+    const target = toText(group[0].direction) === "incoming" ? referencedBy : foreignKeys;
+    target.push(toForeignKey(group));
+  }
+
+  const description: TableDescription = {
+    driver,
+    schema: toText(tableRow.table_schema) ?? "",
+    table: toText(tableRow.table_name) ?? "",
+    comment: toText(tableRow.table_comment) ?? null,
+    columns,
+    primary_key: primaryKey,
+    unique_constraints: uniqueConstraints,
+    check_constraints: checkConstraints,
+    indexes,
+    foreign_keys: foreignKeys,
+    referenced_by: referencedBy,
+    approximate_row_count: toRowCount(tableRow.row_estimate),
+  };
+
+  logger.debug("[table-metadata] Described table", {
+    driver,
+    table: description.table,
+    columns: columns.length,
+    indexes: indexes.length,
+  });
+  return description;
+}
+
+/**
+ * Fill in empty CHECK constraint definitions from the output of buildCheckClauseQuery
+ */
+export function applyCheckClauses(description: TableDescription, stdout: string): TableDescription {
+  const clauses = new Map<string, string>();
+  for (const segment of splitOutputSegments(stdout)) {
+    if (segment.type !== "json") {
+      continue;
+    }
+    for (const row of toRows(JSON.parse(stdout.substring(segment.start, segment.end)))) {
+      const name = toText(row.constraint_name);
+      const clause = toText(row.check_clause);
+      if (name !== undefined && clause !== undefined) {
+        clauses.set(name, clause);
+      }
+    }
+  }
+
+  return {
+    ...description,
+    check_constraints: description.check_constraints.map((constraint) =>
+      constraint.definition || constraint.name === null
+        ? constraint
+        : { ...constraint, definition: clauses.get(constraint.name) ?? "" }
+    ),
+  };
+}
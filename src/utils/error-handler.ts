@@ -4,6 +4,7 @@
 
 import { McpError } from "../types/index.js";
 import { createLogger } from "./logger.js";
+import { classifyError } from "./error-taxonomy.js";
 
 const logger = createLogger("usql-mcp:error");
 
@@ -18,11 +19,51 @@ export class UsqlError extends Error {
   }
 }
 
+// Connection parameters that commonly carry credentials (sslpassword, sslkey, access_token, ...)
+const SENSITIVE_PARAM = /pass|pwd|secret|token|key/i;
+
+export function isSensitiveParam(name: string): boolean {
+  return SENSITIVE_PARAM.test(name);
+}
+
+/**
+ * Mask the password and the values of credential-like query parameters of a URI
+ */
 export function sanitizeConnectionString(conn: string): string {
-  return conn.replace(/:([^@/]*?)@/, ":***@");
+  const masked = conn.replace(/:([^@/]*?)@/, ":***@");
+  const queryStart = masked.indexOf("?");
+  if (queryStart === -1) {
+    return masked;
+  }
+  const query = masked
+    .slice(queryStart)
+    .replace(/([?&])([^=&#]*)=([^&#]*)/g, (param: string, separator: string, name: string) =>
+      isSensitiveParam(name) ? `${separator}${name}=***` : param
+    );
+  return masked.slice(0, queryStart) + query;
 }
 
+/**
+ * Convert any thrown value into the MCP error shape. details always carry the taxonomy
+ * fields error_class, retryable and suggested_action (see error-taxonomy.ts).
+ */
 export function formatMcpError(error: unknown, context?: Record<string, unknown>): McpError {
+  const formatted = toMcpError(error, context);
+  if (typeof formatted.details?.error_class === "string") {
+    return formatted;
+  }
+  // Classify on the original message: the generic mappings below replace it
+  const message = error instanceof Error ? error.message : formatted.message;
+  return {
+    ...formatted,
+    details: {
+      ...(formatted.details ?? {}),
+      ...classifyError(formatted.error, message, formatted.details),
+    },
+  };
+}
+
+function toMcpError(error: unknown, context?: Record<string, unknown>): McpError {
   logger.debug("Formatting MCP error", { error, context });
 
   const sanitizedContext: Record<string, unknown> = {};
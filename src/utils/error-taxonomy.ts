@@ -0,0 +1,219 @@
+/**
+ * Error taxonomy: classify tool errors into a fixed set of classes so agents can decide
+ * whether to retry. Driver-reported SQLSTATE and native codes are checked first, then the
+ * error code set by this server, then well-known message fragments.
+ */
+
+export type ErrorClass =
+  | "auth_failure"
+  | "unknown_host"
+  | "connection_refused"
+  | "permission_denied"
+  | "syntax_error"
+  | "constraint_violation"
+  | "deadlock"
+  | "serialization_failure"
+  | "lock_timeout"
+  | "object_not_found"
+  | "timeout"
+  | "invalid_request"
+  | "unknown";
+
+export interface ErrorClassification {
+  error_class: ErrorClass;
+  retryable: boolean;
+  suggested_action: string;
+}
+
+const TAXONOMY: Record<ErrorClass, Omit<ErrorClassification, "error_class">> = {
+  auth_failure: {
+    retryable: false,
+    suggested_action: "Check the user name and password of the connection; retrying with the same credentials will fail again.",
+  },
+  unknown_host: {
+    retryable: false,
+    suggested_action: "Check the host name in the connection string; it could not be resolved.",
+  },
+  connection_refused: {
+    retryable: true,
+    suggested_action: "The server refused the connection. Retry after a short delay; if it persists, check the host, port and that the database is running.",
+  },
+  permission_denied: {
+    retryable: false,
+    suggested_action: "The user lacks the privilege for this statement. Use a connection with the required grants or change the statement.",
+  },
+  syntax_error: {
+    retryable: false,
+    suggested_action: "Fix the statement at details.line/details.position before running it again; do not retry unchanged.",
+  },
+  constraint_violation: {
+    retryable: false,
+    suggested_action: "The data violates a unique, foreign key, not-null or check constraint. Change the data or the statement.",
+  },
+  deadlock: {
+    retryable: true,
+    suggested_action: "The transaction was chosen as a deadlock victim and rolled back. Retry the whole transaction.",
+  },
+  serialization_failure: {
+    retryable: true,
+    suggested_action: "A concurrent transaction conflicted with this one. Retry the whole transaction.",
+  },
+  lock_timeout: {
+    retryable: true,
+    suggested_action: "A lock could not be acquired in time. Retry after a short delay, or find the session holding the lock.",
+  },
+  object_not_found: {
+    retryable: false,
+    suggested_action: "A table, column, schema or database does not exist. Check the names with list_tables or describe_table.",
+  },
+  timeout: {
+    retryable: false,
+    suggested_action: "The statement exceeded its timeout. Narrow the query, raise timeout_ms, or let it continue as a background job.",
+  },
+  invalid_request: {
+    retryable: false,
+    suggested_action: "The request was rejected before reaching the database. Correct the arguments as described in the message.",
+  },
+  unknown: {
+    retryable: false,
+    suggested_action: "Inspect the message; retry only if the cause is known to be transient.",
+  },
+};
+
+// SQLSTATE (PostgreSQL, MySQL, SQL Server). Exact codes win over two-character classes.
+const SQLSTATE_CLASSES: Record<string, ErrorClass> = {
+  "28000": "auth_failure",
+  "28P01": "auth_failure",
+  "42501": "permission_denied",
+  "42601": "syntax_error",
+  "40P01": "deadlock",
+  "40001": "serialization_failure",
+  "55P03": "lock_timeout",
+  "42P01": "object_not_found",
+  "42703": "object_not_found",
+  "42883": "object_not_found",
+  "42704": "object_not_found",
+  "3D000": "object_not_found",
+  "3F000": "object_not_found",
+  "42S02": "object_not_found",
+  "42S22": "object_not_found",
+  "57014": "timeout",
+};
+const SQLSTATE_CLASS_PREFIXES: Record<string, ErrorClass> = {
+  "23": "constraint_violation",
+  "28": "auth_failure",
+};
+
+// Native codes from MySQL, SQL Server and Oracle; these take precedence over MySQL's
+// catch-all SQLSTATE 42000. 1205 is left to the message: a lock wait timeout on MySQL,
+// a deadlock victim on SQL Server.
+const NATIVE_CODE_CLASSES: Record<string, ErrorClass> = {
+  // MySQL
+  "1045": "auth_failure",
+  "1044": "permission_denied",
+  "1142": "permission_denied",
+  "1143": "permission_denied",
+  "1227": "permission_denied",
+  "1064": "syntax_error",
+  "1149": "syntax_error",
+  "1062": "constraint_violation",
+  "1048": "constraint_violation",
+  "1451": "constraint_violation",
+  "1452": "constraint_violation",
+  "3819": "constraint_violation",
+  "1213": "deadlock",
+  "1146": "object_not_found",
+  "1054": "object_not_found",
+  "1049": "object_not_found",
+  // SQL Server
+  "18456": "auth_failure",
+  "229": "permission_denied",
+  "230": "permission_denied",
+  "262": "permission_denied",
+  "102": "syntax_error",
+  "156": "syntax_error",
+  "2627": "constraint_violation",
+  "2601": "constraint_violation",
+  "547": "constraint_violation",
+  "515": "constraint_violation",
+  "3960": "serialization_failure",
+  "1222": "lock_timeout",
+  "208": "object_not_found",
+  "207": "object_not_found",
+  // Oracle
+  "ORA-01017": "auth_failure",
+  "ORA-12154": "unknown_host",
+  "ORA-12545": "unknown_host",
+  "ORA-12541": "connection_refused",
+  "ORA-01031": "permission_denied",
+  "ORA-00900": "syntax_error",
+  "ORA-00933": "syntax_error",
+  "ORA-00936": "syntax_error",
+  "ORA-00001": "constraint_violation",
+  "ORA-01400": "constraint_violation",
+  "ORA-02290": "constraint_violation",
+  "ORA-02291": "constraint_violation",
+  "ORA-02292": "constraint_violation",
+  "ORA-00060": "deadlock",
+  "ORA-08177": "serialization_failure",
+  "ORA-00054": "lock_timeout",
+  "ORA-30006": "lock_timeout",
+  "ORA-00942": "object_not_found",
+  "ORA-00904": "object_not_found",
+};
+
+// Codes assigned by this server. The generic TimeoutError/ConnectionError mappings in
+// formatMcpError are substring guesses, so those are classified by message instead.
+const ERROR_CODE_CLASSES: Record<string, ErrorClass> = {
+  QueryTimeout: "timeout",
+  ReadOnlyViolation: "permission_denied",
+  InvalidInput: "invalid_request",
+  InvalidConnection: "invalid_request",
+  UnsupportedDatabase: "invalid_request",
+  ParameterMismatch: "invalid_request",
+  DryRunUnsupported: "invalid_request",
+  ExplainUnsupported: "invalid_request",
+  DescribeUnsupported: "invalid_request",
+  InvalidParameter: "invalid_request",
+  SessionNotFound: "invalid_request",
+  JobNotFound: "invalid_request",
+  TableNotFound: "object_not_found",
+};
+
+// Checked in order: the more specific conditions come before generic ones
+const MESSAGE_PATTERNS: Array<[RegExp, ErrorClass]> = [
+  [/password authentication failed|access denied for user|login failed|authentication failed/i, "auth_failure"],
+  [/no such host|could not translate host name|name or service not known|ENOTFOUND|unknown host/i, "unknown_host"],
+  [/connection refused|ECONNREFUSED/i, "connection_refused"],
+  [/deadlock/i, "deadlock"],
+  [/could not serialize|serialization failure|snapshot isolation transaction aborted/i, "serialization_failure"],
+  [/lock wait timeout|lock request time out|lock timeout|database is locked|could not obtain lock|resource busy/i, "lock_timeout"],
+  [/permission denied|insufficient privilege|command denied/i, "permission_denied"],
+  [/violates .*constraint|duplicate key|duplicate entry|constraint failed|foreign key constraint fails/i, "constraint_violation"],
+  [/syntax error|incorrect syntax/i, "syntax_error"],
+  [/does not exist|doesn't exist|no such (table|column)|unknown (table|column)|invalid (object|column) name/i, "object_not_found"],
+  [/timed out|timeout/i, "timeout"],
+];
+
+/**
+ * Classify an error by its code, message and the SQLSTATE / native code parsed from
+ * usql stderr (see parseUsqlErrorDetails).
+ */
+export function classifyError(
+  code: string,
+  message: string,
+  details?: Record<string, unknown>
+): ErrorClassification {
+  const sqlstate = typeof details?.sqlstate === "string" ? details.sqlstate.toUpperCase() : undefined;
+  const nativeCode = typeof details?.code === "string" ? details.code.toUpperCase() : undefined;
+  const detailMessage = typeof details?.message === "string" ? details.message : "";
+
+  const errorClass =
+    (nativeCode && NATIVE_CODE_CLASSES[nativeCode]) ||
+    (sqlstate && (SQLSTATE_CLASSES[sqlstate] ?? SQLSTATE_CLASS_PREFIXES[sqlstate.substring(0, 2)])) ||
+    ERROR_CODE_CLASSES[code] ||
+    MESSAGE_PATTERNS.find(([pattern]) => pattern.test(message) || pattern.test(detailMessage))?.[1] ||
+    "unknown";
+
+  return { error_class: errorClass, ...TAXONOMY[errorClass] };
+}
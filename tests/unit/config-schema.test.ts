@@ -0,0 +1,179 @@
+/**
+ * Unit tests for config.json validation and the --check-config report
+ */
+
+import { readFileSync, unlinkSync, writeFileSync } from "fs";
+import { resolve } from "path";
+import { CONFIG_SCHEMA, validateConfig } from "../../src/usql/config-schema.js";
+import { checkConfig } from "../../src/usql/config-check.js";
+import { getConfigErrors, loadConfig, resetConfigCache } from "../../src/usql/config.js";
+import { handleGetServerInfo } from "../../src/tools/get-server-info.js";
+
+describe("Config schema", () => {
+  describe("validateConfig", () => {
+    it("accepts the example config", () => {
+      const example = JSON.parse(readFileSync(resolve("./config.example.json"), "utf-8"));
+
+      expect(validateConfig(example)).toEqual([]);
+    });
+
+    it("reports unknown properties with a suggestion", () => {
+      expect(validateConfig({ defaults: { defaultConection: "pg" }, conections: {} })).toEqual([
+        'defaults.defaultConection: unknown property (did you mean "defaultConnection"?)',
+        'conections: unknown property (did you mean "connections"?)',
+      ]);
+    });
+
+    it("reports wrong types and ranges with the path of the value", () => {
+      expect(
+        validateConfig({
+          connections: {
+            pg: {
+              uri: "postgres://db/app",
+              readOnly: "yes",
+              retry: { maxAttempts: 0 },
+              maxResultRows: 0,
+            },
+            my: { driver: "mysql", host: "db", params: { ssl: { mode: "on" } } },
+          },
+          defaults: { queryTimeout: "30s", maxResultRows: null },
+        })
+      ).toEqual([
+        "connections.pg.readOnly: must be boolean, got string",
+        "connections.pg.retry.maxAttempts: must be at least 1",
+        "connections.pg.maxResultRows: must be at least 1",
+        "connections.my.params.ssl: must be string or number or boolean, got object",
+        "defaults.queryTimeout: must be integer or null, got string",
+      ]);
+    });
+
+    it("validates array items", () => {
+      expect(
+        validateConfig({ connections: { pg: { uri: "postgres://db/app", tags: ["ok", 1] } } })
+      ).toEqual(["connections.pg.tags[1]: must be string, got number"]);
+    });
+
+    it("requires an object at the root", () => {
+      expect(validateConfig([])).toEqual(["(root): must be object, got array"]);
+    });
+  });
+
+  it("matches the published config.schema.json", () => {
+    const published = JSON.parse(readFileSync(resolve("./config.schema.json"), "utf-8"));
+
+    expect(published).toEqual(CONFIG_SCHEMA);
+  });
+
+  describe("loading", () => {
+    const originalEnv = { ...process.env };
+    const testConfigPath = resolve("./test-config-schema.json");
+
+    const writeConfig = (config: unknown): void => {
+      writeFileSync(testConfigPath, JSON.stringify(config));
+      process.env.USQL_CONFIG_PATH = testConfigPath;
+      resetConfigCache();
+    };
+
+    afterEach(() => {
+      process.env = { ...originalEnv };
+      resetConfigCache();
+      try {
+        unlinkSync(testConfigPath);
+      } catch {
+        // Ignore if file doesn't exist
+      }
+    });
+
+    it("ignores an invalid config file as a whole and reports why", () => {
+      writeConfig({
+        connections: { pg: { uri: "postgres://db/app" } },
+        defaults: { queryTimeout: "30s" },
+      });
+
+      expect(loadConfig().connections.pg).toBeUndefined();
+      expect(getConfigErrors()).toEqual([
+        "defaults.queryTimeout: must be integer or null, got string",
+      ]);
+    });
+
+    it("logs the errors and reports them in get_server_info", async () => {
+      const consoleError = jest.spyOn(console, "error").mockImplementation(() => undefined);
+      try {
+        writeConfig({ connections: { pg: { uri: "postgres://db/app", readOnly: "yes" } } });
+        loadConfig();
+
+        expect(consoleError).toHaveBeenCalledWith(
+          expect.stringContaining("ERROR"),
+          expect.anything(),
+          expect.anything(),
+          "[config] Config file ignored; using environment connections and defaults only",
+          expect.stringContaining("connections.pg.readOnly: must be boolean, got string")
+        );
+        expect((await handleGetServerInfo()).config_errors).toEqual([
+          "connections.pg.readOnly: must be boolean, got string",
+        ]);
+      } finally {
+        consoleError.mockRestore();
+      }
+    });
+
+    it("leaves config_errors out of get_server_info when the file is valid", async () => {
+      writeConfig({ connections: { pg: { uri: "postgres://db/app" } } });
+
+      expect((await handleGetServerInfo()).config_errors).toBeUndefined();
+    });
+
+    it("checks every connection and redacts secrets in the report", async () => {
+      delete process.env.TEST_MISSING_PASSWORD;
+      writeConfig({
+        connections: {
+          plain: { uri: "postgres://app:hunter2@db/app?sslpassword=x&sslmode=require" },
+          structured: {
+            driver: "mysql",
+            host: "db",
+            user: "app",
+            password: "hunter2",
+            params: { tls: "true", apiToken: "abc" },
+          },
+          referenced: { uri: "postgres://app:${env:TEST_MISSING_PASSWORD}@db/app" },
+        },
+      });
+
+      const report = await checkConfig();
+
+      expect(report.valid).toBe(false);
+      expect(report.errors).toEqual([
+        expect.stringMatching(
+          /connection referenced: environment variable TEST_MISSING_PASSWORD is not set/
+        ),
+      ]);
+      expect(report.config.connections).toEqual({
+        plain: { uri: "postgres://app:***@db/app?sslpassword=***&sslmode=require" },
+        structured: {
+          driver: "mysql",
+          host: "db",
+          user: "app",
+          password: "***",
+          params: { tls: "true", apiToken: "***" },
+          uri: "mysql://app:***@db?tls=true&apiToken=***",
+        },
+        referenced: { uri: "postgres://app:${env:TEST_MISSING_PASSWORD}@db/app" },
+      });
+      expect(JSON.stringify(report)).not.toContain("hunter2");
+    });
+
+    it("runs ${cmd:...} secrets before checking their connections", async () => {
+      writeConfig({
+        connections: { pg: { uri: "postgres://app:${cmd:echo s3cret}@localhost/app" } },
+      });
+
+      const report = await checkConfig();
+
+      expect(report.errors).toEqual([]);
+      expect(report.valid).toBe(true);
+      expect(report.config.connections.pg.uri).toBe(
+        "postgres://app:${cmd:echo s3cret}@localhost/app"
+      );
+    });
+  });
+});
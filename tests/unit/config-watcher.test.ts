@@ -0,0 +1,80 @@
+/**
+ * Unit tests for hot reload of config.json
+ */
+
+import { mkdtempSync, renameSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { watchConfigFile } from "../../src/usql/config-watcher.js";
+import { loadConfig, resetConfigCache } from "../../src/usql/config.js";
+import { UsqlConfig } from "../../src/types/index.js";
+
+describe("Config watcher", () => {
+  const originalEnv = { ...process.env };
+  let dir: string;
+  let configPath: string;
+  let stop: (() => void) | undefined;
+
+  const writeConnections = (path: string, names: string[]): void => {
+    const connections = Object.fromEntries(
+      names.map((name) => [name, { uri: `postgres://${name}/db` }])
+    );
+    writeFileSync(path, JSON.stringify({ connections }));
+  };
+
+  // Resolves with the next reloaded configuration, or undefined if none arrives in time
+  const nextReload = (timeoutMs = 2000): Promise<UsqlConfig | undefined> =>
+    new Promise((resolvePromise) => {
+      const timer = setTimeout(() => resolvePromise(undefined), timeoutMs);
+      stop = watchConfigFile((config) => {
+        clearTimeout(timer);
+        resolvePromise(config);
+      }, 20);
+    });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "usql-mcp-watch-"));
+    configPath = join(dir, "config.json");
+    writeConnections(configPath, ["a"]);
+    process.env.USQL_CONFIG_PATH = configPath;
+    resetConfigCache();
+    loadConfig();
+  });
+
+  afterEach(() => {
+    stop?.();
+    stop = undefined;
+    process.env = { ...originalEnv };
+    resetConfigCache();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("reloads when the file is rewritten", async () => {
+    const reloaded = nextReload();
+    setTimeout(() => writeConnections(configPath, ["a", "b"]), 50);
+
+    expect(Object.keys((await reloaded)?.connections ?? {})).toEqual(["a", "b"]);
+    expect(Object.keys(loadConfig().connections)).toEqual(["a", "b"]);
+  });
+
+  it("reloads when an editor renames a new file over the old one", async () => {
+    const reloaded = nextReload();
+    setTimeout(() => {
+      writeConnections(join(dir, "config.json.tmp"), ["c"]);
+      renameSync(join(dir, "config.json.tmp"), configPath);
+    }, 50);
+
+    expect(Object.keys((await reloaded)?.connections ?? {})).toEqual(["c"]);
+  });
+
+  it("keeps the old configuration and does not notify when the new file is invalid", async () => {
+    const reloaded = nextReload(500);
+    setTimeout(
+      () => writeFileSync(configPath, JSON.stringify({ connections: { a: { uri: 1 } } })),
+      50
+    );
+
+    expect(await reloaded).toBeUndefined();
+    expect(Object.keys(loadConfig().connections)).toEqual(["a"]);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Unit tests for engine version and feature detection
+ */
+
+import {
+  buildDetectionQuery,
+  cacheDatabaseInfo,
+  cachedEngineDetails,
+  clearDatabaseInfoCache,
+  compareVersions,
+  databaseInfoCacheKeys,
+  detectFeatures,
+  getCachedDatabaseInfo,
+  parseDatabaseInfo,
+} from "../../src/usql/database-info.js";
+
+describe("Database info", () => {
+  afterEach(() => {
+    clearDatabaseInfoCache();
+    jest.useRealTimers();
+  });
+
+  describe("compareVersions", () => {
+    it("compares numerically, part by part", () => {
+      expect(compareVersions("10.2", "9.6")).toBe(1);
+      expect(compareVersions("3.8.3", "3.35")).toBe(-1);
+      expect(compareVersions("8", "8.0.0")).toBe(0);
+    });
+  });
+
+  describe("detectFeatures", () => {
+    it("follows the minimum version of each feature", () => {
+      expect(detectFeatures("mysql", "5.7.44")).toEqual({
+        cte: false,
+        returning: false,
+        window_functions: false,
+        json_operators: true,
+      });
+      expect(detectFeatures("sqlite", "3.35.5")).toEqual({
+        cte: true,
+        returning: true,
+        window_functions: true,
+        json_operators: false,
+      });
+    });
+
+    it("is null when the engine or the needed version is unknown", () => {
+      expect(detectFeatures("firebird", "4.0")).toEqual({
+        cte: null,
+        returning: null,
+        window_functions: null,
+        json_operators: null,
+      });
+      expect(detectFeatures("postgresql").cte).toBeNull();
+      expect(detectFeatures("duckdb").cte).toBe(true);
+    });
+  });
+
+  describe("parseDatabaseInfo", () => {
+    it("reads the detection row of PostgreSQL", () => {
+      const stdout = JSON.stringify([
+        {
+          server_version: "9.2.24",
+          db_version: "PostgreSQL 9.2.24 on x86_64-pc-linux-gnu",
+          default_schema: "public",
+          db_collation: "en_US.UTF-8",
+          db_timezone: "UTC",
+        },
+      ]);
+
+      expect(parseDatabaseInfo(stdout, "postgres")).toEqual({
+        driver: "postgres",
+        engine: "postgresql",
+        version: "9.2.24",
+        version_string: "PostgreSQL 9.2.24 on x86_64-pc-linux-gnu",
+        default_schema: "public",
+        collation: "en_US.UTF-8",
+        timezone: "UTC",
+        features: { cte: true, returning: true, window_functions: true, json_operators: false },
+        detected_at: expect.any(String),
+        cached: false,
+      });
+    });
+
+    it("tells forks apart by their version banner", () => {
+      const cockroach = parseDatabaseInfo(
+        JSON.stringify([
+          { server_version: "13.0.0", db_version: "CockroachDB CCL v23.1.11 (x86_64-pc-linux-gnu)" },
+        ]),
+        "postgres"
+      );
+      const mariadb = parseDatabaseInfo(
+        JSON.stringify([{ SERVER_VERSION: "10.4.32-MariaDB-log" }]),
+        "mysql"
+      );
+
+      expect(cockroach).toMatchObject({ engine: "cockroachdb", version: "23.1.11" });
+      expect(mariadb).toMatchObject({
+        engine: "mariadb",
+        version: "10.4.32",
+        features: { cte: true, returning: false },
+      });
+    });
+
+    it("reports the driver alone when there is no detection query", () => {
+      expect(buildDetectionQuery("csvq")).toBeUndefined();
+      expect(parseDatabaseInfo("", "csvq")).toMatchObject({ driver: "csvq", engine: "csvq" });
+    });
+  });
+
+  describe("cache", () => {
+    const info = parseDatabaseInfo(JSON.stringify([{ server_version: "16.2" }]), "postgres");
+
+    it("serves entries until they expire", () => {
+      jest.useFakeTimers();
+      cacheDatabaseInfo("postgres://db/app", info, 1000);
+
+      expect(getCachedDatabaseInfo("postgres://db/app")).toMatchObject({
+        version: "16.2",
+        cached: true,
+      });
+      expect(cachedEngineDetails("postgres://db/app")).toEqual({
+        engine: "postgresql",
+        engine_version: "16.2",
+      });
+
+      jest.advanceTimersByTime(1000);
+      expect(getCachedDatabaseInfo("postgres://db/app")).toBeUndefined();
+      expect(cachedEngineDetails("postgres://db/app")).toEqual({});
+    });
+
+    it("does not cache with a TTL of 0", () => {
+      cacheDatabaseInfo("postgres://db/app", info, 0);
+
+      expect(getCachedDatabaseInfo("postgres://db/app")).toBeUndefined();
+    });
+
+    it("keys entries without the credentials of the connection string", () => {
+      cacheDatabaseInfo("postgres://app:hunter2@db/app?sslpassword=x", info, 1000);
+
+      const keys = databaseInfoCacheKeys();
+      expect(keys).toHaveLength(1);
+      expect(keys[0]).not.toContain("hunter2");
+      expect(getCachedDatabaseInfo("postgres://app:hunter2@db/app?sslpassword=x")).toBeDefined();
+    });
+
+    it("drops expired entries on write", () => {
+      jest.useFakeTimers();
+      cacheDatabaseInfo("postgres://db/one", info, 1000);
+      cacheDatabaseInfo("postgres://db/two", info, 1000);
+      jest.advanceTimersByTime(1000);
+
+      cacheDatabaseInfo("postgres://db/three", info, 1000);
+      expect(databaseInfoCacheKeys()).toHaveLength(1);
+    });
+
+    it("evicts the oldest entries once full", () => {
+      for (let i = 0; i < 300; i++) {
+        cacheDatabaseInfo(`postgres://db/app${i}`, info, 1000);
+      }
+
+      expect(databaseInfoCacheKeys()).toHaveLength(256);
+      expect(getCachedDatabaseInfo("postgres://db/app0")).toBeUndefined();
+      expect(getCachedDatabaseInfo("postgres://db/app299")).toBeDefined();
+    });
+  });
+});
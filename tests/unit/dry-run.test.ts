@@ -0,0 +1,91 @@
+/**
+ * Unit tests for dry-run support checks and affected-row reporting
+ */
+
+import { assertDryRunSupported, summarizeDryRun, wrapInRollback } from "../../src/usql/dry-run.js";
+
+describe("Dry Run", () => {
+  describe("assertDryRunSupported", () => {
+    it("accepts DML, reads and session settings on transactional backends", () => {
+      expect(() =>
+        assertDryRunSupported("SET search_path = app; UPDATE t SET x = 1; SELECT * FROM t;", "postgres")
+      ).not.toThrow();
+      expect(() => assertDryRunSupported("CREATE TABLE t (id int);", "sqlite3")).not.toThrow();
+    });
+
+    it("refuses backends without transactions", () => {
+      for (const driver of ["csvq", "cassandra", "clickhouse"]) {
+        expect(() => assertDryRunSupported("SELECT 1", driver)).toThrow(/not supported for/);
+      }
+    });
+
+    it("refuses DDL where it commits implicitly", () => {
+      expect(() => assertDryRunSupported("ALTER TABLE t ADD c int;", "mysql")).toThrow(
+        /DDL, which commits implicitly on mysql/
+      );
+    });
+
+    it("refuses other statements that commit implicitly on those backends", () => {
+      expect(() => assertDryRunSupported("SET autocommit=1; UPDATE t SET x = 1", "mysql")).toThrow(
+        /SET \(implicit commit\)/
+      );
+      for (const statement of ["LOCK TABLES t WRITE", "ANALYZE TABLE t", "OPTIMIZE TABLE t"]) {
+        expect(() => assertDryRunSupported(statement, "mysql")).toThrow(/implicit commit/);
+      }
+      expect(() => assertDryRunSupported("SET autocommit = on; ANALYZE t", "postgres")).not.toThrow();
+    });
+
+    it("refuses input that cannot be split reliably", () => {
+      expect(() => assertDryRunSupported("UPDATE t SET x = E'\\'; DELETE FROM t", "postgres")).toThrow(
+        /UPDATE \(unknown\)/
+      );
+      expect(() => assertDryRunSupported("UPDATE t SET x = 1 \\g \\! touch x", "postgres")).toThrow(
+        /\\g \(unknown\)/
+      );
+    });
+
+    it("refuses functions whose effects a rollback does not undo on any backend", () => {
+      for (const statement of [
+        "SELECT dblink_exec('remote', 'DELETE FROM t')",
+        "SELECT lo_export(16384, '/tmp/x')",
+        "SELECT pg_file_write('f', 'x', false)",
+        "SELECT setval('s', 1)",
+        "SELECT pg_terminate_backend(42)",
+        "INSERT INTO t (id) SELECT nextval('s')",
+      ]) {
+        expect(() => assertDryRunSupported(statement, "postgres")).toThrow(/\(side effects\)/);
+      }
+      expect(() => assertDryRunSupported("SELECT count(*) FROM t", "postgres")).not.toThrow();
+    });
+
+    it("refuses procedure calls and unrecognised statements", () => {
+      expect(() => assertDryRunSupported("CALL archive_orders();", "postgres")).toThrow(/CALL \(unknown\)/);
+      expect(() => assertDryRunSupported("\\i other.sql", "postgres")).toThrow(/\\i \(unknown\)/);
+    });
+  });
+
+  describe("wrapInRollback", () => {
+    it("terminates the last statement before the rollback", () => {
+      expect(wrapInRollback("UPDATE t SET x = 1 -- all rows")).toBe(
+        "\\begin\nUPDATE t SET x = 1 -- all rows\n;\n\\rollback"
+      );
+      expect(wrapInRollback("UPDATE t SET x = 1;")).toBe("\\begin\nUPDATE t SET x = 1;\n\\rollback");
+    });
+  });
+
+  describe("summarizeDryRun", () => {
+    it("collects command tags outside of result sets and excludes SELECT from the total", () => {
+      const summary = summarizeDryRun('INSERT 0 2\n[{"tag":"UPDATE 9"}]\nSELECT 1\nMERGE 4\nNOTICE: done\n');
+
+      expect(summary).toEqual({
+        rolled_back: true,
+        affected_rows: [
+          { command: "INSERT", rows: 2 },
+          { command: "SELECT", rows: 1 },
+          { command: "MERGE", rows: 4 },
+        ],
+        total_affected_rows: 6,
+      });
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Unit tests for plan commands and plan summaries
+ */
+
+import { buildExplainCommand, parsePlanOutput, summarizePlan } from "../../src/usql/explain.js";
+
+describe("Explain", () => {
+  describe("buildExplainCommand", () => {
+    it("uses the plan command of each driver", () => {
+      expect(buildExplainCommand("SELECT * FROM users;", "postgres").command).toBe(
+        "EXPLAIN (FORMAT JSON) SELECT * FROM users;"
+      );
+      expect(buildExplainCommand("SELECT * FROM users", "mysql").command).toBe(
+        "EXPLAIN FORMAT=JSON SELECT * FROM users;"
+      );
+      expect(buildExplainCommand("DELETE FROM users WHERE id = 1", "sqlite3").command).toBe(
+        "EXPLAIN QUERY PLAN DELETE FROM users WHERE id = 1;"
+      );
+    });
+
+    it("sends SET SHOWPLAN_ALL as its own batch for mssql", () => {
+      expect(buildExplainCommand("SELECT * FROM users -- all", "mssql").command).toBe(
+        "SET SHOWPLAN_ALL ON\n\\g\nSELECT * FROM users -- all\n;\nSET SHOWPLAN_ALL OFF\n\\g"
+      );
+    });
+
+    it("only explains queries on mssql, where a failed SHOWPLAN_ALL would run the statement", () => {
+      expect(() => buildExplainCommand("DELETE FROM users", "mssql")).toThrow(
+        /only explains queries on mssql connections; got DELETE \(write\)/
+      );
+      expect(() => buildExplainCommand("DELETE FROM users", "postgres")).not.toThrow();
+    });
+
+    it("rejects unsupported drivers, several statements, EXPLAIN and DDL", () => {
+      expect(() => buildExplainCommand("SELECT 1", "clickhouse")).toThrow(/not supported for clickhouse/);
+      expect(() => buildExplainCommand("SELECT 1; SELECT 2", "postgres")).toThrow(/exactly one statement, got 2/);
+      expect(() => buildExplainCommand("EXPLAIN ANALYZE SELECT 1", "postgres")).toThrow(/Pass the query itself/);
+      expect(() => buildExplainCommand("DROP TABLE users", "postgres")).toThrow(/DROP \(ddl\)/);
+    });
+  });
+
+  describe("postgres", () => {
+    const stdout = JSON.stringify([
+      {
+        "QUERY PLAN": JSON.stringify([
+          {
+            Plan: {
+              "Node Type": "Hash Join",
+              "Plan Rows": 120,
+              "Total Cost": 2045.5,
+              Plans: [
+                { "Node Type": "Seq Scan", "Relation Name": "orders", "Plan Rows": 50000 },
+                {
+                  "Node Type": "Hash",
+                  "Plan Rows": 10,
+                  Plans: [{ "Node Type": "Index Scan", "Relation Name": "users", "Plan Rows": 10 }],
+                },
+              ],
+            },
+          },
+        ]),
+      },
+    ]);
+
+    it("summarizes node types, estimates and large sequential scans", () => {
+      const summary = summarizePlan(parsePlanOutput(stdout, "postgres"), "postgres");
+
+      expect(summary.node_types).toEqual(["Hash Join", "Seq Scan", "Hash", "Index Scan"]);
+      expect(summary.estimated_rows).toBe(120);
+      expect(summary.total_cost).toBe(2045.5);
+      expect(summary.seq_scans).toEqual([{ node_type: "Seq Scan", relation: "orders", estimated_rows: 50000 }]);
+      expect(summary.warnings).toEqual([expect.stringContaining("Seq Scan on orders (~50000 estimated rows)")]);
+    });
+  });
+
+  describe("mysql", () => {
+    it("maps access types and operations", () => {
+      const plan = {
+        query_block: {
+          select_id: 1,
+          cost_info: { query_cost: "1250.40" },
+          ordering_operation: {
+            using_filesort: true,
+            nested_loop: [
+              { table: { table_name: "o", access_type: "ALL", rows_examined_per_scan: 20000 } },
+              { table: { table_name: "u", access_type: "eq_ref", rows_examined_per_scan: 1 } },
+            ],
+          },
+        },
+      };
+      const stdout = JSON.stringify([{ EXPLAIN: JSON.stringify(plan) }]);
+
+      const summary = summarizePlan(parsePlanOutput(stdout, "mysql"), "mysql");
+
+      expect(summary.node_types).toEqual(["Sort", "Nested Loop", "Full Table Scan", "Index Lookup"]);
+      expect(summary.total_cost).toBe(1250.4);
+      expect(summary.estimated_rows).toBeUndefined();
+      expect(summary.seq_scans).toEqual([{ node_type: "Full Table Scan", relation: "o", estimated_rows: 20000 }]);
+      expect(summary.warnings).toHaveLength(1);
+    });
+  });
+
+  describe("sqlite3", () => {
+    it("reads SCAN and SEARCH details", () => {
+      const stdout = JSON.stringify([
+        { id: 2, parent: 0, notused: 0, detail: "SCAN orders" },
+        { id: 4, parent: 0, notused: 0, detail: "SEARCH users USING INTEGER PRIMARY KEY (rowid=?)" },
+        { id: 9, parent: 0, notused: 0, detail: "USE TEMP B-TREE FOR ORDER BY" },
+      ]);
+
+      const summary = summarizePlan(parsePlanOutput(stdout, "sqlite3"), "sqlite3");
+
+      expect(summary.node_types).toEqual(["Full Table Scan", "Index Search", "USE TEMP B-TREE FOR ORDER BY"]);
+      expect(summary.seq_scans).toEqual([{ node_type: "Full Table Scan", relation: "orders" }]);
+      // SQLite has no row estimates, so no scan is reported as large
+      expect(summary.warnings).toEqual([]);
+    });
+  });
+
+  describe("mssql", () => {
+    it("reads SHOWPLAN_ALL rows after the SET output", () => {
+      const rows = [
+        { StmtText: "SELECT * FROM users", Type: "SELECT", PhysicalOp: null, EstimateRows: 15000, TotalSubtreeCost: 0.9 },
+        {
+          StmtText: "|--Clustered Index Scan",
+          Type: "PLAN_ROW",
+          PhysicalOp: "Clustered Index Scan",
+          Argument: "OBJECT:([app].[dbo].[users].[PK_users] AS [u])",
+          EstimateRows: 15000,
+        },
+      ];
+
+      const summary = summarizePlan(parsePlanOutput(`${JSON.stringify(rows)}\n`, "mssql"), "mssql");
+
+      expect(summary).toMatchObject({
+        node_types: ["Clustered Index Scan"],
+        estimated_rows: 15000,
+        total_cost: 0.9,
+        seq_scans: [{ relation: "users", estimated_rows: 15000 }],
+      });
+    });
+  });
+
+  it("fails when usql printed no plan", () => {
+    expect(() => parsePlanOutput("SET\n", "mssql")).toThrow(/no plan rows/);
+  });
+});
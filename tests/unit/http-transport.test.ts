@@ -0,0 +1,235 @@
+/**
+ * Unit tests for transport options and the Streamable HTTP transport
+ */
+
+import { request } from "http";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { resolveTransportOptions } from "../../src/transport/options.js";
+import { RunningHttpServer, startHttpTransport } from "../../src/transport/http.js";
+
+describe("Transport options", () => {
+  it("defaults to stdio with a loopback HTTP address", () => {
+    expect(resolveTransportOptions([], {})).toEqual({
+      transport: "stdio",
+      http: {
+        host: "127.0.0.1",
+        port: 3000,
+        path: "/mcp",
+        authToken: undefined,
+        sessionIdleTimeoutMs: 1800000,
+      },
+      checkConfig: false,
+    });
+  });
+
+  it("reads environment variables", () => {
+    const options = resolveTransportOptions([], {
+      USQL_TRANSPORT: "HTTP",
+      USQL_HTTP_HOST: "0.0.0.0",
+      USQL_HTTP_PORT: "8080",
+      USQL_HTTP_PATH: "rpc",
+      USQL_HTTP_AUTH_TOKEN: "secret",
+      USQL_HTTP_ALLOWED_HOSTS: "bastion.internal:8080, bastion:8080",
+      USQL_HTTP_ALLOWED_ORIGINS: "https://console.example.com",
+      USQL_HTTP_SESSION_IDLE_TIMEOUT_MS: "60000",
+    });
+
+    expect(options).toEqual({
+      transport: "http",
+      http: {
+        host: "0.0.0.0",
+        port: 8080,
+        path: "/rpc",
+        authToken: "secret",
+        allowedHosts: ["bastion.internal:8080", "bastion:8080"],
+        allowedOrigins: ["https://console.example.com"],
+        sessionIdleTimeoutMs: 60000,
+      },
+      checkConfig: false,
+    });
+  });
+
+  it("lets flags override environment variables", () => {
+    const options = resolveTransportOptions(["--transport", "http", "--port=9090", "--host", "::1"], {
+      USQL_TRANSPORT: "stdio",
+      USQL_HTTP_PORT: "8080",
+    });
+
+    expect(options.transport).toBe("http");
+    expect(options.http).toMatchObject({ host: "::1", port: 9090 });
+  });
+
+  it("parses --check-config as a switch", () => {
+    expect(resolveTransportOptions(["--check-config"], {}).checkConfig).toBe(true);
+    expect(resolveTransportOptions(["--check-config", "--port", "80"], {}).http.port).toBe(80);
+    expect(() => resolveTransportOptions(["--check-config=yes"], {})).toThrow(/does not take a value/);
+  });
+
+  it("rejects invalid values and unknown flags", () => {
+    expect(() => resolveTransportOptions(["--transport", "sse"], {})).toThrow(/Invalid transport/);
+    expect(() => resolveTransportOptions(["--port", "http"], {})).toThrow(/Invalid HTTP port/);
+    expect(() => resolveTransportOptions(["--port"], {})).toThrow(/requires a value/);
+    expect(() => resolveTransportOptions(["--auth-token", "x"], {})).toThrow(/Unknown option/);
+    expect(() => resolveTransportOptions([], { USQL_HTTP_SESSION_IDLE_TIMEOUT_MS: "0" })).toThrow(
+      /Invalid HTTP session idle timeout/
+    );
+  });
+});
+
+describe("Streamable HTTP transport", () => {
+  let running: RunningHttpServer;
+
+  const createServer = (): Server => {
+    const server = new Server({ name: "test", version: "0.0.0" }, { capabilities: { tools: {} } });
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: [{ name: "ping", inputSchema: { type: "object" as const } }],
+    }));
+    return server;
+  };
+
+  const initializeRequest = {
+    jsonrpc: "2.0",
+    id: 1,
+    method: "initialize",
+    params: {
+      protocolVersion: "2025-03-26",
+      capabilities: {},
+      clientInfo: { name: "jest", version: "0.0.0" },
+    },
+  };
+
+  function post(body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(running.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        Authorization: "Bearer test-token",
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  async function readSseMessage(response: Response): Promise<{ result?: unknown; error?: unknown }> {
+    const text = await response.text();
+    const data = text.split("\n").find((line) => line.startsWith("data: "));
+    return JSON.parse(data!.substring("data: ".length));
+  }
+
+  // fetch sets Host itself, so requests with chosen Host and Origin headers use http.request
+  function rawPost(headers: Record<string, string>): Promise<number> {
+    return new Promise((resolvePromise, reject) => {
+      const req = request(
+        running.url,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json, text/event-stream",
+            Authorization: "Bearer test-token",
+            ...headers,
+          },
+        },
+        (res) => {
+          res.resume();
+          res.on("end", () => resolvePromise(res.statusCode ?? 0));
+        }
+      );
+      req.on("error", reject);
+      req.end(JSON.stringify(initializeRequest));
+    });
+  }
+
+  beforeEach(async () => {
+    running = await startHttpTransport(createServer, {
+      host: "127.0.0.1",
+      port: 0,
+      path: "/mcp",
+      authToken: "test-token",
+      allowedOrigins: ["https://console.example.com"],
+      sessionIdleTimeoutMs: 1800000,
+    });
+  });
+
+  afterEach(async () => {
+    await running.close();
+  });
+
+  it("rejects requests without the bearer token", async () => {
+    const response = await post(initializeRequest, { Authorization: "Bearer wrong" });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get("www-authenticate")).toContain("Bearer");
+  });
+
+  it("rejects a Host header that does not name the server", async () => {
+    const port = new URL(running.url).port;
+
+    expect(await rawPost({ Host: `evil.example.com:${port}` })).toBe(403);
+    expect(await rawPost({ Host: `localhost:${port}` })).toBe(200);
+  });
+
+  it("rejects browser origins that are not allowed", async () => {
+    expect(await rawPost({ Origin: "https://evil.example.com" })).toBe(403);
+    expect(await rawPost({ Origin: "https://console.example.com" })).toBe(200);
+  });
+
+  it("closes sessions that stay idle", async () => {
+    await running.close();
+    running = await startHttpTransport(createServer, {
+      host: "127.0.0.1",
+      port: 0,
+      path: "/mcp",
+      authToken: "test-token",
+      sessionIdleTimeoutMs: 20,
+    });
+
+    const init = await post(initializeRequest);
+    const sessionId = init.headers.get("mcp-session-id")!;
+    await init.text();
+    await new Promise((resolvePromise) => setTimeout(resolvePromise, 100));
+
+    const list = await post(
+      { jsonrpc: "2.0", id: 2, method: "tools/list" },
+      { "mcp-session-id": sessionId, "mcp-protocol-version": "2025-03-26" }
+    );
+    expect(list.status).toBe(404);
+  });
+
+  it("serves other paths with 404", async () => {
+    const response = await fetch(running.url.replace("/mcp", "/other"));
+
+    expect(response.status).toBe(404);
+  });
+
+  it("initializes a session and routes follow-up requests to it", async () => {
+    const init = await post(initializeRequest);
+    const sessionId = init.headers.get("mcp-session-id");
+    const initMessage = await readSseMessage(init);
+
+    expect(init.status).toBe(200);
+    expect(sessionId).toBeTruthy();
+    expect(initMessage.result).toMatchObject({ serverInfo: { name: "test" } });
+
+    await post(
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+      { "mcp-session-id": sessionId!, "mcp-protocol-version": "2025-03-26" }
+    );
+    const list = await post(
+      { jsonrpc: "2.0", id: 2, method: "tools/list" },
+      { "mcp-session-id": sessionId!, "mcp-protocol-version": "2025-03-26" }
+    );
+
+    expect((await readSseMessage(list)).result).toMatchObject({ tools: [{ name: "ping" }] });
+  });
+
+  it("rejects unknown sessions and requests that skip initialization", async () => {
+    const unknown = await post({ jsonrpc: "2.0", id: 2, method: "tools/list" }, { "mcp-session-id": "nope" });
+    const missing = await post({ jsonrpc: "2.0", id: 2, method: "tools/list" });
+
+    expect(unknown.status).toBe(404);
+    expect(missing.status).toBe(400);
+  });
+});
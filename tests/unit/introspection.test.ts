@@ -0,0 +1,70 @@
+/**
+ * Unit tests for server introspection queries and their parsing
+ */
+
+import {
+  buildPingQuery,
+  buildServerInfoQuery,
+  parseServerInfo,
+  requestedTlsSettings,
+} from "../../src/usql/introspection.js";
+
+describe("Introspection", () => {
+  describe("buildPingQuery", () => {
+    it("uses the driver's dummy table where one is required", () => {
+      expect(buildPingQuery("oracle")).toBe("SELECT 1 FROM DUAL");
+      expect(buildPingQuery("firebird")).toBe("SELECT 1 FROM RDB$DATABASE");
+      expect(buildPingQuery("postgres")).toBe("SELECT 1");
+      expect(buildPingQuery("csvq")).toBe("SELECT 1");
+    });
+  });
+
+  describe("buildServerInfoQuery", () => {
+    it("is undefined for drivers without one", () => {
+      expect(buildServerInfoQuery("mysql")).toContain("VERSION()");
+      expect(buildServerInfoQuery("csvq")).toBeUndefined();
+    });
+  });
+
+  describe("parseServerInfo", () => {
+    it("matches upper-cased column names", () => {
+      const stdout = JSON.stringify([
+        { DB_VERSION: "Oracle Database 19c", DB_USER: "SCOTT", DB_NAME: "ORCL" },
+      ]);
+
+      expect(parseServerInfo(stdout)).toEqual({
+        server_version: "Oracle Database 19c",
+        current_user: "SCOTT",
+        current_database: "ORCL",
+      });
+    });
+
+    it("reads the TLS state of the session", () => {
+      const stdout = JSON.stringify([
+        { db_version: "PostgreSQL 16", tls_enabled: "f", tls_version: null, tls_cipher: null },
+      ]);
+
+      expect(parseServerInfo(stdout)).toEqual({
+        server_version: "PostgreSQL 16",
+        tls: { enabled: false },
+      });
+    });
+
+    it("returns nothing for output without rows", () => {
+      expect(parseServerInfo("")).toEqual({});
+      expect(parseServerInfo("[]")).toEqual({});
+    });
+  });
+
+  describe("requestedTlsSettings", () => {
+    it("picks the TLS parameters of the connection string", () => {
+      expect(
+        requestedTlsSettings("postgres://app@db/app?sslmode=verify-full&application_name=mcp")
+      ).toEqual({ sslmode: "verify-full" });
+      expect(requestedTlsSettings("sqlserver://sa@db/app?encrypt=true")).toEqual({
+        encrypt: "true",
+      });
+      expect(requestedTlsSettings("postgres://app@db/app")).toEqual({});
+    });
+  });
+});
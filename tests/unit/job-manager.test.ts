@@ -0,0 +1,143 @@
+/**
+ * Unit tests for background job tracking and cancellation
+ */
+
+import { getJobManager, shutdownJobManager } from "../../src/usql/job-manager.js";
+import { withBackgroundSupport } from "../../src/tools/background-wrapper.js";
+import * as config from "../../src/usql/config.js";
+
+jest.mock("../../src/usql/config.js");
+
+describe("Job Manager", () => {
+  beforeEach(() => {
+    shutdownJobManager();
+  });
+
+  afterAll(() => {
+    shutdownJobManager();
+  });
+
+  it("completes and fails running jobs", () => {
+    const manager = getJobManager();
+    const completed = manager.createJob("execute_query");
+    const failed = manager.createJob("execute_query");
+
+    manager.completeJob(completed, { rows: 1 });
+    manager.failJob(failed, { error: "QueryError", message: "boom" });
+
+    expect(manager.getJob(completed)).toMatchObject({ status: "completed", result: { rows: 1 } });
+    expect(manager.getJob(failed)).toMatchObject({ status: "failed", error: { error: "QueryError" } });
+  });
+
+  it("aborts the registered controller on cancel", () => {
+    const manager = getJobManager();
+    const jobId = manager.createJob("execute_query");
+    const controller = new AbortController();
+    manager.setJobCanceller(jobId, controller);
+
+    const result = manager.cancelJob(jobId);
+
+    expect(result.success).toBe(true);
+    expect(controller.signal.aborted).toBe(true);
+    expect(manager.getJob(jobId)?.status).toBe("cancelled");
+  });
+
+  it("keeps the cancelled state when the handler settles afterwards", () => {
+    const manager = getJobManager();
+    const lateResult = manager.createJob("execute_query");
+    const lateFailure = manager.createJob("execute_query");
+
+    manager.cancelJob(lateResult);
+    manager.cancelJob(lateFailure);
+    manager.completeJob(lateResult, { rows: 1 });
+    manager.failJob(lateFailure, { error: "QueryError", message: "Operation aborted by client" });
+
+    expect(manager.getJob(lateResult)).toMatchObject({
+      status: "cancelled",
+      error: { error: "JobCancelled" },
+    });
+    expect(manager.getJob(lateResult)?.result).toBeUndefined();
+    expect(manager.getJob(lateFailure)).toMatchObject({
+      status: "cancelled",
+      error: { error: "JobCancelled" },
+    });
+  });
+
+  it("refuses to cancel jobs that are not running", () => {
+    const manager = getJobManager();
+    const jobId = manager.createJob("execute_query");
+    manager.completeJob(jobId, {});
+
+    expect(manager.cancelJob(jobId).success).toBe(false);
+    expect(manager.cancelJob("missing").message).toContain("not found");
+  });
+});
+
+describe("withBackgroundSupport", () => {
+  const mockGetBackgroundThresholdMs = config.getBackgroundThresholdMs as jest.MockedFunction<
+    typeof config.getBackgroundThresholdMs
+  >;
+
+  const mockGetDefaultBackgroundThresholdMs =
+    config.getDefaultBackgroundThresholdMs as jest.MockedFunction<
+      typeof config.getDefaultBackgroundThresholdMs
+    >;
+
+  beforeEach(() => {
+    shutdownJobManager();
+    mockGetBackgroundThresholdMs.mockReset();
+    mockGetBackgroundThresholdMs.mockReturnValue(10);
+    mockGetDefaultBackgroundThresholdMs.mockReset();
+    mockGetDefaultBackgroundThresholdMs.mockReturnValue(10);
+  });
+
+  afterAll(() => {
+    shutdownJobManager();
+  });
+
+  it("returns fast results directly", async () => {
+    const handler = withBackgroundSupport("test_tool", async () => "done");
+
+    await expect(handler({})).resolves.toBe("done");
+  });
+
+  it("uses the connection's threshold, and the global one in a session", async () => {
+    const handler = withBackgroundSupport("test_tool", async () => "done");
+
+    await handler({ connection_string: "warehouse" });
+    expect(mockGetBackgroundThresholdMs).toHaveBeenCalledWith("warehouse");
+
+    await handler({ session_id: "abc" });
+    expect(mockGetDefaultBackgroundThresholdMs).toHaveBeenCalledTimes(1);
+    expect(mockGetBackgroundThresholdMs).toHaveBeenCalledTimes(1);
+  });
+
+  it("passes an abort signal that cancel_job triggers", async () => {
+    let receivedSignal: AbortSignal | undefined;
+    let rejectHandler: (error: Error) => void = () => undefined;
+
+    const handler = withBackgroundSupport("test_tool", (_input: unknown, signal?: AbortSignal) => {
+      receivedSignal = signal;
+      return new Promise<string>((_resolve, reject) => {
+        rejectHandler = reject;
+        signal?.addEventListener("abort", () => reject(new Error("Operation aborted by client")));
+      });
+    });
+
+    const response = (await handler({})) as { status: string; job_id: string };
+    expect(response.status).toBe("background");
+    expect(receivedSignal?.aborted).toBe(false);
+
+    const manager = getJobManager();
+    manager.cancelJob(response.job_id);
+    expect(receivedSignal?.aborted).toBe(true);
+
+    rejectHandler(new Error("late failure"));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(manager.getJob(response.job_id)).toMatchObject({
+      status: "cancelled",
+      error: { error: "JobCancelled" },
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for persisted background jobs
+ */
+
+import { appendFileSync, mkdtempSync, readFileSync, rmSync, statSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createJobStore, FileJobStore, MemoryJobStore } from "../../src/usql/job-store.js";
+import { initializeJobManager, shutdownJobManager } from "../../src/usql/job-manager.js";
+import { JobState } from "../../src/types/index.js";
+
+describe("Job Store", () => {
+  let storeDir: string;
+
+  beforeEach(() => {
+    shutdownJobManager();
+    storeDir = mkdtempSync(join(tmpdir(), "usql-mcp-jobs-"));
+  });
+
+  afterEach(() => {
+    shutdownJobManager();
+    rmSync(storeDir, { recursive: true, force: true });
+  });
+
+  function restart(resultTTL = 3600000): ReturnType<typeof initializeJobManager> {
+    shutdownJobManager();
+    return initializeJobManager(resultTTL, new FileJobStore(storeDir));
+  }
+
+  it("creates a memory store unless a directory is configured", () => {
+    expect(createJobStore()).toBeInstanceOf(MemoryJobStore);
+    expect(createJobStore("  ")).toBeInstanceOf(MemoryJobStore);
+    expect(createJobStore(storeDir)).toBeInstanceOf(FileJobStore);
+  });
+
+  it("round-trips jobs with their dates", () => {
+    const store = new FileJobStore(storeDir);
+    const job: JobState = {
+      id: "job-1",
+      status: "completed",
+      startedAt: new Date("2024-01-01T00:00:00.000Z"),
+      completedAt: new Date("2024-01-01T00:01:00.000Z"),
+      result: { format: "json", content: "[]" },
+      toolName: "execute_query",
+    };
+
+    store.save(job);
+    const [loaded] = new FileJobStore(storeDir).load();
+
+    expect(loaded).toEqual(job);
+    expect(loaded.startedAt).toBeInstanceOf(Date);
+    expect(statSync(join(storeDir, "jobs.jsonl")).mode & 0o777).toBe(0o600);
+  });
+
+  it("replays deletes and skips a torn last line", () => {
+    const store = new FileJobStore(storeDir);
+    const base = { status: "running" as const, startedAt: new Date(), toolName: "execute_query" };
+    store.save({ id: "kept", ...base });
+    store.save({ id: "deleted", ...base });
+    store.delete("deleted");
+    appendFileSync(join(storeDir, "jobs.jsonl"), '{"op":"put","job":{"id":"torn"');
+
+    expect(store.load().map((job) => job.id)).toEqual(["kept"]);
+  });
+
+  it("serves completed results after a restart", () => {
+    const manager = restart();
+    const jobId = manager.createJob("execute_query");
+    manager.completeJob(jobId, { format: "json", content: '[{"id":1}]' });
+
+    const restored = restart().getJob(jobId);
+
+    expect(restored).toMatchObject({
+      status: "completed",
+      result: { format: "json", content: '[{"id":1}]' },
+    });
+    expect(restored?.completedAt).toBeInstanceOf(Date);
+  });
+
+  it("marks jobs that were running at shutdown as orphaned", () => {
+    const manager = restart();
+    const jobId = manager.createJob("execute_script");
+
+    const restored = restart().getJob(jobId);
+
+    expect(restored).toMatchObject({
+      status: "failed",
+      error: { error: "JobOrphaned" },
+    });
+    expect(restored?.completedAt).toBeInstanceOf(Date);
+  });
+
+  it("drops expired jobs on load and compacts the log", () => {
+    const manager = restart();
+    const expired = manager.createJob("execute_query");
+    const kept = manager.createJob("execute_query");
+    manager.failJob(expired, { error: "QueryError", message: "boom" });
+    manager.completeJob(kept, { rows: 1 });
+
+    const store = new FileJobStore(storeDir);
+    const jobs = store.load();
+    jobs.find((job) => job.id === expired)!.completedAt = new Date(Date.now() - 10_000);
+    store.compact(jobs);
+
+    const restarted = restart(5_000);
+
+    expect(restarted.getJob(expired)).toBeNull();
+    expect(restarted.getJob(kept)).not.toBeNull();
+    const lines = readFileSync(join(storeDir, "jobs.jsonl"), "utf-8").trim().split("\n");
+    expect(lines).toHaveLength(1);
+  });
+
+  it("removes deleted jobs from disk", () => {
+    const manager = restart();
+    const jobId = manager.createJob("execute_query");
+    manager.completeJob(jobId, { rows: 1 });
+    manager.deleteJob(jobId);
+
+    expect(restart().getJob(jobId)).toBeNull();
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Unit tests for query parameter binding
+ */
+
+import {
+  bindParameters,
+  encodeLiteral,
+  findPlaceholders,
+  getPlaceholderStyle,
+} from "../../src/usql/parameters.js";
+
+describe("Parameter Binding", () => {
+  describe("getPlaceholderStyle", () => {
+    it("maps drivers to their placeholder families", () => {
+      expect(getPlaceholderStyle("postgres")).toBe("dollar");
+      expect(getPlaceholderStyle("mysql")).toBe("question");
+      expect(getPlaceholderStyle("sqlite3")).toBe("question");
+      expect(getPlaceholderStyle("mssql")).toBe("at");
+      expect(getPlaceholderStyle("oracle")).toBe("colon");
+    });
+
+    it("defaults unknown drivers to question marks", () => {
+      expect(getPlaceholderStyle("somethingelse")).toBe("question");
+    });
+  });
+
+  describe("encodeLiteral", () => {
+    it("encodes null and undefined as NULL", () => {
+      expect(encodeLiteral(null, "postgres")).toBe("NULL");
+      expect(encodeLiteral(undefined, "mysql")).toBe("NULL");
+    });
+
+    it("encodes booleans per driver", () => {
+      expect(encodeLiteral(true, "postgres")).toBe("TRUE");
+      expect(encodeLiteral(false, "postgres")).toBe("FALSE");
+      expect(encodeLiteral(true, "mysql")).toBe("1");
+      expect(encodeLiteral(false, "mssql")).toBe("0");
+    });
+
+    it("encodes numbers and parenthesises negatives", () => {
+      expect(encodeLiteral(42, "postgres")).toBe("42");
+      expect(encodeLiteral(1.5, "mysql")).toBe("1.5");
+      expect(encodeLiteral(-3, "postgres")).toBe("(-3)");
+    });
+
+    it("rejects non-finite numbers", () => {
+      expect(() => encodeLiteral(NaN, "postgres")).toThrow(/finite number/);
+      expect(() => encodeLiteral(Infinity, "postgres")).toThrow(/finite number/);
+    });
+
+    it("doubles single quotes in strings", () => {
+      expect(encodeLiteral("O'Brien", "postgres")).toBe("'O''Brien'");
+    });
+
+    it("escapes backslashes for mysql", () => {
+      expect(encodeLiteral("a\\'b", "mysql")).toBe("'a\\\\''b'");
+      expect(encodeLiteral("a\\b", "postgres")).toBe("'a\\b'");
+    });
+
+    it("uses national string literals for mssql", () => {
+      expect(encodeLiteral("héllo", "mssql")).toBe("N'héllo'");
+    });
+
+    it("rejects objects, arrays and NUL characters", () => {
+      expect(() => encodeLiteral({ a: 1 }, "postgres")).toThrow(/Unsupported parameter type/);
+      expect(() => encodeLiteral([1], "postgres")).toThrow(/array/);
+      expect(() => encodeLiteral("a\u0000b", "postgres")).toThrow(/NUL/);
+    });
+  });
+
+  describe("findPlaceholders", () => {
+    it("ignores placeholders inside strings, identifiers and comments", () => {
+      const sql = `SELECT '$1', "$2", $1 -- $3\n/* $4 */ FROM t WHERE x = $2`;
+      const found = findPlaceholders(sql, "postgres");
+
+      expect(found.map((p) => p.index)).toEqual([1, 2]);
+    });
+
+    it("skips postgres dollar-quoted bodies and casts", () => {
+      const sql = "SELECT $body$ $1 $body$, $$ $2 $$, $1::int";
+      const found = findPlaceholders(sql, "postgres");
+
+      expect(found.map((p) => p.index)).toEqual([1]);
+    });
+
+    it("does not treat identifiers containing $ as placeholders", () => {
+      expect(findPlaceholders("SELECT col$1 FROM t", "postgres")).toEqual([]);
+    });
+
+    it("ignores @@ system variables and bracketed names for mssql", () => {
+      const found = findPlaceholders("SELECT @@VERSION, [@p9], @p1", "mssql");
+
+      expect(found.map((p) => p.index)).toEqual([1]);
+    });
+
+    it("ignores :: and mysql backslash-escaped quotes", () => {
+      expect(findPlaceholders("SELECT a::text", "oracle")).toEqual([]);
+      expect(findPlaceholders("SELECT 'it\\'s ?', ?", "mysql")).toHaveLength(1);
+    });
+
+    it("honours backslash escapes in postgres E'' strings", () => {
+      expect(findPlaceholders("SELECT E'\\'' || '$1'", "postgres")).toEqual([]);
+      expect(findPlaceholders("SELECT e'\\'$1', $2", "postgres").map((p) => p.index)).toEqual([2]);
+      expect(() => bindParameters("SELECT E'\\'' || '$1'", ["x"], "postgres")).toThrow(
+        /placeholder\(s\) none/
+      );
+    });
+  });
+
+  describe("bindParameters", () => {
+    it("binds postgres numbered placeholders including repeats", () => {
+      const result = bindParameters("SELECT * FROM t WHERE a = $1 OR b = $1 AND c = $2", [5, "x"], "postgres");
+
+      expect(result).toBe("SELECT * FROM t WHERE a = 5 OR b = 5 AND c = 'x'");
+    });
+
+    it("binds question mark placeholders in order", () => {
+      const result = bindParameters("INSERT INTO t VALUES (?, ?, ?)", ["a", null, false], "sqlite3");
+
+      expect(result).toBe("INSERT INTO t VALUES ('a', NULL, 0)");
+    });
+
+    it("binds mssql and oracle placeholders", () => {
+      expect(bindParameters("SELECT @p2, @p1", [1, 2], "mssql")).toBe("SELECT 2, 1");
+      expect(bindParameters("SELECT :1 FROM dual", ["x"], "oracle")).toBe("SELECT 'x' FROM dual");
+    });
+
+    it("neutralises injection attempts in string values", () => {
+      const result = bindParameters("SELECT * FROM users WHERE name = ?", ["x' OR '1'='1"], "mysql");
+
+      expect(result).toBe("SELECT * FROM users WHERE name = 'x'' OR ''1''=''1'");
+    });
+
+    it("throws ParameterMismatch when counts differ for question marks", () => {
+      expect(() => bindParameters("SELECT ?", [1, 2], "mysql")).toThrow(
+        /1 placeholder\(s\) but 2 parameter\(s\)/
+      );
+    });
+
+    it("throws ParameterMismatch for out-of-range or unused numbered placeholders", () => {
+      expect(() => bindParameters("SELECT $2", [1, 2, 3], "postgres")).toThrow(/placeholder/);
+      expect(() => bindParameters("SELECT $3", [1], "postgres")).toThrow(/placeholder/);
+
+      let caught: unknown;
+      try {
+        bindParameters("SELECT $1", [1, 2], "postgres");
+      } catch (error) {
+        caught = error;
+      }
+      expect(caught).toMatchObject({
+        code: "ParameterMismatch",
+        details: expect.objectContaining({ unusedParameters: [2] }),
+      });
+    });
+  });
+});
@@ -2,7 +2,7 @@
  * Unit tests for usql stderr parsing utilities
  */
 
-import { parseUsqlError } from "../../src/usql/parser.js";
+import { parseUsqlError, parseUsqlErrorDetails } from "../../src/usql/parser.js";
 
 describe("parseUsqlError", () => {
   it("returns the first error-like line when present", () => {
@@ -102,3 +102,72 @@ LINE 1: SELCT * FROM users
     expect(result).toBe("Database ERROR: connection lost");
   });
 });
+
+describe("parseUsqlErrorDetails", () => {
+  it("extracts the SQLSTATE from pgx errors", () => {
+    expect(
+      parseUsqlErrorDetails('error: pgx: ERROR: relation "nope" does not exist (SQLSTATE 42P01)', "postgres")
+    ).toEqual({ sqlstate: "42P01", message: 'relation "nope" does not exist' });
+  });
+
+  it("reads psql-style line, caret position, detail and hint", () => {
+    const stderr = [
+      "ERROR:  42601: syntax error at or near \"FORM\"",
+      "LINE 2: SELECT * FORM users",
+      "                 ^",
+      "DETAIL:  The statement was not executed.",
+      "HINT:  Did you mean FROM?",
+    ].join("\n");
+
+    expect(parseUsqlErrorDetails(stderr, "postgres")).toEqual({
+      sqlstate: "42601",
+      message: 'syntax error at or near "FORM"',
+      detail: "The statement was not executed.",
+      hint: "Did you mean FROM?",
+      line: 2,
+      position: 10,
+    });
+  });
+
+  it("extracts MySQL error numbers and locates the near fragment in the query", () => {
+    const stderr =
+      "error: mysql: Error 1064 (42000): You have an error in your SQL syntax; check the manual that corresponds to your MySQL server version for the right syntax to use near 'SELEC 1' at line 2";
+
+    expect(parseUsqlErrorDetails(stderr, "mysql", "SELECT 1;\n  SELEC 1;")).toMatchObject({
+      code: "1064",
+      sqlstate: "42000",
+      message: expect.stringMatching(/^You have an error in your SQL syntax/),
+      line: 2,
+      position: 3,
+    });
+  });
+
+  it("reads SQL Server message headers", () => {
+    const stderr = "error: mssql: Msg 208, Level 16, State 1, Server db1, Line 3\nInvalid object name 'nope'.";
+
+    expect(parseUsqlErrorDetails(stderr, "mssql")).toEqual({
+      code: "208",
+      message: "Invalid object name 'nope'.",
+      line: 3,
+    });
+  });
+
+  it("extracts Oracle and SQLite codes", () => {
+    expect(parseUsqlErrorDetails("error: godror: ORA-00942: table or view does not exist", "oracle")).toEqual({
+      code: "ORA-00942",
+      message: "table or view does not exist",
+    });
+    expect(
+      parseUsqlErrorDetails('error: sqlite: SQL logic error: near "SELEC": syntax error (1)', "sqlite3", "SELEC 1")
+    ).toEqual({
+      code: "1",
+      message: 'SQL logic error: near "SELEC": syntax error',
+      line: 1,
+      position: 1,
+    });
+  });
+
+  it("keeps the first line as the message when nothing is recognised", () => {
+    expect(parseUsqlErrorDetails("connection timeout\nretrying")).toEqual({ message: "connection timeout" });
+  });
+});
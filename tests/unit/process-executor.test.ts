@@ -336,6 +336,28 @@ describe("Process Executor", () => {
       await expect(promise).rejects.toThrow(/timed out after 100ms/);
     });
 
+    it("passes through the abort signal and kills the process group", async () => {
+      const controller = new AbortController();
+      const promise = executeUsqlQuery("postgres://localhost/db", "SELECT pg_sleep(60)", {
+        signal: controller.signal,
+      });
+
+      controller.abort();
+
+      await expect(promise).rejects.toThrow(/aborted/);
+      expect(mockProcessKill).toHaveBeenCalledWith(-12345);
+    });
+
+    it("rejects immediately when the signal is already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        executeUsqlQuery("postgres://localhost/db", "SELECT 1", { signal: controller.signal })
+      ).rejects.toThrow(/aborted/);
+      expect(spawn).not.toHaveBeenCalled();
+    });
+
     it("defaults to JSON format", async () => {
       const promise = executeUsqlQuery("postgres://localhost/db", "SELECT 1");
 
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for prompt templates
+ */
+
+import { getPrompt, prompts } from "../../src/prompts/sql-prompts.js";
+import * as processExecutor from "../../src/usql/process-executor.js";
+import * as config from "../../src/usql/config.js";
+import * as connection from "../../src/usql/connection.js";
+
+jest.mock("../../src/usql/process-executor.js");
+jest.mock("../../src/usql/config.js");
+jest.mock("../../src/usql/connection.js");
+
+describe("Prompts", () => {
+  const mockExecuteUsqlQuery = processExecutor.executeUsqlQuery as jest.MockedFunction<
+    typeof processExecutor.executeUsqlQuery
+  >;
+
+  function promptText(result: Awaited<ReturnType<typeof getPrompt>>): string {
+    const content = result.messages[0].content;
+    return content.type === "text" ? content.text : "";
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (config.loadConfig as jest.Mock).mockReturnValue({
+      connections: { sales: { uri: "postgres://sales/db" } },
+    });
+    (config.getDefaultConnectionName as jest.Mock).mockReturnValue("sales");
+    (config.resolveConnectionName as jest.Mock).mockImplementation((name: string) =>
+      ["sales", "analytics"].includes(name.toLowerCase()) ? "sales" : undefined
+    );
+    (config.resolveConnectionStringOrDefault as jest.Mock).mockResolvedValue("postgres://sales/db");
+    (config.getQueryTimeout as jest.Mock).mockReturnValue(undefined);
+    (config.getMaxResultRows as jest.Mock).mockReturnValue(undefined);
+    (connection.validateConnectionString as jest.Mock).mockReturnValue(true);
+    mockExecuteUsqlQuery.mockImplementation(async (_conn, command) => ({
+      stdout: command === "\\dt" ? '[{"name":"orders"}]' : '[{"column":"id","type":"integer"}]',
+      stderr: "",
+      exitCode: 0,
+    }));
+  });
+
+  it("lists the built-in prompts with their arguments", () => {
+    expect(prompts.map((p) => p.name)).toEqual(["explore_database", "write_query", "explain_slow_query"]);
+    expect(prompts[1].arguments?.find((a) => a.name === "question")?.required).toBe(true);
+  });
+
+  it("pre-fills the table list for explore_database using the default connection", async () => {
+    const result = await getPrompt("explore_database");
+
+    expect(promptText(result)).toContain('"sales" database');
+    expect(promptText(result)).toContain('[{"name":"orders"}]');
+    expect(mockExecuteUsqlQuery).toHaveBeenCalledWith("postgres://sales/db", "\\dt", expect.any(Object));
+  });
+
+  it("describes the requested tables for write_query", async () => {
+    const result = await getPrompt("write_query", {
+      connection: "SALES",
+      question: "Revenue per month?",
+      tables: "orders, customers",
+    });
+
+    const text = promptText(result);
+    expect(text).toContain("Revenue per month?");
+    expect(text).toContain("### Table orders");
+    expect(text).toContain("### Table customers");
+    expect(mockExecuteUsqlQuery).toHaveBeenCalledWith("postgres://sales/db", "\\d customers", expect.any(Object));
+  });
+
+  it("keeps the prompt when a schema lookup fails", async () => {
+    mockExecuteUsqlQuery.mockResolvedValue({ stdout: "", stderr: "error: connection refused", exitCode: 1 });
+
+    const result = await getPrompt("explain_slow_query", { query: "SELECT * FROM orders", tables: "orders" });
+
+    expect(promptText(result)).toContain("SELECT * FROM orders");
+    expect(promptText(result)).toContain("(Could not load: DescribeTableError");
+    expect(promptText(result)).toContain(
+      'calling the explain_query tool with connection_string "sales"'
+    );
+  });
+
+  it("resolves aliases and environment names like the tools do", async () => {
+    const result = await getPrompt("explore_database", { connection: "analytics" });
+
+    expect(promptText(result)).toContain('"sales" database');
+    expect(config.resolveConnectionName).toHaveBeenCalledWith("analytics");
+  });
+
+  it("rejects table names that would add arguments to \\d", async () => {
+    await expect(
+      getPrompt("write_query", { question: "q", tables: "orders, users \\! touch x" })
+    ).rejects.toMatchObject({ code: "InvalidInput", message: expect.stringContaining("Invalid table name") });
+    await expect(getPrompt("explain_slow_query", { query: "SELECT 1", tables: "a;b" })).rejects.toMatchObject({
+      code: "InvalidInput",
+    });
+    expect(mockExecuteUsqlQuery).not.toHaveBeenCalled();
+  });
+
+  it("rejects missing arguments, URIs and unknown prompts", async () => {
+    await expect(getPrompt("write_query", {})).rejects.toMatchObject({ code: "InvalidInput" });
+    await expect(getPrompt("explore_database", { connection: "postgres://u:p@host/db" })).rejects.toMatchObject({
+      code: "InvalidInput",
+      message: expect.not.stringContaining("u:p"),
+    });
+    await expect(getPrompt("nope")).rejects.toMatchObject({ code: "PromptNotFound" });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for schema resources
+ */
+
+import { listResources, readResource, resourceTemplates } from "../../src/resources/schema-resources.js";
+import * as processExecutor from "../../src/usql/process-executor.js";
+import * as config from "../../src/usql/config.js";
+import * as connection from "../../src/usql/connection.js";
+
+jest.mock("../../src/usql/process-executor.js");
+jest.mock("../../src/usql/config.js");
+jest.mock("../../src/usql/connection.js");
+
+describe("Schema Resources", () => {
+  const mockExecuteUsqlQuery = processExecutor.executeUsqlQuery as jest.MockedFunction<
+    typeof processExecutor.executeUsqlQuery
+  >;
+  const mockLoadConfig = config.loadConfig as jest.MockedFunction<typeof config.loadConfig>;
+  const mockResolveConnectionStringOrDefault =
+    config.resolveConnectionStringOrDefault as jest.MockedFunction<
+      typeof config.resolveConnectionStringOrDefault
+    >;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockLoadConfig.mockReturnValue({
+      connections: {
+        warehouse: { uri: "postgres://warehouse/db", description: "Analytics warehouse" },
+        app: { uri: "sqlite:///tmp/app.db" },
+      },
+    });
+    mockResolveConnectionStringOrDefault.mockImplementation(
+      async (name) => mockLoadConfig().connections[name as string].uri
+    );
+    (config.resolveConnectionName as jest.Mock).mockImplementation((name: string) => {
+      const key = name.toLowerCase();
+      return key === "dwh" ? "warehouse" : mockLoadConfig().connections[key] ? key : undefined;
+    });
+    (config.getQueryTimeout as jest.Mock).mockReturnValue(undefined);
+    (config.getMaxResultRows as jest.Mock).mockReturnValue(undefined);
+    (config.isProductionConnection as jest.Mock).mockReturnValue(false);
+    (connection.validateConnectionString as jest.Mock).mockReturnValue(true);
+    mockExecuteUsqlQuery.mockResolvedValue({ stdout: '[{"name":"users"}]', stderr: "", exitCode: 0 });
+  });
+
+  it("lists a tables resource per configured connection", () => {
+    expect(listResources()).toEqual([
+      {
+        uri: "usql://app/tables",
+        name: "app tables",
+        description: "Tables in the app connection",
+        mimeType: "application/json",
+      },
+      {
+        uri: "usql://warehouse/tables",
+        name: "warehouse tables",
+        description: "Analytics warehouse",
+        mimeType: "application/json",
+      },
+    ]);
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual([
+      "usql://{connection}/tables",
+      "usql://{connection}/table/{table}",
+    ]);
+  });
+
+  it("marks production connections", () => {
+    (config.isProductionConnection as jest.Mock).mockImplementation((name) => name === "warehouse");
+
+    expect(listResources().map((resource) => resource.description)).toEqual([
+      "Tables in the app connection",
+      "[production] Analytics warehouse",
+    ]);
+  });
+
+  it("reads tables with \\dt on the named connection", async () => {
+    const contents = await readResource("usql://warehouse/tables");
+
+    expect(contents).toEqual({
+      uri: "usql://warehouse/tables",
+      mimeType: "application/json",
+      text: '[{"name":"users"}]',
+    });
+    expect(mockExecuteUsqlQuery).toHaveBeenCalledWith("postgres://warehouse/db", "\\dt", expect.objectContaining({ format: "json" }));
+  });
+
+  it("reads a table definition with \\d and decodes the name", async () => {
+    await readResource("usql://warehouse/table/public.order%24items");
+
+    expect(mockExecuteUsqlQuery).toHaveBeenCalledWith(
+      "postgres://warehouse/db",
+      "\\d public.order$items",
+      expect.objectContaining({ format: "json" })
+    );
+  });
+
+  it("resolves connection aliases to the configured connection", async () => {
+    await readResource("usql://dwh/tables");
+
+    expect(mockExecuteUsqlQuery).toHaveBeenCalledWith("postgres://warehouse/db", "\\dt", expect.any(Object));
+  });
+
+  it("rejects unknown connections, unknown paths and unsafe table names", async () => {
+    await expect(readResource("usql://missing/tables")).rejects.toMatchObject({ code: "ResourceNotFound" });
+    await expect(readResource("usql://warehouse/views")).rejects.toMatchObject({ code: "ResourceNotFound" });
+    await expect(readResource("usql://warehouse/table/users%3B%5C!%20rm")).rejects.toMatchObject({
+      code: "InvalidInput",
+    });
+    expect(mockExecuteUsqlQuery).not.toHaveBeenCalled();
+  });
+});
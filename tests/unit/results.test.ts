@@ -0,0 +1,163 @@
+/**
+ * Unit tests for usql output post-processing
+ */
+
+import {
+  applyRowLimit,
+  buildToolOutput,
+  limitRows,
+  splitOutputSegments,
+  toStructuredOutput,
+} from "../../src/usql/results.js";
+
+describe("Result Processing", () => {
+  describe("splitOutputSegments", () => {
+    it("separates JSON documents from command tags", () => {
+      const stdout = '[{"id":1}]\nINSERT 0 1\n[{"n":2}]\n';
+      const segments = splitOutputSegments(stdout);
+
+      expect(segments.map((s) => s.type)).toEqual(["json", "text", "json"]);
+      expect(stdout.substring(segments[1].start, segments[1].end)).toBe("INSERT 0 1");
+    });
+
+    it("treats bracketed text that is not JSON as plain text", () => {
+      const segments = splitOutputSegments("[notice] something happened\n");
+
+      expect(segments).toHaveLength(1);
+      expect(segments[0].type).toBe("text");
+    });
+  });
+
+  describe("limitRows (json)", () => {
+    it("leaves results under the cap untouched", () => {
+      const content = '[{"id":1},{"id":2}]';
+      const result = limitRows(content, "json", 5);
+
+      expect(result).toEqual({ content, truncated: false, totalRows: 2, returnedRows: 2 });
+    });
+
+    it("truncates to the requested number of rows", () => {
+      const result = limitRows('[{"id":1},{"id":2},{"id":3}]', "json", 2);
+
+      expect(result.truncated).toBe(true);
+      expect(result.totalRows).toBe(3);
+      expect(JSON.parse(result.content)).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    it("keeps the original text of returned rows (no precision loss)", () => {
+      const result = limitRows('[{"id":9007199254740993,"s":"a,]}"},{"id":2}]', "json", 1);
+
+      expect(result.content).toBe('[{"id":9007199254740993,"s":"a,]}"}]');
+    });
+
+    it("handles pretty-printed output and nested values", () => {
+      const content = '[\n  {"a": [1, 2], "b": {"c": 3}},\n  {"a": [], "b": null}\n]\n';
+      const result = limitRows(content, "json", 1);
+
+      expect(JSON.parse(result.content)).toEqual([{ a: [1, 2], b: { c: 3 } }]);
+    });
+
+    it("applies the cap across multiple result sets", () => {
+      const content = '[{"id":1},{"id":2}]\nUPDATE 3\n[{"x":1},{"x":2}]\n';
+      const result = limitRows(content, "json", 3);
+
+      expect(result.truncated).toBe(true);
+      expect(result.totalRows).toBe(4);
+      expect(result.content).toBe('[{"id":1},{"id":2}]\nUPDATE 3\n[{"x":1}]\n');
+    });
+  });
+
+  describe("limitRows (csv)", () => {
+    it("keeps the header and caps records", () => {
+      const result = limitRows("id,name\n1,a\n2,b\n3,c\n", "csv", 2);
+
+      expect(result.content).toBe("id,name\n1,a\n2,b\n");
+      expect(result.totalRows).toBe(3);
+    });
+
+    it("does not split quoted fields containing newlines", () => {
+      const result = limitRows('id,note\n1,"line one\nline two"\n2,x', "csv", 1);
+
+      expect(result.content).toBe('id,note\n1,"line one\nline two"\n');
+      expect(result.totalRows).toBe(2);
+    });
+  });
+
+  describe("applyRowLimit", () => {
+    it("returns output unchanged without a cap", () => {
+      const output = { format: "json" as const, content: '[{"id":1},{"id":2}]' };
+
+      expect(applyRowLimit(output, undefined)).toBe(output);
+    });
+
+    it("adds truncation metadata when rows are dropped", () => {
+      const result = applyRowLimit({ format: "json", content: '[{"id":1},{"id":2}]' }, 1);
+
+      expect(result).toEqual({
+        format: "json",
+        content: '[{"id":1}]',
+        truncated: true,
+        returned_rows: 1,
+        total_rows: 2,
+      });
+    });
+  });
+
+  describe("toStructuredOutput", () => {
+    it("parses rows and infers column types", () => {
+      const result = toStructuredOutput({
+        format: "json",
+        content: '[{"id":1,"name":"a","score":1.5,"active":true,"meta":{"k":1},"note":null},' +
+          '{"id":2,"name":"b","score":2,"active":false,"meta":null,"note":null}]',
+      });
+
+      expect(result.format).toBe("structured");
+      expect(result.row_count).toBe(2);
+      expect(result.rows[0]).toEqual({ id: 1, name: "a", score: 1.5, active: true, meta: { k: 1 }, note: null });
+      expect(result.columns).toEqual([
+        { name: "id", type: "integer" },
+        { name: "name", type: "string" },
+        { name: "score", type: "number" },
+        { name: "active", type: "boolean" },
+        { name: "meta", type: "json" },
+        { name: "note", type: "unknown" },
+      ]);
+    });
+
+    it("returns an empty result for output without rows", () => {
+      const result = toStructuredOutput({ format: "json", content: "[]" });
+
+      expect(result).toEqual({ format: "structured", columns: [], rows: [], row_count: 0 });
+    });
+
+    it("keeps every result set and command tags for scripts", () => {
+      const result = toStructuredOutput({
+        format: "json",
+        content: 'INSERT 0 1\n[{"a":1}]\n[{"b":"x"},{"b":"y"}]\n',
+      });
+
+      expect(result.rows).toEqual([{ b: "x" }, { b: "y" }]);
+      expect(result.result_sets).toHaveLength(2);
+      expect(result.messages).toEqual(["INSERT 0 1"]);
+    });
+
+    it("carries truncation metadata through", () => {
+      const result = buildToolOutput('[{"id":1},{"id":2},{"id":3}]', "structured", 1);
+
+      expect(result).toMatchObject({
+        format: "structured",
+        rows: [{ id: 1 }],
+        row_count: 1,
+        truncated: true,
+        total_rows: 3,
+      });
+    });
+  });
+
+  describe("buildToolOutput", () => {
+    it("returns raw output for json and csv", () => {
+      expect(buildToolOutput("id\n1\n", "csv")).toEqual({ format: "csv", content: "id\n1\n" });
+      expect(buildToolOutput("[]", "json")).toEqual({ format: "json", content: "[]" });
+    });
+  });
+});
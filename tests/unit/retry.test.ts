@@ -0,0 +1,237 @@
+/**
+ * Unit tests for retrying transient usql failures
+ */
+
+import { computeRetryDelay, executeWithRetry, isIdempotentSql } from "../../src/usql/retry.js";
+import * as processExecutor from "../../src/usql/process-executor.js";
+
+jest.mock("../../src/usql/process-executor.js");
+
+const DEADLOCK = {
+  stdout: "",
+  stderr: "error: pgx: ERROR: deadlock detected (SQLSTATE 40P01)\n",
+  exitCode: 1,
+};
+const SYNTAX = {
+  stdout: "",
+  stderr: 'error: pgx: ERROR: syntax error at or near "SELEC" (SQLSTATE 42601)\n',
+  exitCode: 1,
+};
+const SUCCESS = { stdout: '[{"id":1}]', stderr: "", exitCode: 0 };
+
+describe("Retry", () => {
+  const mockExecuteUsqlQuery = processExecutor.executeUsqlQuery as jest.MockedFunction<
+    typeof processExecutor.executeUsqlQuery
+  >;
+  const policy = { maxAttempts: 3, initialDelayMs: 1, maxDelayMs: 2 };
+
+  beforeEach(() => {
+    mockExecuteUsqlQuery.mockReset();
+  });
+
+  describe("isIdempotentSql", () => {
+    it("accepts reads only", () => {
+      expect(isIdempotentSql("SELECT 1; SHOW search_path;", "postgres")).toBe(true);
+      expect(isIdempotentSql("SELECT 1; UPDATE t SET x = 1;", "postgres")).toBe(false);
+      expect(isIdempotentSql("CALL refresh();", "postgres")).toBe(false);
+    });
+  });
+
+  describe("computeRetryDelay", () => {
+    it("grows exponentially with equal jitter and is capped", () => {
+      const retryPolicy = { initialDelayMs: 100, multiplier: 2, maxDelayMs: 300 };
+
+      expect(computeRetryDelay(1, retryPolicy, () => 0)).toBe(50);
+      expect(computeRetryDelay(1, retryPolicy, () => 1)).toBe(100);
+      expect(computeRetryDelay(2, retryPolicy, () => 1)).toBe(200);
+      expect(computeRetryDelay(5, retryPolicy, () => 1)).toBe(300);
+    });
+
+    it("uses defaults when the policy is empty", () => {
+      expect(computeRetryDelay(1, {}, () => 1)).toBe(200);
+    });
+  });
+
+  describe("executeWithRetry", () => {
+    it("retries retryable failures and records each attempt", async () => {
+      mockExecuteUsqlQuery
+        .mockResolvedValueOnce(DEADLOCK)
+        .mockResolvedValueOnce(DEADLOCK)
+        .mockResolvedValueOnce(SUCCESS);
+
+      const { result, attempts } = await executeWithRetry(
+        "postgres://localhost/db",
+        "SELECT 1",
+        {},
+        {
+          policy,
+          idempotent: true,
+          driver: "postgres",
+        }
+      );
+
+      expect(result).toEqual(SUCCESS);
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledTimes(3);
+      expect(attempts).toEqual([
+        expect.objectContaining({
+          attempt: 1,
+          error_class: "deadlock",
+          message: expect.stringContaining("deadlock"),
+        }),
+        expect.objectContaining({ attempt: 2, error_class: "deadlock" }),
+      ]);
+    });
+
+    it("returns the last failure once attempts are exhausted", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue(DEADLOCK);
+
+      const { result, attempts } = await executeWithRetry(
+        "postgres://localhost/db",
+        "SELECT 1",
+        {},
+        {
+          policy: { ...policy, maxAttempts: 2 },
+          idempotent: true,
+        }
+      );
+
+      expect(result).toEqual(DEADLOCK);
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledTimes(2);
+      expect(attempts).toHaveLength(1);
+    });
+
+    it("does not retry non-retryable failures", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue(SYNTAX);
+
+      const { attempts } = await executeWithRetry(
+        "postgres://localhost/db",
+        "SELEC 1",
+        {},
+        {
+          policy,
+          idempotent: true,
+        }
+      );
+
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledTimes(1);
+      expect(attempts).toEqual([]);
+    });
+
+    it("does not retry non-idempotent statements unless the policy allows it", async () => {
+      mockExecuteUsqlQuery.mockResolvedValueOnce(DEADLOCK).mockResolvedValueOnce(SUCCESS);
+
+      await executeWithRetry(
+        "postgres://localhost/db",
+        "UPDATE t SET x = 1",
+        {},
+        {
+          policy,
+          idempotent: false,
+        }
+      );
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledTimes(1);
+
+      mockExecuteUsqlQuery.mockReset();
+      mockExecuteUsqlQuery.mockResolvedValueOnce(DEADLOCK).mockResolvedValueOnce(SUCCESS);
+
+      const { result } = await executeWithRetry(
+        "postgres://localhost/db",
+        "UPDATE t SET x = 1",
+        {},
+        {
+          policy: { ...policy, retryNonIdempotent: true },
+          idempotent: false,
+        }
+      );
+      expect(result).toEqual(SUCCESS);
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledTimes(2);
+    });
+
+    it("gives each attempt only the time left of the timeout", async () => {
+      const now = jest.spyOn(Date, "now").mockReturnValue(10_000);
+      mockExecuteUsqlQuery.mockImplementationOnce(async () => {
+        now.mockReturnValue(10_600);
+        return DEADLOCK;
+      });
+      mockExecuteUsqlQuery.mockResolvedValueOnce(SUCCESS);
+
+      try {
+        const { result } = await executeWithRetry(
+          "postgres://localhost/db",
+          "SELECT 1",
+          { timeout: 1000 },
+          { policy, idempotent: true }
+        );
+
+        expect(result).toEqual(SUCCESS);
+        expect(mockExecuteUsqlQuery.mock.calls.map((call) => call[2]?.timeout)).toEqual([1000, 400]);
+      } finally {
+        now.mockRestore();
+      }
+    });
+
+    it("stops retrying once the timeout is used up", async () => {
+      const now = jest.spyOn(Date, "now").mockReturnValue(10_000);
+      mockExecuteUsqlQuery.mockImplementation(async () => {
+        now.mockReturnValue(11_000);
+        return DEADLOCK;
+      });
+
+      try {
+        const { result, attempts } = await executeWithRetry(
+          "postgres://localhost/db",
+          "SELECT 1",
+          { timeout: 1000 },
+          { policy, idempotent: true }
+        );
+
+        expect(result).toEqual(DEADLOCK);
+        expect(attempts).toEqual([]);
+        expect(mockExecuteUsqlQuery).toHaveBeenCalledTimes(1);
+      } finally {
+        now.mockRestore();
+      }
+    });
+
+    it("runs once without a policy", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue(DEADLOCK);
+
+      await executeWithRetry("postgres://localhost/db", "SELECT 1", {}, { idempotent: true });
+
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it("never retries thrown errors", async () => {
+      mockExecuteUsqlQuery.mockRejectedValue(new Error("Query execution timeout after 10ms"));
+
+      await expect(
+        executeWithRetry(
+          "postgres://localhost/db",
+          "SELECT 1",
+          { timeout: 10 },
+          { policy, idempotent: true }
+        )
+      ).rejects.toThrow(/timeout/);
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it("stops waiting when the request is aborted", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue(DEADLOCK);
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        executeWithRetry(
+          "postgres://localhost/db",
+          "SELECT 1",
+          { signal: controller.signal },
+          {
+            policy,
+            idempotent: true,
+          }
+        )
+      ).rejects.toThrow(/aborted/);
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+});
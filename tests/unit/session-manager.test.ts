@@ -0,0 +1,171 @@
+/**
+ * Unit tests for persistent usql sessions, driven by a fake usql that speaks the same
+ * stdin/stdout protocol (statements terminated by ";", backslash meta-commands per line)
+ */
+
+import { chmodSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getSessionManager, shutdownSessionManager } from "../../src/usql/session-manager.js";
+import { handleOpenSession } from "../../src/tools/open-session.js";
+import { handleCloseSession } from "../../src/tools/close-session.js";
+import { handleExecuteQuery } from "../../src/tools/execute-query.js";
+import { resetConfigCache } from "../../src/usql/config.js";
+import { RawOutput } from "../../src/types/index.js";
+
+const FAKE_USQL = `#!/usr/bin/env node
+const fs = require("fs");
+const readline = require("readline");
+const log = (line) => fs.appendFileSync(require("path").join(__dirname, "statements.log"), line + "\\n");
+if (process.argv[2].includes("unreachable")) {
+  process.stderr.write("error: dial tcp: connection refused\\n");
+  process.exit(1);
+}
+let format = "json";
+let buffer = "";
+let sleeping = false;
+const rl = readline.createInterface({ input: process.stdin });
+rl.on("line", (line) => {
+  if (sleeping) return;
+  if (buffer === "" && line.startsWith("\\\\")) {
+    const [command, ...rest] = line.split(" ");
+    if (command === "\\\\echo") process.stdout.write(rest.join(" ") + "\\n");
+    if (command === "\\\\pset") format = rest[1];
+    if (command === "\\\\q") process.exit(0);
+    return;
+  }
+  buffer += (buffer ? "\\n" : "") + line;
+  if (!buffer.trim().endsWith(";")) return;
+  const statement = buffer.replace(/\\s*;\\s*$/, "").trim();
+  buffer = "";
+  if (statement === "") return;
+  log(statement);
+  if (/^SELECT pg_sleep/i.test(statement)) {
+    sleeping = true;
+  } else if (/^SELECT/i.test(statement)) {
+    process.stdout.write(format === "csv" ? "n\\n1\\n" : '[{"n":1}]\\n');
+  } else if (/^FAIL/i.test(statement)) {
+    process.stderr.write("error: syntax error at or near FAIL\\n");
+  } else {
+    process.stdout.write(statement.split(/\\s+/)[0].toUpperCase() + "\\n");
+  }
+});
+rl.on("close", () => process.exit(0));
+`;
+
+describe("Session Manager", () => {
+  const originalEnv = { ...process.env };
+  let workDir: string;
+  let logPath: string;
+
+  const statements = (): string[] => readFileSync(logPath, "utf-8").trim().split("\n");
+
+  beforeAll(() => {
+    workDir = mkdtempSync(join(tmpdir(), "usql-mcp-session-"));
+    const binary = join(workDir, "usql");
+    writeFileSync(binary, FAKE_USQL);
+    chmodSync(binary, 0o755);
+    logPath = join(workDir, "statements.log");
+    process.env.USQL_BINARY_PATH = binary;
+    process.env.USQL_CONFIG_PATH = join(workDir, "missing-config.json");
+    resetConfigCache();
+  });
+
+  beforeEach(() => {
+    writeFileSync(logPath, "");
+  });
+
+  afterEach(async () => {
+    await shutdownSessionManager();
+  });
+
+  afterAll(() => {
+    process.env = { ...originalEnv };
+    resetConfigCache();
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("keeps a transaction open across execute_query calls and rolls back on close", async () => {
+    const opened = await handleOpenSession({ connection_string: "postgres://localhost/app" });
+
+    expect(opened).toMatchObject({ driver: "postgres", session_id: expect.any(String) });
+
+    await handleExecuteQuery({ session_id: opened.session_id, query: "BEGIN" });
+    await handleExecuteQuery({ session_id: opened.session_id, query: "UPDATE t SET x = 1" });
+    const select = (await handleExecuteQuery({
+      session_id: opened.session_id,
+      query: "SELECT x FROM t -- check",
+    })) as RawOutput;
+
+    expect(select.content).toBe('[{"n":1}]\n');
+
+    const closed = await handleCloseSession({ session_id: opened.session_id });
+
+    expect(closed.status).toBe("closed");
+    expect(statements()).toEqual(["BEGIN", "UPDATE t SET x = 1", "SELECT x FROM t -- check", "ROLLBACK"]);
+    await expect(
+      handleExecuteQuery({ session_id: opened.session_id, query: "SELECT 1" })
+    ).rejects.toMatchObject({ error: "SessionNotFound" });
+  });
+
+  it("switches the output format per call", async () => {
+    const { session_id } = await handleOpenSession({ connection_string: "postgres://localhost/app" });
+
+    const csv = (await handleExecuteQuery({ session_id, query: "SELECT 1;", output_format: "csv" })) as RawOutput;
+    const json = (await handleExecuteQuery({ session_id, query: "SELECT 1;" })) as RawOutput;
+
+    expect(csv).toEqual({ format: "csv", content: "n\n1\n" });
+    expect(json.content).toBe('[{"n":1}]\n');
+  });
+
+  it("reports statement errors without ending the session", async () => {
+    const { session_id } = await handleOpenSession({ connection_string: "postgres://localhost/app" });
+
+    await expect(handleExecuteQuery({ session_id, query: "FAIL" })).rejects.toMatchObject({
+      error: "QueryExecutionError",
+      message: expect.stringContaining("syntax error"),
+    });
+    await expect(handleExecuteQuery({ session_id, query: "SELECT 1" })).resolves.toMatchObject({
+      content: '[{"n":1}]\n',
+    });
+  });
+
+  it("fails to open when usql cannot connect", async () => {
+    await expect(handleOpenSession({ connection_string: "postgres://unreachable/app" })).rejects.toMatchObject({
+      error: "SessionClosed",
+      message: expect.stringContaining("connection refused"),
+    });
+    expect(getSessionManager().getSessions()).toHaveLength(0);
+  });
+
+  it("ends the session when a command times out", async () => {
+    const { session_id } = await handleOpenSession({ connection_string: "postgres://localhost/app" });
+
+    await expect(
+      handleExecuteQuery({ session_id, query: "SELECT pg_sleep(60)", timeout_ms: 200 })
+    ).rejects.toMatchObject({ error: "QueryTimeout" });
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(() => getSessionManager().getSession(session_id)).toThrow(/Session not found/);
+  });
+
+  it("closes idle sessions", async () => {
+    const { session_id } = await handleOpenSession({
+      connection_string: "postgres://localhost/app",
+      idle_timeout_ms: 100,
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 400));
+
+    expect(() => getSessionManager().getSession(session_id)).toThrow(/Session not found/);
+    expect(statements()).toEqual(["ROLLBACK"]);
+  });
+
+  it("rejects connection_string together with session_id", async () => {
+    const { session_id } = await handleOpenSession({ connection_string: "postgres://localhost/app" });
+
+    await expect(
+      handleExecuteQuery({ session_id, connection_string: "postgres://localhost/other", query: "SELECT 1" })
+    ).rejects.toMatchObject({ error: "InvalidInput" });
+  });
+});
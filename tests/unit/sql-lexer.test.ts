@@ -0,0 +1,87 @@
+/**
+ * Tests for the shared SQL lexer
+ */
+
+import { lexSql } from "../../src/usql/sql-lexer.js";
+
+function types(sql: string, driver?: string): string[] {
+  return lexSql(sql, driver).tokens.map((t) => `${t.type}:${t.value}`);
+}
+
+describe("SQL Lexer", () => {
+  it("skips whitespace and comments and upper-cases words", () => {
+    expect(types("select a -- b\n/* c /* d */ e */ from t")).toEqual([
+      "word:SELECT",
+      "word:A",
+      "word:FROM",
+      "word:T",
+    ]);
+  });
+
+  it("only nests block comments for drivers that support it", () => {
+    expect(types("/* a /* b */ DELETE */", "mysql")).toEqual(["word:DELETE", "punct:*", "punct:/"]);
+  });
+
+  it("scans E'' strings with backslash escapes for postgres", () => {
+    expect(types("SELECT E'\\''; DELETE", "postgres")).toEqual([
+      "word:SELECT",
+      "literal:E'\\''",
+      "punct:;",
+      "word:DELETE",
+    ]);
+    expect(types("SELECT E'\\' AS x", "sqlite3")).toEqual([
+      "word:SELECT",
+      "word:E",
+      "literal:'\\'",
+      "word:AS",
+      "word:X",
+    ]);
+    expect(lexSql("SELECT E'\\' AS x", "postgres").unterminated).toBe(true);
+  });
+
+  it("uses driver quoting rules for identifiers and dollar quotes", () => {
+    expect(types("SELECT [a;b], $$ x $$", "mssql")).toEqual([
+      "word:SELECT",
+      "quoted:[a;b]",
+      "punct:,",
+      "punct:$",
+      "punct:$",
+      "word:X",
+      "punct:$",
+      "punct:$",
+    ]);
+    expect(types("SELECT $tag$ ; $tag$", "postgres")).toEqual([
+      "word:SELECT",
+      "literal:$tag$ ; $tag$",
+    ]);
+  });
+
+  it("treats mysql -- as a comment only when followed by whitespace", () => {
+    expect(types("SELECT 1--1", "mysql")).toEqual([
+      "word:SELECT",
+      "punct:1",
+      "punct:-",
+      "punct:-",
+      "punct:1",
+    ]);
+    expect(types("SELECT 1 # DELETE", "mysql")).toEqual(["word:SELECT", "punct:1"]);
+  });
+
+  it("emits meta-commands up to the next backslash or end of line", () => {
+    expect(types("SELECT 1 \\g \\! touch x\nSELECT 2")).toEqual([
+      "word:SELECT",
+      "punct:1",
+      "meta:\\g ",
+      "meta:\\! touch x",
+      "word:SELECT",
+      "punct:2",
+    ]);
+  });
+
+  it("reports literals and comments that run past the end of the input", () => {
+    expect(lexSql("SELECT 'abc").unterminated).toBe(true);
+    expect(lexSql("SELECT 1 /* abc").unterminated).toBe(true);
+    expect(lexSql("SELECT $$abc", "postgres").unterminated).toBe(true);
+    expect(lexSql("SELECT 'abc'").unterminated).toBe(false);
+  });
+});
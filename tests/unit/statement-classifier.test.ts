@@ -0,0 +1,166 @@
+/**
+ * Unit tests for SQL statement classification
+ */
+
+import { assertReadOnlySql, classifySql } from "../../src/usql/statement-classifier.js";
+
+function kinds(sql: string, driver?: string): string[] {
+  return classifySql(sql, driver).map((s) => s.kind);
+}
+
+describe("Statement Classifier", () => {
+  describe("classifySql", () => {
+    it("classifies basic statement types", () => {
+      expect(kinds("SELECT 1")).toEqual(["read"]);
+      expect(kinds("insert into t values (1)")).toEqual(["write"]);
+      expect(kinds("UPDATE t SET a = 1")).toEqual(["write"]);
+      expect(kinds("DELETE FROM t")).toEqual(["write"]);
+      expect(kinds("CREATE TABLE t (id int)")).toEqual(["ddl"]);
+      expect(kinds("DROP TABLE t")).toEqual(["ddl"]);
+      expect(kinds("TRUNCATE t")).toEqual(["ddl"]);
+      expect(kinds("BEGIN; COMMIT; ROLLBACK")).toEqual(["transaction", "transaction", "transaction"]);
+      expect(kinds("SET search_path TO app")).toEqual(["session"]);
+      expect(kinds("CALL do_things()")).toEqual(["unknown"]);
+    });
+
+    it("splits statements on semicolons outside literals", () => {
+      const statements = classifySql("SELECT ';'; DELETE FROM t; SELECT 2");
+
+      expect(statements.map((s) => s.keyword)).toEqual(["SELECT", "DELETE", "SELECT"]);
+      expect(statements[0].text).toBe("SELECT ';'");
+    });
+
+    it("ignores keywords inside comments, strings and quoted identifiers", () => {
+      expect(kinds("-- DELETE FROM t\nSELECT 'DROP TABLE x' AS \"update\" /* INSERT */ FROM t")).toEqual(["read"]);
+      expect(kinds("/* DROP TABLE t; */ SELECT 1")).toEqual(["read"]);
+    });
+
+    it("handles comments before a write statement", () => {
+      expect(kinds("/* harmless */ -- really\nDROP TABLE t")).toEqual(["ddl"]);
+    });
+
+    it("does not split inside dollar-quoted bodies", () => {
+      const statements = classifySql("SELECT $$a; DROP TABLE t;$$; SELECT 2", "postgres");
+
+      expect(statements.map((s) => s.kind)).toEqual(["read", "read"]);
+    });
+
+    it("respects mysql backslash escapes", () => {
+      expect(kinds("SELECT 'it\\'s; DELETE FROM t'", "mysql")).toEqual(["read"]);
+    });
+
+    it("detects data-modifying CTEs", () => {
+      expect(kinds("WITH x AS (SELECT 1) SELECT * FROM x")).toEqual(["read"]);
+      expect(kinds("WITH gone AS (DELETE FROM t RETURNING *) SELECT * FROM gone")).toEqual(["write"]);
+      expect(kinds("WITH x AS (SELECT 1) INSERT INTO t SELECT * FROM x")).toEqual(["write"]);
+    });
+
+    it("treats locking reads and SELECT INTO as writes", () => {
+      expect(kinds("SELECT * FROM t FOR UPDATE")).toEqual(["write"]);
+      expect(kinds("SELECT * FROM t FOR NO KEY UPDATE")).toEqual(["write"]);
+      expect(kinds("SELECT * INTO backup FROM t")).toEqual(["write"]);
+    });
+
+    it("classifies EXPLAIN ANALYZE by the statement it runs", () => {
+      expect(kinds("EXPLAIN SELECT 1")).toEqual(["read"]);
+      expect(kinds("EXPLAIN DELETE FROM t")).toEqual(["read"]);
+      expect(kinds("EXPLAIN ANALYZE DELETE FROM t")).toEqual(["write"]);
+      expect(kinds("EXPLAIN (ANALYZE, BUFFERS) SELECT 1")).toEqual(["read"]);
+    });
+
+    it("finds ANALYZE anywhere before the explained statement", () => {
+      expect(kinds("EXPLAIN (BUFFERS, COSTS, FORMAT JSON, ANALYZE) DELETE FROM t")).toEqual([
+        "write",
+      ]);
+      expect(kinds("EXPLAIN (COSTS OFF, SUMMARY, ANALYSE true) UPDATE t SET a = 1")).toEqual([
+        "write",
+      ]);
+      expect(kinds("EXPLAIN VERBOSE COSTS ANALYZE INSERT INTO t VALUES (1)")).toEqual(["write"]);
+      expect(kinds("EXPLAIN (FORMAT JSON) DELETE FROM t")).toEqual(["read"]);
+    });
+
+    it("distinguishes transactions from anonymous blocks", () => {
+      expect(kinds("BEGIN TRANSACTION")).toEqual(["transaction"]);
+      expect(kinds("START TRANSACTION READ ONLY")).toEqual(["transaction"]);
+      expect(kinds("BEGIN dbms_stats.gather_table_stats('A', 'B'); END", "oracle")[0]).toBe("unknown");
+    });
+
+    it("treats global settings as unknown", () => {
+      expect(kinds("SET GLOBAL max_connections = 10", "mysql")).toEqual(["unknown"]);
+    });
+
+    it("classifies usql meta-commands", () => {
+      expect(kinds("\\dt")).toEqual(["read"]);
+      expect(kinds("\\d users")).toEqual(["read"]);
+      expect(kinds("\\i /tmp/evil.sql")).toEqual(["unknown"]);
+      expect(kinds("\\! rm -rf /")).toEqual(["unknown"]);
+    });
+
+    it("treats a backslash anywhere as a meta-command and trusts only one", () => {
+      expect(kinds("SELECT 1 \\! touch x")).toEqual(["read", "unknown"]);
+      expect(kinds("\\dt \\! touch x")).toEqual(["unknown", "unknown"]);
+      expect(kinds("\\dt\n\\d users")).toEqual(["unknown", "unknown"]);
+      expect(kinds("\\echo `touch x`")).toEqual(["unknown"]);
+    });
+
+    it("honours backslash escapes in postgres E'' strings", () => {
+      expect(kinds("SELECT E'\\''; DELETE FROM t; --'", "postgres")).toEqual(["read", "write"]);
+      expect(kinds("SELECT E'\\'; DELETE FROM t", "postgres")).toEqual(["unknown"]);
+    });
+
+    it("treats unterminated literals and comments as unknown", () => {
+      expect(kinds("SELECT 'abc")).toEqual(["unknown"]);
+      expect(kinds("SELECT 1; /* DELETE FROM t")).toEqual(["read", "unknown"]);
+    });
+
+    it("only treats COPY TO STDOUT as a read", () => {
+      expect(kinds("COPY (SELECT a FROM t) TO STDOUT WITH (FORMAT csv)", "postgres")).toEqual(["read"]);
+      expect(kinds("COPY t FROM STDIN", "postgres")).toEqual(["write"]);
+      expect(kinds("COPY t TO '/tmp/t.csv'", "postgres")).toEqual(["unknown"]);
+      expect(kinds("COPY t TO PROGRAM 'touch x'", "postgres")).toEqual(["unknown"]);
+    });
+
+    it("treats side-effecting functions in a SELECT as writes", () => {
+      expect(kinds("SELECT setval('s', 1)", "postgres")).toEqual(["write"]);
+      expect(kinds("SELECT pg_catalog.pg_terminate_backend(42)", "postgres")).toEqual(["write"]);
+      expect(kinds('SELECT "nextval"(\'s\')', "postgres")).toEqual(["write"]);
+      expect(kinds("SELECT nextval FROM t", "postgres")).toEqual(["read"]);
+    });
+
+    it("treats attempts to leave read-only mode as unknown", () => {
+      expect(kinds("SET default_transaction_read_only = off")).toEqual(["unknown"]);
+      expect(kinds("SET SESSION CHARACTERISTICS AS TRANSACTION READ WRITE")).toEqual(["unknown"]);
+      expect(kinds("BEGIN READ WRITE")).toEqual(["unknown"]);
+      expect(kinds("START TRANSACTION READ WRITE", "mysql")).toEqual(["unknown"]);
+      expect(kinds("BEGIN READ ONLY")).toEqual(["transaction"]);
+    });
+
+    it("classifies sqlite pragmas", () => {
+      expect(kinds("PRAGMA table_info(users)", "sqlite3")).toEqual(["read"]);
+      expect(kinds("PRAGMA journal_mode = WAL", "sqlite3")).toEqual(["write"]);
+    });
+  });
+
+  describe("assertReadOnlySql", () => {
+    it("allows reads, transaction control and session settings", () => {
+      expect(() => assertReadOnlySql("BEGIN; SET LOCAL statement_timeout = 1000; SELECT 1; ROLLBACK")).not.toThrow();
+    });
+
+    it("rejects writes with the offending statements in details", () => {
+      let caught: unknown;
+      try {
+        assertReadOnlySql("SELECT 1; UPDATE t SET a = 1");
+      } catch (error) {
+        caught = error;
+      }
+
+      expect(caught).toMatchObject({
+        code: "ReadOnlyViolation",
+        message: expect.stringContaining("UPDATE (write)"),
+        details: {
+          violations: [{ keyword: "UPDATE", kind: "write", statement: "UPDATE t SET a = 1" }],
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Unit tests for catalog-based table descriptions
+ */
+
+import {
+  applyCheckClauses,
+  buildCatalogScript,
+  buildCheckClauseQuery,
+  parseTableDescription,
+  splitTableName,
+} from "../../src/usql/table-metadata.js";
+
+const output = (...resultSets: unknown[][]): string =>
+  resultSets.map((rows) => JSON.stringify(rows)).join("\n");
+
+describe("Table metadata", () => {
+  describe("splitTableName", () => {
+    it("splits at the last dot and drops identifier quotes", () => {
+      expect(splitTableName("orders")).toEqual({ table: "orders" });
+      expect(splitTableName('sales."Order Lines"')).toEqual({
+        schema: "sales",
+        table: "Order Lines",
+      });
+      expect(splitTableName("[dbo].[orders]")).toEqual({ schema: "dbo", table: "orders" });
+    });
+  });
+
+  describe("buildCatalogScript", () => {
+    it("runs five statements with the names as literals", () => {
+      const script = buildCatalogScript("postgres", "o'brien", "sales");
+
+      expect(script.split(";\n")).toHaveLength(5);
+      expect(script).toContain("c.relname = 'o''brien'");
+      expect(script).toContain("n.nspname = 'sales'");
+    });
+
+    it("falls back to the session's schema", () => {
+      expect(buildCatalogScript("postgres", "orders")).toContain("current_schema()");
+      expect(buildCatalogScript("mysql", "orders")).toContain("DATABASE()");
+      expect(buildCatalogScript("mssql", "orders")).toContain("QUOTENAME(SCHEMA_NAME())");
+      expect(buildCatalogScript("sqlite3", "orders")).toContain('"main".sqlite_master');
+    });
+
+    it("rejects drivers without catalog queries", () => {
+      expect(() => buildCatalogScript("clickhouse", "orders")).toThrow(
+        /not supported for clickhouse connections/
+      );
+    });
+  });
+
+  describe("check clauses", () => {
+    it("keeps CHECK_CONSTRAINTS out of the MySQL catalog script", () => {
+      expect(buildCatalogScript("mysql", "orders")).not.toContain("CHECK_CONSTRAINTS");
+      expect(buildCheckClauseQuery("mysql", "orders", "shop")).toContain(
+        "FROM information_schema.CHECK_CONSTRAINTS cc"
+      );
+      expect(buildCheckClauseQuery("mysql", "orders", "shop")).toContain(
+        "tc.TABLE_SCHEMA = 'shop' AND tc.TABLE_NAME = 'orders'"
+      );
+    });
+
+    it("has no separate query on drivers that report clauses in the script", () => {
+      expect(buildCheckClauseQuery("postgres", "orders")).toBeUndefined();
+      expect(buildCheckClauseQuery("sqlite3", "orders")).toBeUndefined();
+    });
+
+    it("fills in empty definitions by constraint name", () => {
+      const description = parseTableDescription(
+        output(
+          [{ table_schema: "shop", table_name: "orders" }],
+          [],
+          [
+            { constraint_name: "total_positive", constraint_type: "CHECK", check_clause: null },
+            { constraint_name: "qty_positive", constraint_type: "CHECK", check_clause: null },
+          ],
+          [],
+          []
+        ),
+        "mysql"
+      );
+
+      const filled = applyCheckClauses(
+        description!,
+        output([{ constraint_name: "total_positive", check_clause: "(`total` >= 0)" }])
+      );
+
+      expect(filled.check_constraints).toEqual([
+        { name: "total_positive", definition: "(`total` >= 0)" },
+        { name: "qty_positive", definition: "" },
+      ]);
+    });
+  });
+
+  describe("parseTableDescription", () => {
+    it("groups catalog rows into one description", () => {
+      const stdout = output(
+        [
+          {
+            table_schema: "public",
+            table_name: "orders",
+            table_comment: "Orders",
+            row_estimate: 1200,
+          },
+        ],
+        [
+          {
+            column_name: "customer_id",
+            data_type: "integer",
+            is_nullable: false,
+            column_default: null,
+            column_comment: null,
+            ordinal: 2,
+          },
+          {
+            column_name: "id",
+            data_type: "integer",
+            is_nullable: false,
+            column_default: "nextval('orders_id_seq'::regclass)",
+            column_comment: "Surrogate key",
+            ordinal: 1,
+          },
+        ],
+        [
+          {
+            constraint_name: "orders_pkey",
+            constraint_type: "PRIMARY KEY",
+            column_name: "id",
+            ordinal: 1,
+          },
+          {
+            constraint_name: "orders_code_key",
+            constraint_type: "UNIQUE",
+            column_name: "code",
+            ordinal: 2,
+          },
+          {
+            constraint_name: "orders_code_key",
+            constraint_type: "UNIQUE",
+            column_name: "customer_id",
+            ordinal: 1,
+          },
+          {
+            constraint_name: "orders_total_check",
+            constraint_type: "CHECK",
+            column_name: null,
+            ordinal: null,
+            check_clause: "CHECK ((total >= 0))",
+          },
+        ],
+        [
+          {
+            index_name: "orders_pkey",
+            column_name: "id",
+            ordinal: 1,
+            is_unique: true,
+            is_primary: true,
+            index_method: "btree",
+          },
+        ],
+        [
+          {
+            direction: "outgoing",
+            constraint_name: "orders_customer_fk",
+            from_schema: "public",
+            from_table: "orders",
+            from_column: "customer_id",
+            to_schema: "public",
+            to_table: "customers",
+            to_column: "id",
+            ordinal: 1,
+            on_update: "NO ACTION",
+            on_delete: "CASCADE",
+          },
+          {
+            direction: "incoming",
+            constraint_name: "items_order_fk",
+            from_schema: "public",
+            from_table: "items",
+            from_column: "order_id",
+            to_schema: "public",
+            to_table: "orders",
+            to_column: "id",
+            ordinal: 1,
+            on_update: "NO_ACTION",
+            on_delete: "SET_NULL",
+          },
+        ]
+      );
+
+      expect(parseTableDescription(stdout, "postgres")).toEqual({
+        driver: "postgres",
+        schema: "public",
+        table: "orders",
+        comment: "Orders",
+        columns: [
+          {
+            name: "id",
+            type: "integer",
+            nullable: false,
+            default: "nextval('orders_id_seq'::regclass)",
+            comment: "Surrogate key",
+          },
+          { name: "customer_id", type: "integer", nullable: false, default: null, comment: null },
+        ],
+        primary_key: { name: "orders_pkey", columns: ["id"] },
+        unique_constraints: [{ name: "orders_code_key", columns: ["customer_id", "code"] }],
+        check_constraints: [{ name: "orders_total_check", definition: "CHECK ((total >= 0))" }],
+        indexes: [
+          { name: "orders_pkey", columns: ["id"], unique: true, primary: true, method: "btree" },
+        ],
+        foreign_keys: [
+          {
+            name: "orders_customer_fk",
+            table: "public.orders",
+            columns: ["customer_id"],
+            referenced_table: "public.customers",
+            referenced_columns: ["id"],
+            on_update: "NO ACTION",
+            on_delete: "CASCADE",
+          },
+        ],
+        referenced_by: [
+          {
+            name: "items_order_fk",
+            table: "public.items",
+            columns: ["order_id"],
+            referenced_table: "public.orders",
+            referenced_columns: ["id"],
+            on_update: "NO ACTION",
+            on_delete: "SET NULL",
+          },
+        ],
+        approximate_row_count: 1200,
+      });
+    });
+
+    it("tells unnamed SQLite foreign keys apart by constraint_id", () => {
+      const foreignKey = (id: number, column: string, target: string): Record<string, unknown> => ({
+        direction: "outgoing",
+        constraint_id: id,
+        constraint_name: null,
+        from_schema: "main",
+        from_table: "transfers",
+        from_column: column,
+        to_schema: "main",
+        to_table: target,
+        to_column: null,
+        ordinal: 1,
+      });
+      const stdout = output(
+        [
+          {
+            TABLE_SCHEMA: "main",
+            TABLE_NAME: "transfers",
+            TABLE_COMMENT: null,
+            ROW_ESTIMATE: null,
+          },
+        ],
+        [{ column_name: "source", data_type: "INTEGER", is_nullable: 1, ordinal: 1 }],
+        [],
+        [],
+        [foreignKey(0, "target", "accounts"), foreignKey(1, "source", "accounts")]
+      );
+
+      const description = parseTableDescription(stdout, "sqlite3");
+
+      expect(description?.approximate_row_count).toBeNull();
+      expect(description?.columns[0].nullable).toBe(true);
+      expect(description?.primary_key).toBeNull();
+      expect(description?.foreign_keys.map((key) => key.columns)).toEqual([["target"], ["source"]]);
+      expect(description?.foreign_keys[0].referenced_columns).toEqual([null]);
+    });
+
+    it("returns undefined for a missing table", () => {
+      expect(parseTableDescription(output([], [], [], [], []), "mysql")).toBeUndefined();
+    });
+
+    it("fails when result sets are missing", () => {
+      expect(() => parseTableDescription(output([], []), "mysql")).toThrow(
+        /Expected 5 result sets from the catalog queries, got 2/
+      );
+    });
+  });
+});
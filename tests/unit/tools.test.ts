@@ -7,9 +7,21 @@ import { handleListDatabases } from "../../src/tools/list-databases.js";
 import { handleListTables } from "../../src/tools/list-tables.js";
 import { handleDescribeTable } from "../../src/tools/describe-table.js";
 import { handleExecuteScript } from "../../src/tools/execute-script.js";
+import { handleExplainQuery } from "../../src/tools/explain-query.js";
+import { handleTestConnection } from "../../src/tools/test-connection.js";
+import { handleGetDatabaseInfo } from "../../src/tools/get-database-info.js";
+import { clearDatabaseInfoCache } from "../../src/usql/database-info.js";
 import * as processExecutor from "../../src/usql/process-executor.js";
 import * as config from "../../src/usql/config.js";
 import * as connection from "../../src/usql/connection.js";
+import {
+  ConnectionStatus,
+  ConnectionStatusBoard,
+  DatabaseInfo,
+  ExecuteQueryInput,
+  RawOutput,
+  TableDescription,
+} from "../../src/types/index.js";
 
 // Mock dependencies
 jest.mock("../../src/usql/process-executor.js");
@@ -27,15 +39,36 @@ describe("Tool Handlers", () => {
   const mockGetQueryTimeout = config.getQueryTimeout as jest.MockedFunction<
     typeof config.getQueryTimeout
   >;
+  const mockGetMaxResultRows = config.getMaxResultRows as jest.MockedFunction<
+    typeof config.getMaxResultRows
+  >;
+  const mockIsReadOnlyConnection = config.isReadOnlyConnection as jest.MockedFunction<
+    typeof config.isReadOnlyConnection
+  >;
   const mockValidateConnectionString = connection.validateConnectionString as jest.MockedFunction<
     typeof connection.validateConnectionString
   >;
+  const mockParseConnectionString = connection.parseConnectionString as jest.MockedFunction<
+    typeof connection.parseConnectionString
+  >;
 
   beforeEach(() => {
     jest.clearAllMocks();
-    mockResolveConnectionStringOrDefault.mockReturnValue("postgres://localhost/testdb");
+    mockResolveConnectionStringOrDefault.mockResolvedValue("postgres://localhost/testdb");
     mockGetQueryTimeout.mockReturnValue(undefined);
+    mockGetMaxResultRows.mockReturnValue(undefined);
+    mockIsReadOnlyConnection.mockReturnValue(false);
     mockValidateConnectionString.mockReturnValue(true);
+    (connection.applyDatabaseArgument as jest.Mock).mockImplementation(
+      jest.requireActual("../../src/usql/connection.js").applyDatabaseArgument
+    );
+    mockParseConnectionString.mockReturnValue({
+      scheme: "postgres",
+      driver: "postgres",
+      host: "localhost",
+      database: "testdb",
+      originalUri: "postgres://localhost/testdb",
+    });
   });
 
   describe("handleExecuteQuery", () => {
@@ -46,17 +79,17 @@ describe("Tool Handlers", () => {
         exitCode: 0,
       });
 
-      const result = await handleExecuteQuery({
+      const result = (await handleExecuteQuery({
         query: "SELECT * FROM users",
         connection_string: "postgres://localhost/db",
-      });
+      })) as RawOutput;
 
       expect(result.format).toBe("json");
       expect(result.content).toBe('{"rows": [{"id": 1}]}');
       expect(mockExecuteUsqlQuery).toHaveBeenCalledWith(
         "postgres://localhost/testdb",
         "SELECT * FROM users",
-        { timeout: undefined, format: "json" }
+        { timeout: undefined, format: "json", signal: expect.any(AbortSignal) }
       );
     });
 
@@ -67,10 +100,10 @@ describe("Tool Handlers", () => {
         exitCode: 0,
       });
 
-      const result = await handleExecuteQuery({
+      const result = (await handleExecuteQuery({
         query: "SELECT * FROM users",
         output_format: "csv",
-      });
+      })) as RawOutput;
 
       expect(result.format).toBe("csv");
       expect(result.content).toBe("id,name\n1,John");
@@ -114,9 +147,7 @@ describe("Tool Handlers", () => {
     });
 
     it("throws error when connection resolution fails", async () => {
-      mockResolveConnectionStringOrDefault.mockImplementation(() => {
-        throw new Error("No connection configured");
-      });
+      mockResolveConnectionStringOrDefault.mockRejectedValue(new Error("No connection configured"));
 
       await expect(
         handleExecuteQuery({ query: "SELECT 1" })
@@ -141,6 +172,24 @@ describe("Tool Handlers", () => {
       });
     });
 
+    it("adds parsed SQLSTATE and position to the error details", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue({
+        stdout: "",
+        stderr: 'error: pgx: ERROR: syntax error at or near "SELCT" (SQLSTATE 42601)\nLINE 1: SELCT * FROM users\n        ^',
+        exitCode: 1,
+      });
+
+      await expect(handleExecuteQuery({ query: "SELCT * FROM users" })).rejects.toMatchObject({
+        error: "QueryExecutionError",
+        details: expect.objectContaining({
+          sqlstate: "42601",
+          message: 'syntax error at or near "SELCT"',
+          line: 1,
+          position: 1,
+        }),
+      });
+    });
+
     it("respects timeout_ms parameter", async () => {
       mockExecuteUsqlQuery.mockResolvedValue({
         stdout: "{}",
@@ -196,6 +245,135 @@ describe("Tool Handlers", () => {
       );
     });
 
+    it("uses the timeout and row cap of the requested connection", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue({ stdout: "[]", stderr: "", exitCode: 0 });
+
+      await handleExecuteQuery({ connection_string: "warehouse", query: "SELECT 1" });
+
+      expect(mockGetQueryTimeout).toHaveBeenCalledWith("warehouse");
+      expect(mockGetMaxResultRows).toHaveBeenCalledWith("warehouse");
+    });
+
+    it("binds parameters using the driver placeholder style", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue({ stdout: "[]", stderr: "", exitCode: 0 });
+
+      await handleExecuteQuery({
+        query: "SELECT * FROM users WHERE name = $1 AND active = $2",
+        parameters: ["O'Brien", true],
+      });
+
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledWith(
+        expect.any(String),
+        "SELECT * FROM users WHERE name = 'O''Brien' AND active = TRUE",
+        expect.any(Object)
+      );
+    });
+
+    it("rejects a parameter count that does not match the placeholders", async () => {
+      await expect(
+        handleExecuteQuery({
+          query: "SELECT * FROM users WHERE id = $1",
+          parameters: [1, 2],
+        })
+      ).rejects.toMatchObject({
+        error: "ParameterMismatch",
+      });
+      expect(mockExecuteUsqlQuery).not.toHaveBeenCalled();
+    });
+
+    it("rejects parameters that are not an array", async () => {
+      await expect(
+        handleExecuteQuery({
+          query: "SELECT 1",
+          parameters: "1",
+        } as unknown as ExecuteQueryInput)
+      ).rejects.toMatchObject({
+        error: "InvalidInput",
+        message: expect.stringContaining("parameters must be an array"),
+      });
+    });
+
+    it("caps rows at defaults.maxResultRows and reports truncation", async () => {
+      mockGetMaxResultRows.mockReturnValue(2);
+      mockExecuteUsqlQuery.mockResolvedValue({
+        stdout: '[{"id":1},{"id":2},{"id":3}]',
+        stderr: "",
+        exitCode: 0,
+      });
+
+      const result = (await handleExecuteQuery({ query: "SELECT * FROM users" })) as RawOutput;
+
+      expect(JSON.parse(result.content)).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(result.truncated).toBe(true);
+      expect(result.total_rows).toBe(3);
+      expect(result.returned_rows).toBe(2);
+    });
+
+    it("lets max_rows override the configured cap", async () => {
+      mockGetMaxResultRows.mockReturnValue(1);
+      mockExecuteUsqlQuery.mockResolvedValue({
+        stdout: '[{"id":1},{"id":2},{"id":3}]',
+        stderr: "",
+        exitCode: 0,
+      });
+
+      const limited = (await handleExecuteQuery({ query: "SELECT 1", max_rows: 2 })) as RawOutput;
+      expect(limited.returned_rows).toBe(2);
+
+      const unlimited = (await handleExecuteQuery({ query: "SELECT 1", max_rows: null })) as RawOutput;
+      expect(unlimited.truncated).toBeUndefined();
+      expect(JSON.parse(unlimited.content)).toHaveLength(3);
+    });
+
+    it("returns parsed rows for structured output", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue({
+        stdout: '[{"id":1,"name":"John"}]',
+        stderr: "",
+        exitCode: 0,
+      });
+
+      const result = await handleExecuteQuery({
+        query: "SELECT * FROM users",
+        output_format: "structured",
+      });
+
+      expect(result).toEqual({
+        format: "structured",
+        columns: [
+          { name: "id", type: "integer" },
+          { name: "name", type: "string" },
+        ],
+        rows: [{ id: 1, name: "John" }],
+        row_count: 1,
+      });
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.any(String),
+        expect.objectContaining({ format: "json" })
+      );
+    });
+
+    it("rejects writes on read-only connections before spawning usql", async () => {
+      mockIsReadOnlyConnection.mockReturnValue(true);
+
+      await expect(
+        handleExecuteQuery({ query: "/* cleanup */ DELETE FROM users", connection_string: "replica" })
+      ).rejects.toMatchObject({
+        error: "ReadOnlyViolation",
+      });
+      expect(mockIsReadOnlyConnection).toHaveBeenCalledWith("replica");
+      expect(mockExecuteUsqlQuery).not.toHaveBeenCalled();
+    });
+
+    it("allows reads on read-only connections", async () => {
+      mockIsReadOnlyConnection.mockReturnValue(true);
+      mockExecuteUsqlQuery.mockResolvedValue({ stdout: "[]", stderr: "", exitCode: 0 });
+
+      await handleExecuteQuery({ query: "WITH x AS (SELECT 1) SELECT * FROM x" });
+
+      expect(mockExecuteUsqlQuery).toHaveBeenCalled();
+    });
+
     it("sanitizes connection string in error details", async () => {
       mockExecuteUsqlQuery.mockRejectedValue(new Error("Connection failed"));
 
@@ -220,7 +398,7 @@ describe("Tool Handlers", () => {
         exitCode: 0,
       });
 
-      const result = await handleListDatabases({});
+      const result = (await handleListDatabases({})) as RawOutput;
 
       expect(result.format).toBe("json");
       expect(result.content).toBe('{"databases": ["db1", "db2"]}');
@@ -238,7 +416,7 @@ describe("Tool Handlers", () => {
         exitCode: 0,
       });
 
-      const result = await handleListDatabases({ output_format: "csv" });
+      const result = (await handleListDatabases({ output_format: "csv" })) as RawOutput;
 
       expect(result.format).toBe("csv");
       expect(mockExecuteUsqlQuery).toHaveBeenCalledWith(
@@ -297,7 +475,7 @@ describe("Tool Handlers", () => {
         exitCode: 0,
       });
 
-      const result = await handleListTables({});
+      const result = (await handleListTables({})) as RawOutput;
 
       expect(result.format).toBe("json");
       expect(result.content).toBe('{"tables": ["users", "orders"]}');
@@ -315,7 +493,7 @@ describe("Tool Handlers", () => {
         exitCode: 0,
       });
 
-      const result = await handleListTables({ output_format: "csv" });
+      const result = (await handleListTables({ output_format: "csv" })) as RawOutput;
 
       expect(result.format).toBe("csv");
     });
@@ -333,6 +511,19 @@ describe("Tool Handlers", () => {
       });
     });
 
+    it("caps the number of tables returned", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue({
+        stdout: "name\nusers\norders\nitems\n",
+        stderr: "",
+        exitCode: 0,
+      });
+
+      const result = (await handleListTables({ output_format: "csv", max_rows: 1 })) as RawOutput;
+
+      expect(result.content).toBe("name\nusers\n");
+      expect(result.total_rows).toBe(3);
+    });
+
     it("includes database parameter in error context", async () => {
       mockExecuteUsqlQuery.mockRejectedValue(new Error("Connection failed"));
 
@@ -344,6 +535,31 @@ describe("Tool Handlers", () => {
         }),
       });
     });
+
+    it("switches the connection to the requested database", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue({ stdout: "[]", stderr: "", exitCode: 0 });
+
+      await handleListTables({ database: "reporting" });
+
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledWith(
+        "postgres://localhost/reporting",
+        "\\dt",
+        expect.any(Object)
+      );
+    });
+
+    it("lists a schema when the driver cannot switch databases", async () => {
+      mockResolveConnectionStringOrDefault.mockResolvedValue("oracle://user:pw@host/ORCL");
+      mockExecuteUsqlQuery.mockResolvedValue({ stdout: "[]", stderr: "", exitCode: 0 });
+
+      await handleListTables({ database: "HR" });
+
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledWith(
+        "oracle://user:pw@host/ORCL",
+        "\\dt HR.*",
+        expect.any(Object)
+      );
+    });
   });
 
   describe("handleDescribeTable", () => {
@@ -354,7 +570,7 @@ describe("Tool Handlers", () => {
         exitCode: 0,
       });
 
-      const result = await handleDescribeTable({ table: "users" });
+      const result = (await handleDescribeTable({ table: "users" })) as RawOutput;
 
       expect(result.format).toBe("json");
       expect(result.content).toContain("columns");
@@ -383,6 +599,18 @@ describe("Tool Handlers", () => {
       });
     });
 
+    it("rejects table names that would add meta-commands", async () => {
+      mockIsReadOnlyConnection.mockReturnValue(true);
+
+      for (const table of ["users \\! id", "users\n\\i /etc/passwd", "users; DROP TABLE t"]) {
+        await expect(handleDescribeTable({ table })).rejects.toMatchObject({
+          error: "InvalidInput",
+          message: expect.stringContaining("Invalid table name"),
+        });
+      }
+      expect(mockExecuteUsqlQuery).not.toHaveBeenCalled();
+    });
+
     it("throws TableNotFound when output is empty with exitCode 0", async () => {
       mockExecuteUsqlQuery.mockResolvedValue({
         stdout: "",
@@ -441,6 +669,24 @@ describe("Tool Handlers", () => {
       });
     });
 
+    it("qualifies the table with the database for schema-only drivers", async () => {
+      mockResolveConnectionStringOrDefault.mockResolvedValue("oracle://user:pw@host/ORCL");
+      mockExecuteUsqlQuery.mockResolvedValue({ stdout: "[{}]", stderr: "", exitCode: 0 });
+
+      await handleDescribeTable({ table: "employees", database: "HR" });
+      await handleDescribeTable({ table: "FINANCE.budget", database: "HR" });
+
+      expect(mockExecuteUsqlQuery).toHaveBeenNthCalledWith(1, expect.any(String), "\\d HR.employees", expect.any(Object));
+      expect(mockExecuteUsqlQuery).toHaveBeenNthCalledWith(2, expect.any(String), "\\d FINANCE.budget", expect.any(Object));
+    });
+
+    it("rejects invalid database names", async () => {
+      await expect(handleDescribeTable({ table: "users", database: "x; drop" })).rejects.toMatchObject({
+        error: "InvalidInput",
+      });
+      expect(mockExecuteUsqlQuery).not.toHaveBeenCalled();
+    });
+
     it("respects output_format parameter", async () => {
       mockExecuteUsqlQuery.mockResolvedValue({
         stdout: "column,type\nid,integer",
@@ -448,10 +694,10 @@ describe("Tool Handlers", () => {
         exitCode: 0,
       });
 
-      const result = await handleDescribeTable({
+      const result = (await handleDescribeTable({
         table: "users",
         output_format: "csv",
-      });
+      })) as RawOutput;
 
       expect(result.format).toBe("csv");
     });
@@ -465,9 +711,9 @@ describe("Tool Handlers", () => {
         exitCode: 0,
       });
 
-      const result = await handleExecuteScript({
+      const result = (await handleExecuteScript({
         script: "CREATE TABLE test (id INT); INSERT INTO test VALUES (1);",
-      });
+      })) as RawOutput;
 
       expect(result.format).toBe("json");
       expect(result.content).toBe('{"result": "success"}');
@@ -538,6 +784,20 @@ describe("Tool Handlers", () => {
       consoleWarnSpy.mockRestore();
     });
 
+    it("rejects scripts containing DDL on read-only connections", async () => {
+      mockIsReadOnlyConnection.mockReturnValue(true);
+
+      await expect(
+        handleExecuteScript({ script: "SELECT 1; DROP TABLE users;" })
+      ).rejects.toMatchObject({
+        error: "ReadOnlyViolation",
+        details: expect.objectContaining({
+          violations: [expect.objectContaining({ keyword: "DROP", kind: "ddl" })],
+        }),
+      });
+      expect(mockExecuteUsqlQuery).not.toHaveBeenCalled();
+    });
+
     it("handles script execution errors", async () => {
       mockExecuteUsqlQuery.mockResolvedValue({
         stdout: "",
@@ -560,10 +820,10 @@ describe("Tool Handlers", () => {
         exitCode: 0,
       });
 
-      const result = await handleExecuteScript({
+      const result = (await handleExecuteScript({
         script: "SELECT 1",
         output_format: "csv",
-      });
+      })) as RawOutput;
 
       expect(result.format).toBe("csv");
     });
@@ -618,4 +878,555 @@ describe("Tool Handlers", () => {
       );
     });
   });
+
+  describe("dry_run", () => {
+    it("wraps a script in a rolled-back transaction and reports affected rows", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue({
+        stdout: 'UPDATE 3\n[{"id":1}]\nDELETE 2\n',
+        stderr: "",
+        exitCode: 0,
+      });
+
+      const result = (await handleExecuteScript({
+        script: "UPDATE users SET active = false; SELECT id FROM users; DELETE FROM sessions",
+        dry_run: true,
+      })) as RawOutput;
+
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledWith(
+        "postgres://localhost/testdb",
+        "\\begin\nUPDATE users SET active = false; SELECT id FROM users; DELETE FROM sessions;\n\\rollback",
+        expect.any(Object)
+      );
+      expect(result.content).toContain('[{"id":1}]');
+      expect(result.dry_run).toEqual({
+        rolled_back: true,
+        affected_rows: [
+          { command: "UPDATE", rows: 3 },
+          { command: "DELETE", rows: 2 },
+        ],
+        total_affected_rows: 5,
+      });
+    });
+
+    it("runs execute_query dry runs through the script path with bound parameters", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue({ stdout: "INSERT 0 1\n", stderr: "", exitCode: 0 });
+
+      const result = await handleExecuteQuery({
+        query: "INSERT INTO users (name) VALUES ($1)",
+        parameters: ["ann"],
+        output_format: "structured",
+        dry_run: true,
+      });
+
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledWith(
+        expect.any(String),
+        "\\begin\nINSERT INTO users (name) VALUES ('ann');\n\\rollback",
+        expect.any(Object)
+      );
+      expect(result).toMatchObject({
+        format: "structured",
+        messages: ["INSERT 0 1"],
+        dry_run: { affected_rows: [{ command: "INSERT", rows: 1 }], total_affected_rows: 1 },
+      });
+    });
+
+    it("refuses non-transactional backends", async () => {
+      mockParseConnectionString.mockReturnValue({
+        scheme: "clickhouse",
+        driver: "clickhouse",
+        originalUri: "clickhouse://localhost/db",
+      });
+
+      await expect(
+        handleExecuteQuery({ query: "DELETE FROM events", dry_run: true })
+      ).rejects.toMatchObject({ error: "DryRunUnsupported" });
+      expect(mockExecuteUsqlQuery).not.toHaveBeenCalled();
+    });
+
+    it("refuses transaction control inside the script", async () => {
+      await expect(
+        handleExecuteScript({ script: "UPDATE t SET x = 1; COMMIT;", dry_run: true })
+      ).rejects.toMatchObject({
+        error: "DryRunUnsupported",
+        details: expect.objectContaining({ statements: [{ keyword: "COMMIT", kind: "transaction" }] }),
+      });
+      expect(mockExecuteUsqlQuery).not.toHaveBeenCalled();
+    });
+
+    it("refuses functions whose effects survive the rollback", async () => {
+      await expect(
+        handleExecuteQuery({ query: "SELECT nextval('orders_id_seq')", dry_run: true })
+      ).rejects.toMatchObject({
+        error: "DryRunUnsupported",
+        details: expect.objectContaining({
+          statements: [{ keyword: "SELECT", kind: "write", reason: "side effects" }],
+        }),
+      });
+      expect(mockExecuteUsqlQuery).not.toHaveBeenCalled();
+    });
+
+    it("reports a run that exits with an error as failed, never as rolled back", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue({ stdout: "UPDATE 3\n", stderr: "", exitCode: 1 });
+
+      await expect(
+        handleExecuteScript({ script: "UPDATE t SET x = 1; UPDATE t SET y = 1", dry_run: true })
+      ).rejects.toMatchObject({
+        error: "ScriptExecutionError",
+        details: expect.objectContaining({ dryRun: true }),
+      });
+    });
+  });
+
+  describe("retries", () => {
+    const mockGetRetryPolicy = config.getRetryPolicy as jest.MockedFunction<
+      typeof config.getRetryPolicy
+    >;
+    const deadlock = {
+      stdout: "",
+      stderr: "error: pgx: ERROR: deadlock detected (SQLSTATE 40P01)\n",
+      exitCode: 1,
+    };
+
+    beforeEach(() => {
+      mockExecuteUsqlQuery.mockReset();
+      mockGetRetryPolicy.mockReturnValue({ maxAttempts: 3, initialDelayMs: 1 });
+      // Keep the backoff sleeps from racing the background threshold
+      (config.getBackgroundThresholdMs as jest.Mock).mockReturnValue(60000);
+    });
+
+    afterEach(() => {
+      mockGetRetryPolicy.mockReset();
+      (config.getBackgroundThresholdMs as jest.Mock).mockReset();
+    });
+
+    it("retries transient failures of reads and reports the attempts", async () => {
+      mockExecuteUsqlQuery
+        .mockResolvedValueOnce(deadlock)
+        .mockResolvedValueOnce({ stdout: '[{"id":1}]', stderr: "", exitCode: 0 });
+
+      const result = (await handleExecuteQuery({ query: "SELECT id FROM users" })) as RawOutput;
+
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledTimes(2);
+      expect(result.content).toBe('[{"id":1}]');
+      expect(result.attempts).toEqual([
+        expect.objectContaining({ attempt: 1, error_class: "deadlock" }),
+      ]);
+    });
+
+    it("does not retry writes without retryNonIdempotent", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue(deadlock);
+
+      await expect(
+        handleExecuteScript({ script: "UPDATE users SET active = false;" })
+      ).rejects.toMatchObject({
+        error: "ScriptExecutionError",
+        details: expect.objectContaining({ error_class: "deadlock", retryable: true }),
+      });
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it("reports the attempt history when metadata commands keep failing", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue(deadlock);
+
+      await expect(handleListTables({})).rejects.toMatchObject({
+        details: expect.objectContaining({
+          attempts: [
+            expect.objectContaining({ attempt: 1 }),
+            expect.objectContaining({ attempt: 2 }),
+          ],
+        }),
+      });
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("handleExplainQuery", () => {
+    it("binds parameters, runs the driver's plan command and returns plan and summary", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue({
+        stdout: JSON.stringify([
+          { "QUERY PLAN": [{ Plan: { "Node Type": "Seq Scan", "Relation Name": "users", "Plan Rows": 3 } }] },
+        ]),
+        stderr: "",
+        exitCode: 0,
+      });
+
+      const result = await handleExplainQuery({ query: "SELECT * FROM users WHERE name = $1", parameters: ["ann"] });
+
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledWith(
+        "postgres://localhost/testdb",
+        "EXPLAIN (FORMAT JSON) SELECT * FROM users WHERE name = 'ann';",
+        expect.objectContaining({ format: "json" })
+      );
+      expect(result).toMatchObject({
+        driver: "postgres",
+        plan_command: "EXPLAIN (FORMAT JSON)",
+        plan: [{ Plan: { "Node Type": "Seq Scan" } }],
+        summary: { node_types: ["Seq Scan"], estimated_rows: 3, warnings: [] },
+      });
+    });
+
+    it("checks the query as an EXPLAIN on read-only connections", async () => {
+      mockIsReadOnlyConnection.mockReturnValue(true);
+      mockExecuteUsqlQuery.mockResolvedValue({
+        stdout: JSON.stringify([{ "QUERY PLAN": [{ Plan: { "Node Type": "Delete" } }] }]),
+        stderr: "",
+        exitCode: 0,
+      });
+
+      await expect(
+        handleExplainQuery({ query: "SELECT E'\\''; DELETE FROM t; --'" })
+      ).rejects.toMatchObject({ error: "ReadOnlyViolation" });
+      expect(mockExecuteUsqlQuery).not.toHaveBeenCalled();
+
+      await handleExplainQuery({ query: "DELETE FROM t WHERE id = 1" });
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledWith(
+        expect.any(String),
+        "EXPLAIN (FORMAT JSON) DELETE FROM t WHERE id = 1;",
+        expect.any(Object)
+      );
+    });
+
+    it("reports plan errors from usql", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue({
+        stdout: "",
+        stderr: 'error: pq: relation "nope" does not exist',
+        exitCode: 1,
+      });
+
+      await expect(handleExplainQuery({ query: "SELECT * FROM nope" })).rejects.toMatchObject({
+        error: "ExplainError",
+        message: expect.stringContaining("does not exist"),
+      });
+    });
+  });
+
+  describe("handleTestConnection", () => {
+    const SERVER_INFO = JSON.stringify([
+      {
+        db_version: "PostgreSQL 16.2",
+        db_user: "app",
+        db_name: "testdb",
+        tls_enabled: true,
+        tls_version: "TLSv1.3",
+        tls_cipher: "TLS_AES_256_GCM_SHA384",
+      },
+    ]);
+
+    beforeEach(() => {
+      mockExecuteUsqlQuery.mockReset();
+    });
+
+    it("reports server details from a single query", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue({ stdout: SERVER_INFO, stderr: "", exitCode: 0 });
+
+      const status = (await handleTestConnection({ connection_string: "app" })) as ConnectionStatus;
+
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledTimes(1);
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledWith(
+        "postgres://localhost/testdb",
+        expect.stringContaining("pg_stat_ssl"),
+        expect.objectContaining({ timeout: 10000, format: "json" })
+      );
+      expect(status).toMatchObject({
+        connection: "app",
+        ok: true,
+        driver: "postgres",
+        server_version: "PostgreSQL 16.2",
+        current_user: "app",
+        current_database: "testdb",
+        tls: { enabled: true, version: "TLSv1.3", cipher: "TLS_AES_256_GCM_SHA384" },
+      });
+      expect(status.latency_ms).toEqual(expect.any(Number));
+    });
+
+    it("falls back to the ping when server details are not available", async () => {
+      mockExecuteUsqlQuery
+        .mockResolvedValueOnce({
+          stdout: "",
+          stderr: 'error: pq: relation "pg_stat_ssl" does not exist (SQLSTATE 42P01)',
+          exitCode: 1,
+        })
+        .mockResolvedValueOnce({ stdout: '[{"?column?":1}]', stderr: "", exitCode: 0 });
+
+      const status = (await handleTestConnection({ timeout_ms: 500 })) as ConnectionStatus;
+
+      expect(mockExecuteUsqlQuery).toHaveBeenLastCalledWith(
+        "postgres://localhost/testdb",
+        "SELECT 1",
+        expect.objectContaining({ timeout: 500 })
+      );
+      expect(status.ok).toBe(true);
+      expect(status.server_version).toBeUndefined();
+    });
+
+    it("reports connection failures without failing the call", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue({
+        stdout: "",
+        stderr: "error: dial tcp 127.0.0.1:5432: connect: connection refused",
+        exitCode: 1,
+      });
+
+      const status = (await handleTestConnection({ connection_string: "app" })) as ConnectionStatus;
+
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledTimes(1);
+      expect(status).toMatchObject({
+        connection: "app",
+        ok: false,
+        error: {
+          error: "ConnectionTestFailed",
+          details: expect.objectContaining({ error_class: "connection_refused", retryable: true }),
+        },
+      });
+    });
+
+    it("checks every configured connection with all", async () => {
+      (config.loadConfig as jest.Mock).mockReturnValue({
+        connections: {
+          replica: { uri: "postgres://replica/db", environment: "prod" },
+          broken: { uri: "postgres://broken/db" },
+          down: { uri: "postgres://down/db" },
+        },
+      });
+      mockResolveConnectionStringOrDefault.mockImplementation(async (name) => {
+        if (name === "broken") {
+          throw new Error("Invalid connection configuration. port is invalid");
+        }
+        return `postgres://${name}/db`;
+      });
+      mockExecuteUsqlQuery.mockImplementation(async (connectionString) =>
+        connectionString.includes("down")
+          ? { stdout: "", stderr: "error: connection refused", exitCode: 1 }
+          : { stdout: SERVER_INFO, stderr: "", exitCode: 0 }
+      );
+
+      const board = (await handleTestConnection({ all: true })) as ConnectionStatusBoard;
+
+      expect(board).toMatchObject({ ok_count: 1, failed_count: 2 });
+      expect(board.connections.map((status) => [status.connection, status.ok])).toEqual([
+        ["broken", false],
+        ["down", false],
+        ["replica", true],
+      ]);
+      expect(board.connections[2].environment).toBe("prod");
+    });
+
+    it("rejects all combined with connection_string", async () => {
+      await expect(
+        handleTestConnection({ all: true, connection_string: "app" })
+      ).rejects.toMatchObject({ error: "InvalidInput" });
+    });
+  });
+
+  describe("handleGetDatabaseInfo", () => {
+    const DETECTION = JSON.stringify([
+      {
+        server_version: "16.2",
+        db_version: "PostgreSQL 16.2 on x86_64-pc-linux-gnu",
+        default_schema: "public",
+        db_collation: "C",
+        db_timezone: "UTC",
+      },
+    ]);
+
+    beforeEach(() => {
+      mockExecuteUsqlQuery.mockReset();
+      (config.getDatabaseInfoTtlMs as jest.Mock).mockReturnValue(60000);
+      clearDatabaseInfoCache();
+    });
+
+    afterEach(() => {
+      clearDatabaseInfoCache();
+    });
+
+    it("detects the engine once and then answers from the cache", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue({ stdout: DETECTION, stderr: "", exitCode: 0 });
+
+      const first = (await handleGetDatabaseInfo({ connection_string: "app" })) as DatabaseInfo;
+      const second = (await handleGetDatabaseInfo({ connection_string: "app" })) as DatabaseInfo;
+
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledTimes(1);
+      expect(first).toMatchObject({
+        driver: "postgres",
+        engine: "postgresql",
+        version: "16.2",
+        default_schema: "public",
+        features: { cte: true, returning: true, window_functions: true, json_operators: true },
+        cached: false,
+      });
+      expect(second).toMatchObject({ version: "16.2", cached: true });
+    });
+
+    it("detects again with refresh", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue({ stdout: DETECTION, stderr: "", exitCode: 0 });
+
+      await handleGetDatabaseInfo({ connection_string: "app" });
+      const refreshed = (await handleGetDatabaseInfo({
+        connection_string: "app",
+        refresh: true,
+      })) as DatabaseInfo;
+
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledTimes(2);
+      expect(refreshed.cached).toBe(false);
+    });
+
+    it("adds the cached engine to query errors", async () => {
+      mockExecuteUsqlQuery.mockResolvedValueOnce({ stdout: DETECTION, stderr: "", exitCode: 0 });
+      await handleGetDatabaseInfo({ connection_string: "app" });
+
+      mockExecuteUsqlQuery.mockResolvedValueOnce({
+        stdout: "",
+        stderr: 'error: pq: syntax error at or near "MERGE"',
+        exitCode: 1,
+      });
+
+      await expect(
+        handleExecuteQuery({ connection_string: "app", query: "MERGE INTO t USING s ON true" })
+      ).rejects.toMatchObject({
+        details: expect.objectContaining({ engine: "postgresql", engine_version: "16.2" }),
+      });
+    });
+
+    it("fails when detection fails", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue({
+        stdout: "",
+        stderr: "error: connection refused",
+        exitCode: 1,
+      });
+
+      await expect(handleGetDatabaseInfo({ connection_string: "app" })).rejects.toMatchObject({
+        error: "DatabaseInfoError",
+      });
+    });
+  });
+
+  describe("handleDescribeTable with normalized", () => {
+    const CATALOG = [
+      [{ table_schema: "public", table_name: "users", table_comment: null, row_estimate: 42 }],
+      [{ column_name: "id", data_type: "integer", is_nullable: false, ordinal: 1 }],
+      [{ constraint_name: "users_pkey", constraint_type: "PRIMARY KEY", column_name: "id", ordinal: 1 }],
+      [],
+      [],
+    ]
+      .map((rows) => JSON.stringify(rows))
+      .join("\n");
+
+    beforeEach(() => {
+      mockExecuteUsqlQuery.mockReset();
+    });
+
+    it("queries the catalog in one script", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue({ stdout: CATALOG, stderr: "", exitCode: 0 });
+
+      const description = (await handleDescribeTable({
+        table: "public.users",
+        normalized: true,
+      })) as TableDescription;
+
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledTimes(1);
+      expect(mockExecuteUsqlQuery).toHaveBeenCalledWith(
+        "postgres://localhost/testdb",
+        expect.stringContaining("n.nspname = 'public' AND c.relname = 'users'"),
+        expect.objectContaining({ format: "json" })
+      );
+      expect(description).toMatchObject({
+        driver: "postgres",
+        schema: "public",
+        table: "users",
+        columns: [{ name: "id", type: "integer", nullable: false }],
+        primary_key: { name: "users_pkey", columns: ["id"] },
+        approximate_row_count: 42,
+      });
+    });
+
+    it("throws TableNotFound when the catalog has no such table", async () => {
+      mockExecuteUsqlQuery.mockResolvedValue({
+        stdout: "[]\n[]\n[]\n[]\n[]",
+        stderr: "",
+        exitCode: 0,
+      });
+
+      await expect(handleDescribeTable({ table: "ghost", normalized: true })).rejects.toMatchObject({
+        error: "TableNotFound",
+      });
+    });
+
+    it("rejects drivers without catalog queries", async () => {
+      mockParseConnectionString.mockReturnValue({
+        scheme: "clickhouse",
+        driver: "clickhouse",
+        originalUri: "clickhouse://localhost/default",
+      });
+
+      await expect(handleDescribeTable({ table: "events", normalized: true })).rejects.toMatchObject({
+        error: "DescribeUnsupported",
+      });
+      expect(mockExecuteUsqlQuery).not.toHaveBeenCalled();
+    });
+
+    describe("on mysql", () => {
+      const MYSQL_CATALOG = [
+        [{ table_schema: "shop", table_name: "orders", table_comment: "", row_estimate: 3 }],
+        [{ column_name: "total", data_type: "int", is_nullable: 0, ordinal: 1 }],
+        [{ constraint_name: "total_positive", constraint_type: "CHECK", check_clause: null }],
+        [],
+        [],
+      ]
+        .map((rows) => JSON.stringify(rows))
+        .join("\n");
+
+      beforeEach(() => {
+        mockParseConnectionString.mockReturnValue({
+          scheme: "mysql",
+          driver: "mysql",
+          originalUri: "mysql://localhost/shop",
+        });
+      });
+
+      it("reads check clauses in a separate query", async () => {
+        mockExecuteUsqlQuery
+          .mockResolvedValueOnce({ stdout: MYSQL_CATALOG, stderr: "", exitCode: 0 })
+          .mockResolvedValueOnce({
+            stdout: JSON.stringify([{ constraint_name: "total_positive", check_clause: "(`total` >= 0)" }]),
+            stderr: "",
+            exitCode: 0,
+          });
+
+        const description = (await handleDescribeTable({
+          table: "orders",
+          normalized: true,
+        })) as TableDescription;
+
+        expect(mockExecuteUsqlQuery).toHaveBeenCalledTimes(2);
+        expect(mockExecuteUsqlQuery.mock.calls[0][1]).not.toContain("CHECK_CONSTRAINTS");
+        expect(mockExecuteUsqlQuery.mock.calls[1][1]).toContain("information_schema.CHECK_CONSTRAINTS");
+        expect(description.check_constraints).toEqual([
+          { name: "total_positive", definition: "(`total` >= 0)" },
+        ]);
+      });
+
+      it("leaves check clauses empty on servers without CHECK_CONSTRAINTS", async () => {
+        mockExecuteUsqlQuery
+          .mockResolvedValueOnce({ stdout: MYSQL_CATALOG, stderr: "", exitCode: 0 })
+          .mockResolvedValueOnce({
+            stdout: "",
+            stderr: "error: mysql: 1109: Unknown table 'CHECK_CONSTRAINTS' in information_schema",
+            exitCode: 1,
+          });
+
+        const description = (await handleDescribeTable({
+          table: "orders",
+          normalized: true,
+        })) as TableDescription;
+
+        expect(description.table).toBe("orders");
+        expect(description.check_constraints).toEqual([{ name: "total_positive", definition: "" }]);
+      });
+    });
+
+    it("rejects output_format", async () => {
+      await expect(
+        handleDescribeTable({ table: "users", normalized: true, output_format: "csv" })
+      ).rejects.toMatchObject({ error: "InvalidInput" });
+    });
+  });
 });